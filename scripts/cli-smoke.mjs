@@ -0,0 +1,35 @@
+#!/usr/bin/env node
+// Checks that `docgen --diff` writes a patch `git apply` accepts, for a file given as a
+// `./`-relative path. Run it with `npm run smoke:cli` while the edge function is served, e.g. by
+// `supabase functions serve`; documentation comes from the mock provider, so no model is needed.
+
+import { execFileSync } from 'node:child_process'
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { dirname, join } from 'node:path'
+import process from 'node:process'
+import { fileURLToPath } from 'node:url'
+
+const cli = join(dirname(fileURLToPath(import.meta.url)), '..', 'dist-cli', 'index.js')
+const repo = mkdtempSync(join(tmpdir(), 'docgen-smoke-'))
+
+const run = (command, args, input) =>
+  execFileSync(command, args, { cwd: repo, input, encoding: 'utf8', stdio: 'pipe' })
+
+try {
+  mkdirSync(join(repo, 'src'))
+  writeFileSync(join(repo, 'src', 'a.py'), 'def add(a, b):\n    return a + b\n')
+  run('git', ['init', '--quiet'])
+
+  const patch = run('node', [cli, '--diff', '--provider', 'mock', './src/a.py'])
+  if (!patch.startsWith('diff --git a/src/a.py b/src/a.py\n')) {
+    throw new Error(`Unexpected patch header:\n${patch}`)
+  }
+  run('git', ['apply', '--check'], patch)
+  console.log('docgen --diff: the patch for ./src/a.py applies cleanly')
+} catch (error) {
+  console.error(error.stderr || error.message)
+  process.exitCode = 1
+} finally {
+  rmSync(repo, { recursive: true, force: true })
+}
@@ -0,0 +1,149 @@
+#!/usr/bin/env node
+// Drives `docgen-lsp --stdio` through a scripted session: open a file, check its diagnostics,
+// then resolve the "Generate docstring" quick fix. Run it with `npm run smoke:lsp` while the
+// edge function is served, e.g. by `supabase functions serve`; the server is configured with the
+// mock provider, so no model is needed.
+
+import { Buffer } from 'node:buffer'
+import { spawn } from 'node:child_process'
+import { dirname, join } from 'node:path'
+import process from 'node:process'
+import { fileURLToPath } from 'node:url'
+
+const TIMEOUT_MS = 30000
+
+const lsp = join(dirname(fileURLToPath(import.meta.url)), '..', 'dist-cli', 'lsp.js')
+const server = spawn('node', [lsp, '--stdio'], { stdio: ['pipe', 'pipe', 'inherit'] })
+
+const pending = new Map()
+const notifications = []
+const waiting = []
+let nextId = 1
+let buffer = Buffer.alloc(0)
+
+function send(message) {
+  const json = JSON.stringify({ jsonrpc: '2.0', ...message })
+  server.stdin.write(`Content-Length: ${Buffer.byteLength(json)}\r\n\r\n${json}`)
+}
+
+function request(method, params) {
+  const id = nextId++
+  send({ id, method, params })
+  return new Promise((resolve, reject) => {
+    pending.set(id, (message) =>
+      message.error
+        ? reject(new Error(`${method}: ${message.error.message}`))
+        : resolve(message.result)
+    )
+  })
+}
+
+function notification(method) {
+  const found = notifications.find((message) => message.method === method)
+  if (found) return Promise.resolve(found.params)
+  return new Promise((resolve) => waiting.push({ method, resolve }))
+}
+
+function receive(message) {
+  if (message.method && message.id !== undefined) {
+    // Requests from the server, such as workspace/configuration, get an empty answer
+    send({ id: message.id, result: null })
+  } else if (message.id !== undefined) {
+    pending.get(message.id)?.(message)
+    pending.delete(message.id)
+  } else {
+    notifications.push(message)
+    for (const waiter of waiting.filter((w) => w.method === message.method)) {
+      waiting.splice(waiting.indexOf(waiter), 1)
+      waiter.resolve(message.params)
+    }
+  }
+}
+
+server.stdout.on('data', (chunk) => {
+  buffer = Buffer.concat([buffer, chunk])
+  for (;;) {
+    const headerEnd = buffer.indexOf('\r\n\r\n')
+    if (headerEnd < 0) return
+    const length = Number(/Content-Length: (\d+)/i.exec(buffer.subarray(0, headerEnd))[1])
+    const start = headerEnd + 4
+    if (buffer.length < start + length) return
+    receive(JSON.parse(buffer.subarray(start, start + length).toString('utf8')))
+    buffer = buffer.subarray(start + length)
+  }
+})
+
+function check(condition, message) {
+  if (!condition) throw new Error(message)
+}
+
+async function session() {
+  const uri = 'file:///smoke/shapes.py'
+  const text = [
+    'def area(width, height):',
+    '    return width * height',
+    '',
+    'def scale(shape, factor):',
+    '    """Scales a shape.',
+    '',
+    '    Args:',
+    '        shape: The shape to scale.',
+    '    """',
+    '    return shape * factor',
+    '',
+  ].join('\n')
+
+  await request('initialize', {
+    processId: process.pid,
+    rootUri: null,
+    capabilities: { textDocument: { codeAction: { resolveSupport: { properties: ['edit'] } } } },
+    initializationOptions: { provider: 'mock', format: 'google' },
+  })
+  send({ method: 'initialized', params: {} })
+  send({
+    method: 'textDocument/didOpen',
+    params: { textDocument: { uri, languageId: 'python', version: 1, text } },
+  })
+
+  const { diagnostics } = await notification('textDocument/publishDiagnostics')
+  const codes = diagnostics.map((d) => `${d.code}@${d.range.start.line}`).sort()
+  check(
+    codes.join() === 'outdated@3,undocumented@0',
+    `Unexpected diagnostics: ${codes.join(', ') || 'none'}`
+  )
+
+  const actions = await request('textDocument/codeAction', {
+    textDocument: { uri },
+    range: { start: { line: 0, character: 4 }, end: { line: 0, character: 4 } },
+    context: { diagnostics: diagnostics.filter((d) => d.range.start.line === 0) },
+  })
+  const quickFix = actions.find((action) => action.kind === 'quickfix')
+  check(quickFix, `No quick fix among: ${actions.map((a) => a.title).join(', ')}`)
+
+  const resolved = await request('codeAction/resolve', quickFix)
+  const edits = resolved.edit?.changes?.[uri] ?? []
+  const inserted = edits.map((edit) => edit.newText).join('')
+  check(inserted.includes('Mock documentation'), `Unexpected edit: ${JSON.stringify(edits)}`)
+
+  await request('shutdown')
+  send({ method: 'exit' })
+  console.log(
+    `docgen-lsp: ${codes.join(', ')}; "${quickFix.title}" resolved to ${edits.length} edit(s)`
+  )
+}
+
+const timer = setTimeout(() => {
+  console.error(`docgen-lsp did not finish within ${TIMEOUT_MS / 1000}s`)
+  server.kill()
+  process.exit(1)
+}, TIMEOUT_MS)
+
+try {
+  await session()
+} catch (error) {
+  console.error(error.message)
+  server.kill()
+  process.exitCode = 1
+} finally {
+  clearTimeout(timer)
+}
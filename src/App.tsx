@@ -1,6 +1,7 @@
 import { Routes, Route } from 'react-router-dom'
 import Layout from './components/Layout'
 import Home from './pages/Home'
+import Project from './pages/Project'
 import { AuthProvider } from './contexts/AuthContext'
 
 function App() {
@@ -9,6 +10,7 @@ function App() {
       <Routes>
         <Route path="/" element={<Layout />}>
           <Route index element={<Home />} />
+          <Route path="project" element={<Project />} />
         </Route>
       </Routes>
     </AuthProvider>
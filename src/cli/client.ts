@@ -0,0 +1,64 @@
+import {
+  DocstringFailure,
+  GenerateDocstringRequest,
+  GenerateDocstringResponse,
+  ModelProvider,
+  StructuredDocstring,
+} from '@/types'
+import { renderGeneratedDocstrings } from '@/utils/docRenderer'
+
+export interface ApiConfig {
+  /** Base URL of the Supabase project hosting the edge function */
+  url: string
+  /** Anon key, sent as the bearer token */
+  key?: string
+}
+
+/** Fills in the connection settings from the environment, as the web app's `.env` does */
+export function resolveApiConfig(url?: string, key?: string): ApiConfig {
+  const env = process.env
+  const base = url ?? env.DOCGEN_API_URL ?? env.SUPABASE_URL ?? env.VITE_SUPABASE_URL
+  if (!base) {
+    throw new Error('No API URL: pass --url or set DOCGEN_API_URL or SUPABASE_URL')
+  }
+  return {
+    url: base.replace(/\/+$/, ''),
+    key: key ?? env.DOCGEN_API_KEY ?? env.SUPABASE_ANON_KEY ?? env.VITE_SUPABASE_ANON_KEY,
+  }
+}
+
+export async function generateDocstrings(
+  request: GenerateDocstringRequest,
+  config: ApiConfig
+): Promise<GenerateDocstringResponse> {
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' }
+  if (config.key) {
+    headers.Authorization = `Bearer ${config.key}`
+    headers.apikey = config.key
+  }
+
+  const response = await fetch(`${config.url}/functions/v1/generate-docstring`, {
+    method: 'POST',
+    headers,
+    body: JSON.stringify(request),
+  })
+  const data: {
+    docstrings?: Array<{ name: string; qualifiedName?: string; structured: StructuredDocstring }>
+    failures?: DocstringFailure[]
+    provider?: ModelProvider
+    model?: string
+    error?: string
+  } = await response.json().catch(() => ({}))
+
+  if (!response.ok || !data.docstrings) {
+    const reason = data.error ?? `${response.status} ${response.statusText}`
+    throw new Error(`Failed to generate docstrings: ${reason}`)
+  }
+
+  return {
+    docstrings: renderGeneratedDocstrings(request, data.docstrings),
+    failures: data.failures ?? [],
+    provider: data.provider,
+    model: data.model,
+  }
+}
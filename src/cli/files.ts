@@ -0,0 +1,84 @@
+import { readdirSync, statSync } from 'node:fs'
+import { join } from 'node:path'
+import { IGNORED_DIRECTORIES, isProjectSource } from '@/utils/project'
+
+const GLOB_CHARACTERS = /[*?[{]/
+
+/** Translates a glob such as `src/**\/*.{ts,tsx}` into a pattern over `/`-separated paths */
+export function globToRegExp(glob: string): RegExp {
+  let pattern = ''
+  let braces = 0
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i]
+    if (char === '*' && glob[i + 1] === '*') {
+      // `**/` matches any number of directories, including none
+      const directories = glob[i + 2] === '/'
+      pattern += directories ? '(?:.*/)?' : '.*'
+      i += directories ? 2 : 1
+    } else if (char === '*') {
+      pattern += '[^/]*'
+    } else if (char === '?') {
+      pattern += '[^/]'
+    } else if (char === '[' && glob.indexOf(']', i + 2) !== -1) {
+      const end = glob.indexOf(']', i + 2)
+      pattern += `[${glob.slice(i + 1, end).replace(/^!/, '^').replace(/\\/g, '\\\\')}]`
+      i = end
+    } else if (char === '{') {
+      pattern += '(?:'
+      braces++
+    } else if (char === '}' && braces > 0) {
+      pattern += ')'
+      braces--
+    } else if (char === ',' && braces > 0) {
+      pattern += '|'
+    } else {
+      pattern += char.replace(/[.+^$()|[\]{}\\]/g, '\\$&')
+    }
+  }
+  return new RegExp(`^${pattern}$`)
+}
+
+function walk(directory: string): string[] {
+  return readdirSync(directory, { withFileTypes: true }).flatMap((entry) => {
+    const path = join(directory, entry.name).split('\\').join('/')
+    if (entry.isDirectory()) return IGNORED_DIRECTORIES.has(entry.name) ? [] : walk(path)
+    return entry.isFile() ? [path] : []
+  })
+}
+
+function expandGlob(glob: string): string[] {
+  // Only the directories under the pattern's literal prefix are searched
+  const parts = glob.split('/')
+  const literal = parts.slice(0, parts.findIndex((part) => GLOB_CHARACTERS.test(part)))
+  const base = literal.join('/') || '.'
+  const matcher = globToRegExp(glob.replace(/^\.\//, ''))
+  let files: string[]
+  try {
+    files = walk(base)
+  } catch {
+    return []
+  }
+  return files.filter((path) => matcher.test(path.replace(/^\.\//, '')) && isProjectSource(path))
+}
+
+/**
+ * Resolves command-line inputs to the files to process. Directories are searched for
+ * supported sources and globs are matched against paths below their literal prefix; files
+ * named directly are kept even when their language is unsupported, so that they are reported.
+ */
+export function expandInputs(inputs: string[]): string[] {
+  const files = new Set<string>()
+  for (const input of inputs) {
+    let matched: string[]
+    if (GLOB_CHARACTERS.test(input)) {
+      matched = expandGlob(input)
+    } else {
+      const stats = statSync(input, { throwIfNoEntry: false })
+      if (!stats) throw new Error(`No such file or directory: ${input}`)
+      matched = stats.isDirectory() ? walk(input).filter(isProjectSource) : [input]
+    }
+    if (matched.length === 0) throw new Error(`No supported files match ${input}`)
+    matched.sort().forEach((file) => files.add(file))
+  }
+  return [...files]
+}
@@ -0,0 +1,218 @@
+#!/usr/bin/env node
+import { readFileSync, writeFileSync } from 'node:fs'
+import { parseArgs } from 'node:util'
+import { detectLanguageDefinition, languages } from '@shared/languages.ts'
+import { insertDocstrings, parseCode, toRequestFunction } from '@/languages'
+import { DocstringFormat, FunctionMetadata, Language, ModelProvider } from '@/types'
+import { createGitPatch } from '@/utils/patch'
+import { diffDocumentation, findPublicDeclarations, selectByPolicy } from '@/utils/selection'
+import { ApiConfig, generateDocstrings, resolveApiConfig } from './client'
+import { expandInputs } from './files'
+
+const PROVIDERS: ModelProvider[] = ['gemini', 'openai', 'ollama', 'mock']
+
+const USAGE = `Usage: docgen [options] <file | directory | glob>...
+
+Generates documentation for the declarations in each file and writes it in place.
+
+Options:
+  --check              List public declarations without documentation; exit 1 if there are any
+  --diff               Print the changes as a patch instead of writing the files
+  --format <format>    Docstring format, e.g. google, numpy, sphinx or jsdoc; languages that do
+                       not support it use their default
+  --only-undocumented  Document only declarations that have no documentation yet
+  --batch-size <n>     Declarations documented per AI prompt, up to 10 (default: 1)
+  --provider <name>    Model provider: gemini, openai, ollama or mock (default: the edge
+                       function's LLM_PROVIDER)
+  --model <model>      Model to use with the provider (default: the provider's configured model)
+  --force              Generate everything again instead of reusing documentation the edge
+                       function cached for unchanged declarations
+  --json               Print a JSON report instead of text
+  --url <url>          Supabase project URL (default: $DOCGEN_API_URL or $SUPABASE_URL)
+  --key <key>          Anon key (default: $DOCGEN_API_KEY or $SUPABASE_ANON_KEY)
+  -h, --help           Show this help
+
+Quote globs, e.g. 'src/**/*.py', so that they also match in nested directories.
+Exit status is 0 on success, 1 when --check finds undocumented declarations and 2 on errors,
+including declarations that could not be documented; the others are still written.`
+
+interface Options {
+  check: boolean
+  diff: boolean
+  format?: DocstringFormat
+  onlyUndocumented: boolean
+  batchSize?: number
+  provider?: ModelProvider
+  model?: string
+  force: boolean
+  api?: ApiConfig
+}
+
+/** The outcome for one file, as printed with `--json` */
+interface FileReport {
+  path: string
+  language?: Language
+  /** Public declarations without documentation, with `--check` */
+  missing?: Array<{ name: string; type: FunctionMetadata['type']; line: number }>
+  /** Qualified names of the declarations whose documentation was added or changed */
+  documented?: string[]
+  /** Declarations the edge function could not document, with the reason */
+  failed?: Array<{ name: string; error: string }>
+  /** With `--diff`, the change in `git apply` form */
+  patch?: string
+  error?: string
+}
+
+async function processFile(path: string, options: Options): Promise<FileReport> {
+  const language = detectLanguageDefinition(path)?.id
+  if (!language) return { path, error: 'Unsupported file type' }
+
+  const code = readFileSync(path, 'utf8')
+  const functions = parseCode(code, language)
+
+  if (options.check) {
+    const missing = findPublicDeclarations(functions, language, code)
+      .filter((func) => func.docstring === undefined)
+      .map((func) => ({ name: func.qualifiedName, type: func.type, line: func.startLine + 1 }))
+    return { path, language, missing }
+  }
+
+  const names = selectByPolicy(functions, options.onlyUndocumented ? 'undocumented' : 'all')
+  const targets = functions.filter((func) => names.has(func.qualifiedName))
+  if (targets.length === 0) return { path, language, documented: [] }
+
+  const response = await generateDocstrings(
+    {
+      language,
+      functions: targets.map(toRequestFunction),
+      format: options.format,
+      batchSize: options.batchSize,
+      provider: options.provider,
+      model: options.model,
+      force: options.force || undefined,
+    },
+    options.api!
+  )
+  const modified = insertDocstrings(code, language, response.docstrings)
+  const { added, updated } = diffDocumentation(functions, parseCode(modified, language))
+  const report: FileReport = { path, language, documented: [...added, ...updated] }
+  if (response.failures?.length) {
+    report.failed = response.failures.map((failure) => ({
+      name: failure.qualifiedName ?? failure.name,
+      error: failure.error,
+    }))
+  }
+
+  if (modified !== code) {
+    if (options.diff) report.patch = createGitPatch(path, code, modified)
+    else writeFileSync(path, modified)
+  }
+  return report
+}
+
+function printReport(report: FileReport, options: Options) {
+  for (const { name, error } of report.failed ?? []) {
+    console.error(`${report.path}: could not document ${name}: ${error}`)
+  }
+  if (report.error) {
+    console.error(`${report.path}: ${report.error}`)
+  } else if (report.missing) {
+    for (const { name, type, line } of report.missing) {
+      console.log(`${report.path}:${line}: undocumented ${type} ${name}`)
+    }
+  } else if (report.patch) {
+    process.stdout.write(report.patch)
+  } else if (report.documented?.length) {
+    // Progress goes to stderr with --diff, so that stdout is a clean patch
+    const log = options.diff ? console.error : console.log
+    log(`${report.path}: documented ${report.documented.length} symbols`)
+  }
+}
+
+async function main(argv: string[]): Promise<number> {
+  const { values, positionals } = parseArgs({
+    args: argv,
+    allowPositionals: true,
+    options: {
+      check: { type: 'boolean', default: false },
+      diff: { type: 'boolean', default: false },
+      format: { type: 'string' },
+      'only-undocumented': { type: 'boolean', default: false },
+      'batch-size': { type: 'string' },
+      provider: { type: 'string' },
+      model: { type: 'string' },
+      force: { type: 'boolean', default: false },
+      json: { type: 'boolean', default: false },
+      url: { type: 'string' },
+      key: { type: 'string' },
+      help: { type: 'boolean', short: 'h', default: false },
+    },
+  })
+
+  if (values.help) {
+    console.log(USAGE)
+    return 0
+  }
+  if (positionals.length === 0) {
+    console.error(USAGE)
+    return 2
+  }
+
+  const formats = new Set(languages.flatMap((language) => language.formats.map((f) => f.id)))
+  if (values.format && !formats.has(values.format as DocstringFormat)) {
+    throw new Error(`Unknown format ${values.format}; expected one of ${[...formats].join(', ')}`)
+  }
+
+  const batchSize = values['batch-size'] === undefined ? undefined : Number(values['batch-size'])
+  if (batchSize !== undefined && !(Number.isInteger(batchSize) && batchSize >= 1)) {
+    throw new Error('--batch-size must be a positive whole number')
+  }
+
+  const provider = values.provider as ModelProvider | undefined
+  if (provider && !PROVIDERS.includes(provider)) {
+    throw new Error(`Unknown provider ${provider}; expected one of ${PROVIDERS.join(', ')}`)
+  }
+
+  const options: Options = {
+    check: values.check!,
+    diff: values.diff!,
+    format: values.format as DocstringFormat | undefined,
+    onlyUndocumented: values['only-undocumented']!,
+    batchSize,
+    provider,
+    model: values.model,
+    force: values.force!,
+    // --check works offline, so it needs no connection settings
+    api: values.check ? undefined : resolveApiConfig(values.url, values.key),
+  }
+
+  const reports: FileReport[] = []
+  for (const path of expandInputs(positionals)) {
+    let report: FileReport
+    try {
+      report = await processFile(path, options)
+    } catch (err) {
+      report = { path, error: err instanceof Error ? err.message : String(err) }
+    }
+    reports.push(report)
+    if (!values.json) printReport(report, options)
+  }
+
+  const missing = reports.reduce((sum, report) => sum + (report.missing?.length ?? 0), 0)
+  if (values.json) {
+    console.log(JSON.stringify({ files: reports }, null, 2))
+  } else if (options.check && missing > 0) {
+    console.log(`\n${missing} public declarations need documentation`)
+  }
+
+  if (reports.some((report) => report.error || report.failed)) return 2
+  return missing > 0 ? 1 : 0
+}
+
+main(process.argv.slice(2)).then(
+  (code) => process.exit(code),
+  (err) => {
+    console.error(`docgen: ${err instanceof Error ? err.message : err}`)
+    process.exit(2)
+  }
+)
@@ -1,9 +1,11 @@
 import Editor from '@monaco-editor/react'
+import { Language } from '@/types'
+import { getLanguageAdapter } from '@/languages'
 
 interface CodeEditorProps {
   value: string
   onChange?: (value: string | undefined) => void
-  language: 'python' | 'javascript' | 'typescript'
+  language: Language
   readOnly?: boolean
   height?: string
 }
@@ -15,11 +17,13 @@ export default function CodeEditor({
   readOnly = false,
   height = '500px',
 }: CodeEditorProps) {
+  const { monacoLanguage, tabSize } = getLanguageAdapter(language)
+
   return (
     <div className="border border-white/20 rounded-xl overflow-hidden bg-black/50 backdrop-blur-xl">
       <Editor
         height={height}
-        language={language}
+        language={monacoLanguage}
         value={value}
         onChange={onChange}
         theme="vs-dark"
@@ -30,7 +34,7 @@ export default function CodeEditor({
           lineNumbers: 'on',
           scrollBeyondLastLine: false,
           automaticLayout: true,
-          tabSize: language === 'python' ? 4 : 2,
+          tabSize,
         }}
       />
     </div>
@@ -0,0 +1,126 @@
+import { useMemo, useRef, useState } from 'react'
+import { DiffEditor, MonacoDiffEditor } from '@monaco-editor/react'
+import { Language } from '@/types'
+import { getLanguageAdapter } from '@/languages'
+import { createGitPatch, findHunks } from '@/utils/patch'
+import { ChevronDown, ChevronUp, Columns2, FileDiff, Rows2 } from 'lucide-react'
+
+interface DiffViewerProps {
+  original: string
+  modified: string
+  language: Language
+  /** Path used in the patch headers */
+  filename: string
+  height?: string
+}
+
+export default function DiffViewer({
+  original,
+  modified,
+  language,
+  filename,
+  height = '500px',
+}: DiffViewerProps) {
+  const { monacoLanguage, tabSize } = getLanguageAdapter(language)
+  const [sideBySide, setSideBySide] = useState(true)
+  const [currentHunk, setHunkIndex] = useState(0)
+  const editorRef = useRef<MonacoDiffEditor | null>(null)
+  const hunks = useMemo(() => findHunks(original, modified), [original, modified])
+  const hunkIndex = Math.min(currentHunk, Math.max(0, hunks.length - 1))
+
+  const goToHunk = (index: number) => {
+    const hunk = hunks[index]
+    if (!hunk) return
+    setHunkIndex(index)
+    const modifiedEditor = editorRef.current?.getModifiedEditor()
+    const line = Math.max(1, hunk.newStart)
+    modifiedEditor?.revealLineInCenter(line)
+    modifiedEditor?.setPosition({ lineNumber: line, column: 1 })
+  }
+
+  const handleDownloadPatch = () => {
+    const blob = new Blob([createGitPatch(filename, original, modified)], {
+      type: 'text/x-diff',
+    })
+    const url = URL.createObjectURL(blob)
+    const a = document.createElement('a')
+    a.href = url
+    a.download = `${filename.split('/').pop() || 'changes'}.patch`
+    document.body.appendChild(a)
+    a.click()
+    document.body.removeChild(a)
+    URL.revokeObjectURL(url)
+  }
+
+  const toolButton =
+    'p-1.5 text-gray-300 hover:text-white hover:bg-white/10 rounded transition-colors disabled:opacity-50 disabled:cursor-not-allowed'
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between text-sm text-gray-300">
+        <div className="flex items-center space-x-1">
+          <button
+            onClick={() => goToHunk(hunkIndex - 1)}
+            disabled={hunkIndex <= 0}
+            className={toolButton}
+            title="Previous change"
+          >
+            <ChevronUp className="h-4 w-4" />
+          </button>
+          <button
+            onClick={() => goToHunk(hunkIndex + 1)}
+            disabled={hunkIndex >= hunks.length - 1}
+            className={toolButton}
+            title="Next change"
+          >
+            <ChevronDown className="h-4 w-4" />
+          </button>
+          <span>
+            {hunks.length === 0 ? 'No changes' : `Change ${hunkIndex + 1} of ${hunks.length}`}
+          </span>
+        </div>
+        <div className="flex items-center space-x-1">
+          <button
+            onClick={() => setSideBySide(!sideBySide)}
+            className={toolButton}
+            title={sideBySide ? 'Show unified diff' : 'Show side by side'}
+          >
+            {sideBySide ? <Rows2 className="h-4 w-4" /> : <Columns2 className="h-4 w-4" />}
+          </button>
+          <button
+            onClick={handleDownloadPatch}
+            disabled={hunks.length === 0}
+            className={`${toolButton} flex items-center`}
+            title="Download the change as a patch for git apply"
+          >
+            <FileDiff className="h-4 w-4 mr-1" />
+            .patch
+          </button>
+        </div>
+      </div>
+      <div className="border border-white/20 rounded-xl overflow-hidden bg-black/50 backdrop-blur-xl">
+        <DiffEditor
+          height={height}
+          language={monacoLanguage}
+          original={original}
+          modified={modified}
+          theme="vs-dark"
+          onMount={(editor) => {
+            editorRef.current = editor
+            // Tab size is a model option, which the diff editor's options do not reach
+            editor.getOriginalEditor().getModel()?.updateOptions({ tabSize })
+            editor.getModifiedEditor().getModel()?.updateOptions({ tabSize })
+          }}
+          options={{
+            readOnly: true,
+            renderSideBySide: sideBySide,
+            minimap: { enabled: false },
+            fontSize: 14,
+            scrollBeyondLastLine: false,
+            automaticLayout: true,
+          }}
+        />
+      </div>
+    </div>
+  )
+}
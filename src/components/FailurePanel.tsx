@@ -0,0 +1,62 @@
+import { DocstringFailure } from '@/types'
+import { AlertCircle, RefreshCw, X } from 'lucide-react'
+
+interface FailurePanelProps {
+  /** In project mode, each failure also names its file */
+  failures: Array<DocstringFailure & { path?: string }>
+  retrying: boolean
+  onRetry: () => void
+  onDismiss: () => void
+}
+
+export default function FailurePanel({
+  failures,
+  retrying,
+  onRetry,
+  onDismiss,
+}: FailurePanelProps) {
+  return (
+    <div className="card border-red-500/50 bg-red-500/10">
+      <div className="flex items-center justify-between mb-3">
+        <div className="flex items-center">
+          <AlertCircle className="h-5 w-5 text-red-400 mr-2" />
+          <h2 className="text-lg font-bold text-white">
+            {failures.length} {failures.length === 1 ? 'symbol' : 'symbols'} not documented
+          </h2>
+        </div>
+        <div className="flex items-center space-x-1">
+          <button
+            onClick={onRetry}
+            disabled={retrying}
+            className="flex items-center px-3 py-1.5 text-sm text-red-300 hover:text-white hover:bg-white/10 rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            title="Generate documentation again for these symbols only"
+          >
+            <RefreshCw className={`h-4 w-4 mr-1.5 ${retrying ? 'animate-spin' : ''}`} />
+            {retrying ? 'Retrying...' : 'Retry failed'}
+          </button>
+          <button
+            onClick={onDismiss}
+            className="p-1.5 text-red-400 hover:text-red-300 transition-colors"
+            title="Dismiss"
+          >
+            <X className="h-4 w-4" />
+          </button>
+        </div>
+      </div>
+      <ul className="space-y-2 max-h-64 overflow-y-auto">
+        {failures.map((failure) => {
+          const name = failure.qualifiedName ?? failure.name
+          return (
+            <li key={`${failure.path ?? ''}:${name}`} className="text-sm">
+              <span className="font-mono text-white">
+                {failure.path && <span className="text-gray-400">{failure.path}: </span>}
+                {name}
+              </span>
+              <p className="text-xs text-red-300">{failure.error}</p>
+            </li>
+          )
+        })}
+      </ul>
+    </div>
+  )
+}
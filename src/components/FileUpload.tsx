@@ -1,12 +1,17 @@
 import { useCallback } from 'react'
 import { Upload } from 'lucide-react'
+import { acceptedExtensions, languageAdapters } from '@/languages'
 
 interface FileUploadProps {
   onFileSelect: (file: File, content: string) => void
   accept?: string
 }
 
-export default function FileUpload({ onFileSelect, accept = '.py,.js,.ts' }: FileUploadProps) {
+const supportedLanguages = languageAdapters
+  .map((adapter) => `${adapter.displayName} (${adapter.extensions.map((e) => `.${e}`).join(', ')})`)
+  .join(', ')
+
+export default function FileUpload({ onFileSelect, accept = acceptedExtensions }: FileUploadProps) {
   const handleFileChange = useCallback(
     (e: React.ChangeEvent<HTMLInputElement>) => {
       const file = e.target.files?.[0]
@@ -64,9 +69,7 @@ export default function FileUpload({ onFileSelect, accept = '.py,.js,.ts' }: Fil
         </div>
         <p className="text-2xl font-semibold text-white mb-3">Upload Your Code</p>
         <p className="text-base text-gray-300 mb-2">Drop your file here or click to browse</p>
-        <p className="text-sm text-gray-400">
-          Supports Python (.py) and JavaScript (.js, .ts) files
-        </p>
+        <p className="text-sm text-gray-400">Supports {supportedLanguages} files</p>
       </label>
     </div>
   )
@@ -1,12 +1,71 @@
-import { FunctionMetadata } from '@/types'
-import { CheckCircle2, Circle } from 'lucide-react'
+import {
+  AttributeInfo,
+  BodyAnalysis,
+  FunctionMetadata,
+  GenerationStatus,
+  ParameterInfo,
+  SelectionPolicy,
+} from '@/types'
+import { describeDrift, detectDocDrift } from '@/utils/docSections'
+import { SELECTION_POLICIES, selectByPolicy } from '@/utils/selection'
+import { CheckCircle2, Circle, Loader2, XCircle } from 'lucide-react'
 
 interface FunctionListProps {
   functions: FunctionMetadata[]
   generatedDocstrings: Map<string, string>
+  /** While generating, the status of each declaration being documented */
+  progress?: Map<string, GenerationStatus>
+  /** Qualified names of the declarations to document */
+  selected: Set<string>
+  onSelectionChange: (selected: Set<string>) => void
+  policy: SelectionPolicy
+  onPolicyChange: (policy: SelectionPolicy) => void
 }
 
-export default function FunctionList({ functions, generatedDocstrings }: FunctionListProps) {
+function formatParameter(param: ParameterInfo): string {
+  let text = param.name + (param.optional ? '?' : '')
+  if (param.type) text += `: ${param.type}`
+  if (param.defaultValue) text += ` = ${param.defaultValue}`
+  return text
+}
+
+function formatAttribute(attribute: AttributeInfo): string {
+  let text = attribute.name
+  if (attribute.type) text += `: ${attribute.type}`
+  if (attribute.defaultValue) text += ` = ${attribute.defaultValue}`
+  return text
+}
+
+function describeAnalysis(analysis: BodyAnalysis): string[] {
+  const facts: string[] = []
+  if (analysis.yields) facts.push(analysis.isAsync ? 'async generator' : 'generator')
+  else if (analysis.isAsync) facts.push('async')
+  if (analysis.returnsValue) facts.push('returns value')
+  if (analysis.awaits) facts.push('awaits')
+  facts.push(...analysis.raises.map((name) => `raises ${name}`))
+  facts.push(...analysis.mutates.map((name) => `mutates ${name}`))
+  return facts
+}
+
+/** Nesting depth of each entry; parents precede their members in parser output */
+function nestingDepths(functions: FunctionMetadata[]): Map<string, number> {
+  const depths = new Map<string, number>()
+  for (const func of functions) {
+    const depth = func.parent === undefined ? 0 : (depths.get(func.parent) ?? 0) + 1
+    depths.set(func.qualifiedName, depth)
+  }
+  return depths
+}
+
+export default function FunctionList({
+  functions,
+  generatedDocstrings,
+  progress,
+  selected,
+  onSelectionChange,
+  policy,
+  onPolicyChange,
+}: FunctionListProps) {
   if (functions.length === 0) {
     return (
       <div className="card">
@@ -17,38 +76,145 @@ export default function FunctionList({ functions, generatedDocstrings }: Functio
     )
   }
 
+  const depths = nestingDepths(functions)
+  const classes = functions.filter((func) => func.type === 'class')
+
+  const toggle = (qualifiedName: string) => {
+    const next = new Set(selected)
+    if (!next.delete(qualifiedName)) next.add(qualifiedName)
+    onSelectionChange(next)
+  }
+
+  const bulkActions: Array<{ label: string; disabled?: boolean; select: () => Set<string> }> = [
+    { label: 'All', select: () => selectByPolicy(functions, 'all') },
+    { label: 'None', select: () => new Set<string>() },
+    { label: 'Undocumented only', select: () => selectByPolicy(functions, 'undocumented') },
+    {
+      label: 'All classes',
+      disabled: classes.length === 0,
+      select: () => new Set([...selected, ...classes.map((func) => func.qualifiedName)]),
+    },
+  ]
+
   return (
     <div className="card">
       <h2 className="text-xl font-bold text-white mb-4">Detected Functions & Classes</h2>
+      <div className="mb-4 space-y-2">
+        <div className="flex flex-wrap items-center gap-2 text-xs">
+          <span className="text-gray-300">
+            {selected.size} of {functions.length} selected
+          </span>
+          {bulkActions.map((action) => (
+            <button
+              key={action.label}
+              onClick={() => onSelectionChange(action.select())}
+              disabled={action.disabled}
+              className="px-2 py-1 text-gray-300 bg-white/5 border border-white/10 rounded hover:bg-white/10 transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {action.label}
+            </button>
+          ))}
+        </div>
+        <label className="flex items-center gap-2 text-xs text-gray-400">
+          Default selection
+          <select
+            value={policy}
+            onChange={(e) => onPolicyChange(e.target.value as SelectionPolicy)}
+            className="px-2 py-1 bg-gray-900 border border-white/20 rounded text-white"
+          >
+            {SELECTION_POLICIES.map((option) => (
+              <option key={option.id} value={option.id}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+        </label>
+      </div>
       <div className="space-y-3">
         {functions.map((func, index) => {
-          const hasDocstring = generatedDocstrings.has(func.name)
-          const hadDocstring = func.docstring !== undefined
+          const hasDocstring = generatedDocstrings.has(func.qualifiedName)
+          const status = progress?.get(func.qualifiedName)
+          const depth = depths.get(func.qualifiedName) ?? 0
+          const drift = detectDocDrift(func)
+          const facts = func.analysis ? describeAnalysis(func.analysis) : []
 
           return (
             <div
               key={index}
               className="flex items-start justify-between p-4 bg-white/5 border border-white/10 rounded-lg hover:bg-white/10 transition-all"
+              style={{ marginLeft: `${depth * 1.5}rem` }}
             >
               <div className="flex-1">
                 <div className="flex items-center space-x-2">
-                  {hasDocstring ? (
+                  <input
+                    type="checkbox"
+                    checked={selected.has(func.qualifiedName)}
+                    onChange={() => toggle(func.qualifiedName)}
+                    aria-label={`Document ${func.qualifiedName}`}
+                  />
+                  {status === 'pending' ? (
+                    <Loader2 className="h-5 w-5 text-gray-400 animate-spin" />
+                  ) : status === 'failed' ? (
+                    <XCircle className="h-5 w-5 text-red-400" />
+                  ) : hasDocstring || status === 'done' ? (
                     <CheckCircle2 className="h-5 w-5 text-green-400" />
                   ) : (
                     <Circle className="h-5 w-5 text-gray-500" />
                   )}
-                  <span className="font-mono text-sm font-medium text-white">{func.name}</span>
+                  <span className="font-mono text-sm font-medium text-white">
+                    {func.qualifiedName}
+                  </span>
                   <span className="text-xs text-gray-400 px-2 py-1 bg-white/10 border border-white/20 rounded">
                     {func.type}
                   </span>
                 </div>
                 {func.params.length > 0 && (
+                  <div className="mt-1 ml-7">
+                    <p className="text-sm text-gray-300">Parameters:</p>
+                    {func.params.map((param) => (
+                      <p key={param.name} className="font-mono text-xs text-gray-400 ml-2">
+                        {formatParameter(param)}
+                        {param.kind !== 'positional' && (
+                          <span className="ml-2 text-gray-500">({param.kind})</span>
+                        )}
+                      </p>
+                    ))}
+                  </div>
+                )}
+                {func.attributes && (
+                  <div className="mt-1 ml-7">
+                    <p className="text-sm text-gray-300">Attributes:</p>
+                    {func.attributes.map((attribute) => (
+                      <p key={attribute.name} className="font-mono text-xs text-gray-400 ml-2">
+                        {formatAttribute(attribute)}
+                        {attribute.kind !== 'field' && (
+                          <span className="ml-2 text-gray-500">({attribute.kind})</span>
+                        )}
+                      </p>
+                    ))}
+                  </div>
+                )}
+                {func.returnType && (
                   <p className="text-sm text-gray-300 mt-1 ml-7">
-                    Parameters: {func.params.join(', ')}
+                    Returns: <span className="font-mono text-xs">{func.returnType}</span>
                   </p>
                 )}
-                {hadDocstring && !hasDocstring && (
-                  <p className="text-xs text-yellow-400 mt-1 ml-7">⚠️ Has existing docstring</p>
+                {facts.length > 0 && (
+                  <div className="flex flex-wrap gap-1 mt-2 ml-7">
+                    {facts.map((fact) => (
+                      <span
+                        key={fact}
+                        className="text-xs text-gray-300 px-1.5 py-0.5 bg-white/5 border border-white/10 rounded"
+                      >
+                        {fact}
+                      </span>
+                    ))}
+                  </div>
+                )}
+                {drift && !hasDocstring && (
+                  <p className="text-xs text-yellow-400 mt-1 ml-7">
+                    ⚠️ Docs out of date: {describeDrift(drift).join('; ')}
+                  </p>
                 )}
                 {hasDocstring && (
                   <p className="text-xs text-green-400 mt-1 ml-7">✓ Docstring generated</p>
@@ -1,17 +1,33 @@
 import { Outlet, Link } from 'react-router-dom'
 import { useAuth } from '@/contexts/AuthContext'
-import { FileCode2, Menu, X, LogOut, LogIn, Trash2, Eye, Download, Calendar, History as HistoryIcon } from 'lucide-react'
+import {
+  FileCode2,
+  FolderTree,
+  Menu,
+  X,
+  LogOut,
+  LogIn,
+  Trash2,
+  Eye,
+  Download,
+  Calendar,
+  ChevronDown,
+  ChevronRight,
+  History as HistoryIcon,
+} from 'lucide-react'
 import { useState, useEffect } from 'react'
 import AuthModal from './AuthModal'
-import { getHistory, deleteHistoryItem } from '@/services/api'
-import { DocgenHistory } from '@/types'
-import CodeEditor from './CodeEditor'
+import { getHistory, deleteHistoryItem, getBatches, deleteBatch } from '@/services/api'
+import { DocgenBatch, DocgenHistory, Language } from '@/types'
+import DiffViewer from './DiffViewer'
 
 export default function Layout() {
   const { user, signOut } = useAuth()
   const [showAuthModal, setShowAuthModal] = useState(false)
   const [sidebarOpen, setSidebarOpen] = useState(false)
   const [history, setHistory] = useState<DocgenHistory[]>([])
+  const [batches, setBatches] = useState<DocgenBatch[]>([])
+  const [expandedBatch, setExpandedBatch] = useState<string | null>(null)
   const [loading, setLoading] = useState(false)
   const [selectedItem, setSelectedItem] = useState<DocgenHistory | null>(null)
   const [showModal, setShowModal] = useState(false)
@@ -30,8 +46,9 @@ export default function Layout() {
     setLoading(true)
     try {
       if (user) {
-        const data = await getHistory(user.id)
+        const [data, batchData] = await Promise.all([getHistory(user.id), getBatches(user.id)])
         setHistory(data)
+        setBatches(batchData)
       }
     } catch (err) {
       console.error('Failed to load history:', err)
@@ -53,6 +70,20 @@ export default function Layout() {
     }
   }
 
+  const handleDeleteBatch = async (id: string) => {
+    if (!confirm('Delete this project run and all of its files?')) return
+
+    try {
+      if (user) {
+        await deleteBatch(id)
+      }
+      setBatches((prev) => prev.filter((batch) => batch.id !== id))
+      setHistory((prev) => prev.filter((item) => item.batch_id !== id))
+    } catch (err) {
+      console.error('Failed to delete batch:', err)
+    }
+  }
+
   const handleView = (item: DocgenHistory) => {
     setSelectedItem(item)
     setShowModal(true)
@@ -70,6 +101,76 @@ export default function Layout() {
     URL.revokeObjectURL(url)
   }
 
+  const formatDate = (date: string) =>
+    new Date(date).toLocaleDateString('en-US', {
+      month: 'short',
+      day: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit',
+    })
+
+  // Project runs are listed as one entry holding their files, among the single-file entries
+  const entries: Array<
+    | { item: DocgenHistory; created_at: string }
+    | { batch: DocgenBatch; files: DocgenHistory[]; created_at: string }
+  > = [
+    ...history
+      .filter((item) => !item.batch_id)
+      .map((item) => ({ item, created_at: item.created_at })),
+    ...batches.map((batch) => ({
+      batch,
+      files: history.filter((item) => item.batch_id === batch.id),
+      created_at: batch.created_at,
+    })),
+  ].sort((a, b) => b.created_at.localeCompare(a.created_at))
+
+  const renderItem = (item: DocgenHistory) => (
+    <div key={item.id} className="glass glass-hover p-4 rounded-lg">
+      <h3 className="text-sm font-semibold text-white mb-2 truncate">{item.filename}</h3>
+      <div className="flex items-center text-xs text-gray-300 mb-3">
+        <Calendar className="h-3 w-3 mr-1" />
+        {new Date(item.created_at).toLocaleDateString('en-US', {
+          month: 'short',
+          day: 'numeric',
+          hour: '2-digit',
+          minute: '2-digit',
+        })}
+        <span className="ml-2 px-2 py-0.5 bg-white/10 border border-white/20 rounded text-xs">
+          {item.language}
+        </span>
+        {item.documented_symbols && item.documented_symbols.length > 0 && (
+          <span className="ml-2" title={item.documented_symbols.join(', ')}>
+            {item.documented_symbols.length} documented
+          </span>
+        )}
+      </div>
+      <div className="flex items-center space-x-2">
+        <button
+          onClick={() => handleView(item)}
+          className="flex-1 p-2 text-blue-400 hover:bg-white/10 rounded-lg transition-colors text-xs flex items-center justify-center"
+          title="View"
+        >
+          <Eye className="h-4 w-4 mr-1" />
+          View
+        </button>
+        <button
+          onClick={() => handleDownload(item)}
+          className="p-2 text-green-400 hover:bg-white/10 rounded-lg transition-colors"
+          title="Download"
+        >
+          <Download className="h-4 w-4" />
+        </button>
+        <button
+          onClick={() => handleDelete(item.id)}
+          className="p-2 text-red-400 hover:bg-white/10 rounded-lg transition-colors"
+          title="Delete"
+        >
+          <Trash2 className="h-4 w-4" />
+        </button>
+      </div>
+    </div>
+  )
+
   return (
     <div className="min-h-screen bg-black">
       <nav className="glass border-b border-white/10 backdrop-blur-xl sticky top-0 z-50">
@@ -93,6 +194,13 @@ export default function Layout() {
                 </div>
                 <span className="font-bold text-lg">AI Docstring Generator</span>
               </Link>
+              <Link
+                to="/project"
+                className="flex items-center px-3 py-2 rounded-lg text-sm text-gray-300 hover:text-white hover:bg-white/10 transition-all"
+              >
+                <FolderTree className="h-4 w-4 mr-2" />
+                Project Mode
+              </Link>
             </div>
             <div className="flex items-center">
               {user ? (
@@ -155,7 +263,7 @@ export default function Layout() {
               <div className="flex items-center justify-center py-12">
                 <div className="inline-block animate-spin rounded-full h-8 w-8 border-b-2 border-white"></div>
               </div>
-            ) : history.length === 0 ? (
+            ) : entries.length === 0 ? (
               <div className="text-center py-12">
                 <div className="p-4 rounded-full bg-white/5 border border-white/10 mb-4 inline-block">
                   <HistoryIcon className="h-8 w-8 text-white" />
@@ -164,47 +272,49 @@ export default function Layout() {
               </div>
             ) : (
               <div className="space-y-3">
-                {history.map((item) => (
-                  <div key={item.id} className="glass glass-hover p-4 rounded-lg">
-                    <h3 className="text-sm font-semibold text-white mb-2 truncate">{item.filename}</h3>
-                    <div className="flex items-center text-xs text-gray-300 mb-3">
-                      <Calendar className="h-3 w-3 mr-1" />
-                      {new Date(item.created_at).toLocaleDateString('en-US', {
-                        month: 'short',
-                        day: 'numeric',
-                        hour: '2-digit',
-                        minute: '2-digit',
-                      })}
-                      <span className="ml-2 px-2 py-0.5 bg-white/10 border border-white/20 rounded text-xs">
-                        {item.language}
-                      </span>
+                {entries.map((entry) =>
+                  'batch' in entry ? (
+                    <div key={entry.batch.id} className="glass p-4 rounded-lg">
+                      <div className="flex items-center justify-between">
+                        <button
+                          onClick={() =>
+                            setExpandedBatch(
+                              expandedBatch === entry.batch.id ? null : entry.batch.id
+                            )
+                          }
+                          className="flex items-center text-sm font-semibold text-white truncate"
+                        >
+                          {expandedBatch === entry.batch.id ? (
+                            <ChevronDown className="h-4 w-4 mr-1" />
+                          ) : (
+                            <ChevronRight className="h-4 w-4 mr-1" />
+                          )}
+                          <FolderTree className="h-4 w-4 mr-1.5" />
+                          {entry.batch.name}
+                        </button>
+                        <button
+                          onClick={() => handleDeleteBatch(entry.batch.id)}
+                          className="p-2 text-red-400 hover:bg-white/10 rounded-lg transition-colors"
+                          title="Delete"
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </button>
+                      </div>
+                      <div className="flex items-center text-xs text-gray-300 mt-1">
+                        <Calendar className="h-3 w-3 mr-1" />
+                        {formatDate(entry.batch.created_at)}
+                        <span className="ml-2">
+                          {entry.files.length} {entry.files.length === 1 ? 'file' : 'files'}
+                        </span>
+                      </div>
+                      {expandedBatch === entry.batch.id && (
+                        <div className="space-y-2 mt-3">{entry.files.map(renderItem)}</div>
+                      )}
                     </div>
-                    <div className="flex items-center space-x-2">
-                      <button
-                        onClick={() => handleView(item)}
-                        className="flex-1 p-2 text-blue-400 hover:bg-white/10 rounded-lg transition-colors text-xs flex items-center justify-center"
-                        title="View"
-                      >
-                        <Eye className="h-4 w-4 mr-1" />
-                        View
-                      </button>
-                      <button
-                        onClick={() => handleDownload(item)}
-                        className="p-2 text-green-400 hover:bg-white/10 rounded-lg transition-colors"
-                        title="Download"
-                      >
-                        <Download className="h-4 w-4" />
-                      </button>
-                      <button
-                        onClick={() => handleDelete(item.id)}
-                        className="p-2 text-red-400 hover:bg-white/10 rounded-lg transition-colors"
-                        title="Delete"
-                      >
-                        <Trash2 className="h-4 w-4" />
-                      </button>
-                    </div>
-                  </div>
-                ))}
+                  ) : (
+                    renderItem(entry.item)
+                  )
+                )}
               </div>
             )}
           </div>
@@ -233,26 +343,12 @@ export default function Layout() {
               </div>
             </div>
             <div className="p-6 overflow-y-auto max-h-[calc(90vh-120px)]">
-              <div className="grid grid-cols-2 gap-6">
-                <div>
-                  <h3 className="text-lg font-semibold text-white mb-3">Before</h3>
-                  <CodeEditor
-                    value={selectedItem.content_before}
-                    language={selectedItem.language as 'python' | 'javascript'}
-                    readOnly
-                    height="500px"
-                  />
-                </div>
-                <div>
-                  <h3 className="text-lg font-semibold text-white mb-3">After</h3>
-                  <CodeEditor
-                    value={selectedItem.content_after}
-                    language={selectedItem.language as 'python' | 'javascript'}
-                    readOnly
-                    height="500px"
-                  />
-                </div>
-              </div>
+              <DiffViewer
+                original={selectedItem.content_before}
+                modified={selectedItem.content_after}
+                language={selectedItem.language as Language}
+                filename={selectedItem.filename}
+              />
             </div>
           </div>
         </div>
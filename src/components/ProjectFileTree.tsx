@@ -0,0 +1,121 @@
+import { ProjectFile } from '@/types'
+import { documentationCoverage } from '@/utils/project'
+import { CheckCircle2, FileCode, Folder } from 'lucide-react'
+
+interface ProjectFileTreeProps {
+  files: ProjectFile[]
+  /** Paths of the files to document */
+  selected: Set<string>
+  onSelectionChange: (selected: Set<string>) => void
+  activePath: string | null
+  onActivate: (path: string) => void
+}
+
+interface TreeNode {
+  name: string
+  /** Set on file nodes */
+  file?: ProjectFile
+  children: TreeNode[]
+}
+
+function buildTree(files: ProjectFile[]): TreeNode {
+  const root: TreeNode = { name: '', children: [] }
+  for (const file of files) {
+    const parts = file.path.split('/')
+    let node = root
+    for (const part of parts.slice(0, -1)) {
+      let child = node.children.find((c) => c.name === part && !c.file)
+      if (!child) {
+        child = { name: part, children: [] }
+        node.children.push(child)
+      }
+      node = child
+    }
+    node.children.push({ name: parts[parts.length - 1], file, children: [] })
+  }
+  return root
+}
+
+function filesUnder(node: TreeNode): ProjectFile[] {
+  return node.file ? [node.file] : node.children.flatMap(filesUnder)
+}
+
+function formatCoverage(files: ProjectFile[]): string {
+  const functions = files.flatMap((file) => file.functions)
+  const { documented, total } = documentationCoverage(functions)
+  if (total === 0) return 'no symbols'
+  return `${total} symbols · ${Math.round((documented / total) * 100)}% documented`
+}
+
+export default function ProjectFileTree({
+  files,
+  selected,
+  onSelectionChange,
+  activePath,
+  onActivate,
+}: ProjectFileTreeProps) {
+  const toggle = (paths: string[], checked: boolean) => {
+    const next = new Set(selected)
+    paths.forEach((path) => (checked ? next.add(path) : next.delete(path)))
+    onSelectionChange(next)
+  }
+
+  const renderNode = (node: TreeNode, depth: number) => {
+    const paths = filesUnder(node).map((file) => file.path)
+    const checked = paths.every((path) => selected.has(path))
+    const key = node.file?.path ?? `${depth}:${paths[0]}:${node.name}`
+
+    return (
+      <div key={key}>
+        <div
+          className={`flex items-center justify-between py-1.5 pr-2 rounded hover:bg-white/10 ${
+            node.file && node.file.path === activePath ? 'bg-white/10' : ''
+          }`}
+          style={{ paddingLeft: `${depth * 1.25 + 0.5}rem` }}
+        >
+          <label className="flex items-center space-x-2 min-w-0">
+            <input
+              type="checkbox"
+              checked={checked}
+              onChange={(e) => toggle(paths, e.target.checked)}
+            />
+            {node.file ? (
+              <button
+                onClick={() => onActivate(node.file!.path)}
+                className="flex items-center font-mono text-sm text-white truncate"
+              >
+                <FileCode className="h-4 w-4 mr-1.5 shrink-0 text-gray-400" />
+                {node.name}
+              </button>
+            ) : (
+              <span className="flex items-center font-mono text-sm text-gray-300 truncate">
+                <Folder className="h-4 w-4 mr-1.5 shrink-0 text-gray-400" />
+                {node.name}/
+              </span>
+            )}
+            {node.file?.modifiedCode !== undefined && (
+              <CheckCircle2 className="h-4 w-4 shrink-0 text-green-400" />
+            )}
+          </label>
+          <span className="ml-2 text-xs text-gray-400 whitespace-nowrap">
+            {formatCoverage(filesUnder(node))}
+          </span>
+        </div>
+        {node.children.map((child) => renderNode(child, depth + 1))}
+      </div>
+    )
+  }
+
+  const root = buildTree(files)
+  return (
+    <div className="card">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-xl font-bold text-white">Files</h2>
+        <span className="text-xs text-gray-400">{formatCoverage(files)}</span>
+      </div>
+      <div className="max-h-[600px] overflow-y-auto">
+        {root.children.map((child) => renderNode(child, 0))}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,73 @@
+import { useCallback } from 'react'
+import { FolderUp } from 'lucide-react'
+import { acceptedExtensions } from '@/languages'
+import { ProjectEntry, collectDroppedEntries } from '@/utils/project'
+
+interface ProjectUploadProps {
+  onEntriesSelect: (entries: ProjectEntry[]) => void
+}
+
+function fromInput(files: FileList | null): ProjectEntry[] {
+  // Files picked from a folder carry their path inside it
+  return Array.from(files ?? []).map((file) => ({
+    file,
+    path: file.webkitRelativePath || file.name,
+  }))
+}
+
+export default function ProjectUpload({ onEntriesSelect }: ProjectUploadProps) {
+  const handleDrop = useCallback(
+    async (e: React.DragEvent) => {
+      e.preventDefault()
+      e.stopPropagation()
+      onEntriesSelect(await collectDroppedEntries(e.dataTransfer.items))
+    },
+    [onEntriesSelect]
+  )
+
+  const handleDragOver = (e: React.DragEvent) => {
+    e.preventDefault()
+    e.stopPropagation()
+  }
+
+  return (
+    <div
+      onDrop={handleDrop}
+      onDragOver={handleDragOver}
+      className="border-2 border-dashed border-white/20 rounded-2xl p-16 text-center hover:border-white/40 hover:bg-white/5 transition-all backdrop-blur-xl"
+    >
+      <input
+        type="file"
+        id="project-files"
+        className="hidden"
+        multiple
+        accept={`${acceptedExtensions},.zip`}
+        onChange={(e) => onEntriesSelect(fromInput(e.target.files))}
+      />
+      <input
+        type="file"
+        id="project-folder"
+        className="hidden"
+        ref={(input) => input?.setAttribute('webkitdirectory', '')}
+        onChange={(e) => onEntriesSelect(fromInput(e.target.files))}
+      />
+      <div className="flex flex-col items-center">
+        <div className="p-6 rounded-full bg-white/5 border border-white/10 mb-6">
+          <FolderUp className="h-16 w-16 text-white" />
+        </div>
+        <p className="text-2xl font-semibold text-white mb-3">Upload Your Project</p>
+        <p className="text-base text-gray-300 mb-4">
+          Drop files, a folder or a <span className="font-mono">.zip</span> archive here
+        </p>
+        <div className="flex space-x-3">
+          <label htmlFor="project-files" className="btn-secondary cursor-pointer">
+            Choose files or zip
+          </label>
+          <label htmlFor="project-folder" className="btn-secondary cursor-pointer">
+            Choose folder
+          </label>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,158 @@
+import { useState } from 'react'
+import { DocstringReview, ReviewStatus } from '@/types'
+import { Check, CheckCheck, Pencil, RefreshCw, X } from 'lucide-react'
+
+interface ReviewPanelProps {
+  items: DocstringReview[]
+  /** Qualified name of the item being regenerated, if any */
+  regenerating: string | null
+  onUpdate: (qualifiedName: string, changes: Partial<DocstringReview>) => void
+  onRegenerate: (qualifiedName: string, hint: string) => void
+  onApply: () => void
+  onDiscard: () => void
+}
+
+const STATUS_STYLES: Record<ReviewStatus, string> = {
+  pending: 'text-gray-300 bg-white/10 border-white/20',
+  accepted: 'text-green-300 bg-green-500/10 border-green-500/50',
+  rejected: 'text-red-300 bg-red-500/10 border-red-500/50',
+}
+
+export default function ReviewPanel({
+  items,
+  regenerating,
+  onUpdate,
+  onRegenerate,
+  onApply,
+  onDiscard,
+}: ReviewPanelProps) {
+  const [editing, setEditing] = useState<string | null>(null)
+  const [hints, setHints] = useState<Record<string, string>>({})
+
+  const accepted = items.filter((item) => item.status === 'accepted').length
+  const pending = items.filter((item) => item.status === 'pending')
+  const acceptRemaining = () =>
+    pending.forEach((item) => onUpdate(item.qualifiedName, { status: 'accepted' }))
+
+  return (
+    <div className="card">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-xl font-bold text-white">Review Docstrings</h2>
+        <button
+          onClick={acceptRemaining}
+          disabled={pending.length === 0}
+          className="flex items-center text-xs text-gray-300 hover:text-white disabled:opacity-50 disabled:cursor-not-allowed"
+          title="Accept every docstring not yet reviewed"
+        >
+          <CheckCheck className="h-4 w-4 mr-1" />
+          Accept remaining
+        </button>
+      </div>
+
+      <div className="space-y-3">
+        {items.map((item) => {
+          const busy = regenerating === item.qualifiedName
+          return (
+            <div
+              key={item.qualifiedName}
+              className="p-4 bg-white/5 border border-white/10 rounded-lg space-y-2"
+            >
+              <div className="flex items-center justify-between">
+                <div className="flex items-center space-x-2">
+                  <span className="font-mono text-sm font-medium text-white">
+                    {item.qualifiedName}
+                  </span>
+                  <span
+                    className={`text-xs px-2 py-0.5 border rounded ${STATUS_STYLES[item.status]}`}
+                  >
+                    {item.status}
+                    {item.edited && ', edited'}
+                  </span>
+                  {item.cached && (
+                    <span
+                      className="text-xs px-2 py-0.5 border rounded text-blue-300 bg-blue-500/10 border-blue-500/50"
+                      title="Reused from an earlier run of unchanged code; regenerate for a new answer"
+                    >
+                      cached
+                    </span>
+                  )}
+                </div>
+                <div className="flex items-center space-x-1">
+                  <button
+                    onClick={() => onUpdate(item.qualifiedName, { status: 'accepted' })}
+                    className="p-1.5 text-green-400 hover:bg-white/10 rounded transition-colors"
+                    title="Accept"
+                  >
+                    <Check className="h-4 w-4" />
+                  </button>
+                  <button
+                    onClick={() => onUpdate(item.qualifiedName, { status: 'rejected' })}
+                    className="p-1.5 text-red-400 hover:bg-white/10 rounded transition-colors"
+                    title="Reject"
+                  >
+                    <X className="h-4 w-4" />
+                  </button>
+                  <button
+                    onClick={() =>
+                      setEditing(editing === item.qualifiedName ? null : item.qualifiedName)
+                    }
+                    className="p-1.5 text-blue-400 hover:bg-white/10 rounded transition-colors"
+                    title="Edit"
+                  >
+                    <Pencil className="h-4 w-4" />
+                  </button>
+                </div>
+              </div>
+
+              {editing === item.qualifiedName ? (
+                <textarea
+                  value={item.docstring}
+                  onChange={(e) =>
+                    onUpdate(item.qualifiedName, { docstring: e.target.value, edited: true })
+                  }
+                  rows={Math.min(16, item.docstring.split('\n').length + 1)}
+                  className="w-full p-2 font-mono text-xs text-white bg-black/50 border border-white/20 rounded focus:outline-none focus:ring-2 focus:ring-white/50"
+                />
+              ) : (
+                <pre className="p-2 font-mono text-xs text-gray-300 bg-black/30 rounded whitespace-pre-wrap">
+                  {item.docstring}
+                </pre>
+              )}
+
+              <div className="flex items-center space-x-2">
+                <input
+                  value={hints[item.qualifiedName] ?? ''}
+                  onChange={(e) => setHints({ ...hints, [item.qualifiedName]: e.target.value })}
+                  placeholder="Optional hint, e.g. mention it is thread-safe"
+                  className="flex-1 px-2 py-1 text-xs text-white bg-black/30 border border-white/20 rounded focus:outline-none focus:ring-2 focus:ring-white/50"
+                />
+                <button
+                  onClick={() => onRegenerate(item.qualifiedName, hints[item.qualifiedName] ?? '')}
+                  disabled={regenerating !== null}
+                  className="flex items-center text-xs text-gray-300 hover:text-white disabled:opacity-50 disabled:cursor-not-allowed"
+                  title="Generate this docstring again"
+                >
+                  <RefreshCw className={`h-4 w-4 mr-1 ${busy ? 'animate-spin' : ''}`} />
+                  Regenerate
+                </button>
+              </div>
+            </div>
+          )
+        })}
+      </div>
+
+      <div className="flex justify-end space-x-3 mt-4">
+        <button onClick={onDiscard} className="btn-secondary">
+          Discard
+        </button>
+        <button
+          onClick={onApply}
+          disabled={accepted === 0}
+          className="btn-primary disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          Insert {accepted} accepted
+        </button>
+      </div>
+    </div>
+  )
+}
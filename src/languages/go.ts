@@ -0,0 +1,11 @@
+import { go } from '@shared/languages.ts'
+import { LanguageAdapter } from '@/types'
+import { parseGoCode } from '@/utils/goParser'
+import { insertDocumentation } from '@/utils/docInserter'
+
+export const goAdapter: LanguageAdapter = {
+  ...go,
+  parse: parseGoCode,
+  insert: (code, docstrings, options) =>
+    insertDocumentation(code, parseGoCode(code), docstrings, go.comment, options),
+}
@@ -0,0 +1,75 @@
+import { detectLanguageDefinition } from '@shared/languages.ts'
+import {
+  FunctionMetadata,
+  GenerateDocstringRequest,
+  GenerateDocstringResponse,
+  InsertOptions,
+  Language,
+  LanguageAdapter,
+} from '@/types'
+import { pythonAdapter } from './python'
+import { javascriptAdapter } from './javascript'
+import { typescriptAdapter } from './typescript'
+import { javaAdapter } from './java'
+import { kotlinAdapter } from './kotlin'
+import { goAdapter } from './go'
+import { rustAdapter } from './rust'
+
+// Adding a language means adding its definition to the shared registry and an adapter here
+const adapters: Record<Language, LanguageAdapter> = {
+  python: pythonAdapter,
+  javascript: javascriptAdapter,
+  typescript: typescriptAdapter,
+  java: javaAdapter,
+  kotlin: kotlinAdapter,
+  go: goAdapter,
+  rust: rustAdapter,
+}
+
+export const languageAdapters: LanguageAdapter[] = Object.values(adapters)
+
+/** Comma-separated extensions for a file input's `accept` attribute */
+export const acceptedExtensions = languageAdapters
+  .flatMap((adapter) => adapter.extensions.map((ext) => `.${ext}`))
+  .join(',')
+
+export function getLanguageAdapter(language: Language): LanguageAdapter {
+  return adapters[language]
+}
+
+/** Detects the language from a file name, treating unknown extensions as Python */
+export function detectLanguage(filename: string): Language {
+  return detectLanguageDefinition(filename)?.id ?? 'python'
+}
+
+export function parseCode(code: string, language: Language): FunctionMetadata[] {
+  return getLanguageAdapter(language).parse(code)
+}
+
+/** The parts of a parsed declaration the edge function needs */
+export function toRequestFunction(
+  f: FunctionMetadata
+): GenerateDocstringRequest['functions'][number] {
+  return {
+    name: f.name,
+    qualifiedName: f.qualifiedName,
+    parent: f.parent,
+    params: f.params,
+    returnType: f.returnType,
+    overloads: f.overloads,
+    analysis: f.analysis,
+    attributes: f.attributes,
+    module: f.module,
+    body: f.body,
+    type: f.type,
+  }
+}
+
+export function insertDocstrings(
+  code: string,
+  language: Language,
+  docstrings: GenerateDocstringResponse['docstrings'],
+  options?: InsertOptions
+): string {
+  return getLanguageAdapter(language).insert(code, docstrings, options)
+}
@@ -0,0 +1,11 @@
+import { java } from '@shared/languages.ts'
+import { LanguageAdapter } from '@/types'
+import { parseJavaCode } from '@/utils/jvmParser'
+import { insertDocumentation } from '@/utils/docInserter'
+
+export const javaAdapter: LanguageAdapter = {
+  ...java,
+  parse: parseJavaCode,
+  insert: (code, docstrings, options) =>
+    insertDocumentation(code, parseJavaCode(code), docstrings, java.comment, options),
+}
@@ -0,0 +1,11 @@
+import { javascript } from '@shared/languages.ts'
+import { LanguageAdapter } from '@/types'
+import { parseJavaScriptCode } from '@/utils/codeParser'
+import { insertDocumentation } from '@/utils/docInserter'
+
+export const javascriptAdapter: LanguageAdapter = {
+  ...javascript,
+  parse: parseJavaScriptCode,
+  insert: (code, docstrings, options) =>
+    insertDocumentation(code, parseJavaScriptCode(code), docstrings, javascript.comment, options),
+}
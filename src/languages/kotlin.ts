@@ -0,0 +1,11 @@
+import { kotlin } from '@shared/languages.ts'
+import { LanguageAdapter } from '@/types'
+import { parseKotlinCode } from '@/utils/jvmParser'
+import { insertDocumentation } from '@/utils/docInserter'
+
+export const kotlinAdapter: LanguageAdapter = {
+  ...kotlin,
+  parse: parseKotlinCode,
+  insert: (code, docstrings, options) =>
+    insertDocumentation(code, parseKotlinCode(code), docstrings, kotlin.comment, options),
+}
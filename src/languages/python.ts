@@ -0,0 +1,11 @@
+import { python } from '@shared/languages.ts'
+import { LanguageAdapter } from '@/types'
+import { parsePythonCode } from '@/utils/codeParser'
+import { insertDocumentation } from '@/utils/docInserter'
+
+export const pythonAdapter: LanguageAdapter = {
+  ...python,
+  parse: parsePythonCode,
+  insert: (code, docstrings, options) =>
+    insertDocumentation(code, parsePythonCode(code), docstrings, python.comment, options),
+}
@@ -0,0 +1,11 @@
+import { rust } from '@shared/languages.ts'
+import { LanguageAdapter } from '@/types'
+import { parseRustCode } from '@/utils/rustParser'
+import { insertDocumentation } from '@/utils/docInserter'
+
+export const rustAdapter: LanguageAdapter = {
+  ...rust,
+  parse: parseRustCode,
+  insert: (code, docstrings, options) =>
+    insertDocumentation(code, parseRustCode(code), docstrings, rust.comment, options),
+}
@@ -0,0 +1,11 @@
+import { typescript } from '@shared/languages.ts'
+import { LanguageAdapter } from '@/types'
+import { parseTypeScriptCode } from '@/utils/codeParser'
+import { insertDocumentation } from '@/utils/docInserter'
+
+export const typescriptAdapter: LanguageAdapter = {
+  ...typescript,
+  parse: parseTypeScriptCode,
+  insert: (code, docstrings, options) =>
+    insertDocumentation(code, parseTypeScriptCode(code), docstrings, typescript.comment, options),
+}
@@ -0,0 +1,265 @@
+#!/usr/bin/env node
+import {
+  CodeAction,
+  CodeActionKind,
+  CodeActionParams,
+  Diagnostic,
+  DiagnosticSeverity,
+  InitializeResult,
+  ProposedFeatures,
+  TextDocumentSyncKind,
+  TextDocuments,
+  TextEdit,
+  WorkspaceEdit,
+  createConnection,
+} from 'vscode-languageserver/node.js'
+import { TextDocument } from 'vscode-languageserver-textdocument'
+import { detectLanguageDefinition, getLanguageDefinition } from '@shared/languages.ts'
+import { insertDocstrings, parseCode, toRequestFunction } from '@/languages'
+import { DocstringFormat, FunctionMetadata, InsertOptions, Language, ModelProvider } from '@/types'
+import { describeDrift, detectDocDrift } from '@/utils/docSections'
+import { findEdits } from '@/utils/patch'
+import { findDeclarationLine, findPublicDeclarations, selectByPolicy } from '@/utils/selection'
+import { generateDocstrings, resolveApiConfig } from '@/cli/client'
+
+const SOURCE = 'docgen'
+const GENERATE_COMMAND = 'docgen.generateDocstrings'
+const GENERATE_FILE_KIND = `${CodeActionKind.Source}.generateDocstrings`
+
+/** Settings a client passes as `initializationOptions` */
+interface ServerSettings {
+  /** Supabase project URL, defaulting to the environment like the CLI */
+  url?: string
+  key?: string
+  format?: DocstringFormat
+  batchSize?: number
+  provider?: ModelProvider
+  model?: string
+}
+
+/** What a code action generates, carried until it is resolved or executed */
+interface GenerateRequest {
+  uri: string
+  qualifiedNames: string[]
+  mode: NonNullable<InsertOptions['mode']>
+}
+
+const connection = createConnection(ProposedFeatures.all)
+const documents = new TextDocuments(TextDocument)
+let settings: ServerSettings = {}
+let resolvesEdits = false
+
+/** Language ids mostly match the client's; otherwise the file extension decides */
+function documentLanguage(document: TextDocument): Language | undefined {
+  return (getLanguageDefinition(document.languageId) ?? detectLanguageDefinition(document.uri))
+    ?.id
+}
+
+function parseDocument(document: TextDocument) {
+  const language = documentLanguage(document)
+  const code = document.getText()
+  return { language, code, functions: language ? parseCode(code, language) : [] }
+}
+
+/** The name of the declaration, where diagnostics are shown */
+function nameRange(lines: string[], func: FunctionMetadata) {
+  const line = findDeclarationLine(lines, func)
+  const column = Math.max(0, lines[line]?.indexOf(func.name) ?? 0)
+  return {
+    start: { line, character: column },
+    end: { line, character: column + func.name.length },
+  }
+}
+
+function findDiagnostics(document: TextDocument): Diagnostic[] {
+  const { language, code, functions } = parseDocument(document)
+  if (!language) return []
+
+  const lines = code.split('\n')
+  const diagnostics: Diagnostic[] = []
+  const undocumented = findPublicDeclarations(functions, language, code).filter(
+    (func) => func.docstring === undefined
+  )
+  for (const func of undocumented) {
+    diagnostics.push({
+      range: nameRange(lines, func),
+      severity: DiagnosticSeverity.Information,
+      source: SOURCE,
+      code: 'undocumented',
+      message: `${func.qualifiedName} has no documentation`,
+      data: { qualifiedName: func.qualifiedName },
+    })
+  }
+  for (const func of functions) {
+    const drift = detectDocDrift(func)
+    if (!drift) continue
+    const changes = describeDrift(drift).join('; ')
+    diagnostics.push({
+      range: nameRange(lines, func),
+      severity: DiagnosticSeverity.Warning,
+      source: SOURCE,
+      code: 'outdated',
+      message: `Documentation of ${func.qualifiedName} is out of date: ${changes}`,
+      data: { qualifiedName: func.qualifiedName },
+    })
+  }
+  return diagnostics
+}
+
+/** The innermost declaration spanning `line` */
+function findSymbolAt(functions: FunctionMetadata[], line: number): FunctionMetadata | undefined {
+  return functions
+    .filter((func) => func.type !== 'module' && func.startLine <= line && line <= func.endLine)
+    .reduce<FunctionMetadata | undefined>(
+      (inner, func) => (inner && inner.startLine > func.startLine ? inner : func),
+      undefined
+    )
+}
+
+function findCodeActions(params: CodeActionParams): CodeAction[] {
+  const document = documents.get(params.textDocument.uri)
+  if (!document) return []
+  const { functions } = parseDocument(document)
+  const uri = document.uri
+  const actions: CodeAction[] = []
+
+  const symbol = findSymbolAt(functions, params.range.start.line)
+  if (symbol) {
+    const diagnostics = params.context.diagnostics.filter(
+      (diagnostic) =>
+        diagnostic.source === SOURCE &&
+        (diagnostic.data as { qualifiedName?: string })?.qualifiedName === symbol.qualifiedName
+    )
+    actions.push({
+      title: `Generate docstring for ${symbol.qualifiedName}`,
+      kind: diagnostics.length ? CodeActionKind.QuickFix : CodeActionKind.RefactorRewrite,
+      diagnostics,
+      isPreferred: diagnostics.length > 0,
+      // Drifted documentation keeps its prose; otherwise the documentation is replaced
+      data: {
+        uri,
+        qualifiedNames: [symbol.qualifiedName],
+        mode: detectDocDrift(symbol) ? 'merge' : 'replace',
+      } satisfies GenerateRequest,
+    })
+  }
+
+  const outdated = [...selectByPolicy(functions, 'outdated')]
+  if (outdated.length) {
+    actions.push({
+      title: 'Generate docstrings for file',
+      kind: GENERATE_FILE_KIND,
+      data: { uri, qualifiedNames: outdated, mode: 'merge' } satisfies GenerateRequest,
+    })
+  }
+
+  const only = params.context.only
+  return actions
+    .filter((action) => !only || only.some((kind) => action.kind!.startsWith(kind)))
+    .map((action) =>
+      // Clients that cannot resolve edits run a command that applies them instead
+      resolvesEdits
+        ? action
+        : {
+            ...action,
+            command: { title: action.title, command: GENERATE_COMMAND, arguments: [action.data] },
+          }
+    )
+}
+
+/** Generates documentation and returns the edit that inserts it, as `insertDocstrings` would */
+async function generateEdit({
+  uri,
+  qualifiedNames,
+  mode,
+}: GenerateRequest): Promise<WorkspaceEdit> {
+  const document = documents.get(uri)
+  if (!document) throw new Error(`${uri} is not open`)
+  const { language, code, functions } = parseDocument(document)
+  if (!language) throw new Error(`Unsupported language: ${document.languageId}`)
+
+  const names = new Set(qualifiedNames)
+  const targets = functions.filter((func) => names.has(func.qualifiedName))
+  if (targets.length === 0) {
+    throw new Error('The declarations to document are no longer in the file')
+  }
+
+  const response = await generateDocstrings(
+    {
+      language,
+      functions: targets.map(toRequestFunction),
+      format: settings.format,
+      batchSize: settings.batchSize,
+      provider: settings.provider,
+      model: settings.model,
+    },
+    resolveApiConfig(settings.url, settings.key)
+  )
+  // Whatever was generated is still inserted when some declarations fail
+  const failures = (response.failures ?? []).map(
+    (failure) => `${failure.qualifiedName ?? failure.name} (${failure.error})`
+  )
+  if (failures.length && response.docstrings.length === 0) {
+    throw new Error(`Could not document ${failures.join('; ')}`)
+  }
+  if (failures.length) {
+    connection.window.showWarningMessage(`Could not document ${failures.join('; ')}`)
+  }
+  const modified = insertDocstrings(code, language, response.docstrings, { mode })
+  const edits = findEdits(code, modified).map((edit) =>
+    TextEdit.replace(
+      { start: document.positionAt(edit.start), end: document.positionAt(edit.end) },
+      edit.text
+    )
+  )
+  return { changes: { [uri]: edits } }
+}
+
+connection.onInitialize((params): InitializeResult => {
+  settings = params.initializationOptions ?? {}
+  resolvesEdits =
+    params.capabilities.textDocument?.codeAction?.resolveSupport?.properties.includes('edit') ??
+    false
+  return {
+    capabilities: {
+      textDocumentSync: TextDocumentSyncKind.Incremental,
+      codeActionProvider: {
+        codeActionKinds: [
+          CodeActionKind.QuickFix,
+          CodeActionKind.RefactorRewrite,
+          GENERATE_FILE_KIND,
+        ],
+        resolveProvider: resolvesEdits,
+      },
+      executeCommandProvider: { commands: [GENERATE_COMMAND] },
+    },
+    serverInfo: { name: 'docgen' },
+  }
+})
+
+documents.onDidChangeContent(({ document }) => {
+  connection.sendDiagnostics({ uri: document.uri, diagnostics: findDiagnostics(document) })
+})
+
+documents.onDidClose(({ document }) => {
+  connection.sendDiagnostics({ uri: document.uri, diagnostics: [] })
+})
+
+connection.onCodeAction(findCodeActions)
+
+connection.onCodeActionResolve(async (action) => ({
+  ...action,
+  edit: await generateEdit(action.data as GenerateRequest),
+}))
+
+connection.onExecuteCommand(async ({ command, arguments: args }) => {
+  if (command !== GENERATE_COMMAND || !args?.length) return
+  try {
+    await connection.workspace.applyEdit(await generateEdit(args[0] as GenerateRequest))
+  } catch (err) {
+    connection.window.showErrorMessage(err instanceof Error ? err.message : String(err))
+  }
+})
+
+documents.listen(connection)
+connection.listen()
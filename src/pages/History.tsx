@@ -1,9 +1,9 @@
 import { useState, useEffect } from 'react'
 import { useAuth } from '@/contexts/AuthContext'
 import { getHistory, deleteHistoryItem } from '@/services/api'
-import { DocgenHistory } from '@/types'
+import { DocgenHistory, Language } from '@/types'
 import { Trash2, Eye, Download, Calendar, History as HistoryIcon } from 'lucide-react'
-import CodeEditor from '@/components/CodeEditor'
+import DiffViewer from '@/components/DiffViewer'
 
 export default function History() {
   const { user } = useAuth()
@@ -151,6 +151,12 @@ export default function History() {
                   <span className="px-2 py-1 bg-white/10 border border-white/20 rounded">
                     {item.language}
                   </span>
+                  {item.documented_symbols && item.documented_symbols.length > 0 && (
+                    <span title={item.documented_symbols.join(', ')}>
+                      {item.documented_symbols.length}{' '}
+                      {item.documented_symbols.length === 1 ? 'symbol' : 'symbols'} documented
+                    </span>
+                  )}
                 </div>
               </div>
               <div className="flex items-center space-x-2">
@@ -196,26 +202,12 @@ export default function History() {
               </div>
             </div>
             <div className="p-6 overflow-y-auto max-h-[calc(90vh-120px)]">
-              <div className="grid grid-cols-2 gap-6">
-                <div>
-                  <h3 className="text-lg font-semibold text-white mb-3">Before</h3>
-                  <CodeEditor
-                    value={selectedItem.content_before}
-                    language={selectedItem.language as 'python' | 'javascript'}
-                    readOnly
-                    height="500px"
-                  />
-                </div>
-                <div>
-                  <h3 className="text-lg font-semibold text-white mb-3">After</h3>
-                  <CodeEditor
-                    value={selectedItem.content_after}
-                    language={selectedItem.language as 'python' | 'javascript'}
-                    readOnly
-                    height="500px"
-                  />
-                </div>
-              </div>
+              <DiffViewer
+                original={selectedItem.content_before}
+                modified={selectedItem.content_after}
+                language={selectedItem.language as Language}
+                filename={selectedItem.filename}
+              />
             </div>
           </div>
         </div>
@@ -1,13 +1,71 @@
-import { useState } from 'react'
+import { useEffect, useRef, useState } from 'react'
 import { useAuth } from '@/contexts/AuthContext'
 import FileUpload from '@/components/FileUpload'
 import CodeEditor from '@/components/CodeEditor'
+import DiffViewer from '@/components/DiffViewer'
 import FunctionList from '@/components/FunctionList'
 import AuthModal from '@/components/AuthModal'
-import { parsePythonCode, parseJavaScriptCode, insertDocstrings } from '@/utils/codeParser'
-import { generateDocstrings, saveToHistory } from '@/services/api'
-import { FunctionMetadata, Language, DocstringFormat } from '@/types'
-import { Download, Sparkles, AlertCircle, CheckCircle, Info, X } from 'lucide-react'
+import ReviewPanel from '@/components/ReviewPanel'
+import FailurePanel from '@/components/FailurePanel'
+import {
+  detectLanguage,
+  getLanguageAdapter,
+  insertDocstrings,
+  languageAdapters,
+  parseCode,
+  toRequestFunction,
+} from '@/languages'
+import { generateDocstrings, saveToHistory, streamDocstrings } from '@/services/api'
+import { canConvertTo, convertDocstring } from '@/utils/docConverter'
+import { detectDocDrift, mergeDocstring } from '@/utils/docSections'
+import {
+  diffDocumentation,
+  loadSelectionPolicy,
+  saveSelectionPolicy,
+  selectByPolicy,
+} from '@/utils/selection'
+import {
+  DocstringFailure,
+  FunctionMetadata,
+  GenerateDocstringResponse,
+  GenerationStatus,
+  Language,
+  DocstringFormat,
+  DocstringReview,
+  SelectionPolicy,
+} from '@/types'
+import {
+  Download,
+  Sparkles,
+  AlertCircle,
+  CheckCircle,
+  Info,
+  X,
+  Repeat,
+  FileCode,
+  FileDiff,
+  Square,
+} from 'lucide-react'
+
+/**
+ * Turns generated docstrings into review items. When merging, the items show the existing
+ * documentation with its stale sections updated, which is what insertion will write.
+ */
+function toReviewItems(
+  docstrings: GenerateDocstringResponse['docstrings'],
+  functions: FunctionMetadata[],
+  merge: boolean
+): DocstringReview[] {
+  return docstrings.map((d) => {
+    const qualifiedName = d.qualifiedName ?? d.name
+    const func = functions.find((f) => f.qualifiedName === qualifiedName)
+    const docstring =
+      merge && func?.docstring !== undefined
+        ? mergeDocstring(func.docstring, d.docstring, func)
+        : d.docstring
+    return { ...d, qualifiedName, docstring, status: 'pending' }
+  })
+}
 
 export default function Home() {
   const { user } = useAuth()
@@ -15,16 +73,34 @@ export default function Home() {
   const [code, setCode] = useState('')
   const [language, setLanguage] = useState<Language>('python')
   const [functions, setFunctions] = useState<FunctionMetadata[]>([])
+  const [selected, setSelected] = useState<Set<string>>(new Set())
+  const [selectionPolicy, setSelectionPolicy] = useState<SelectionPolicy>(loadSelectionPolicy)
+  const [review, setReview] = useState<DocstringReview[]>([])
+  const [regenerating, setRegenerating] = useState<string | null>(null)
+  const [failures, setFailures] = useState<DocstringFailure[]>([])
+  const [retrying, setRetrying] = useState(false)
+  const [showDiff, setShowDiff] = useState(true)
   const [generatedDocstrings, setGeneratedDocstrings] = useState<Map<string, string>>(new Map())
   const [modifiedCode, setModifiedCode] = useState('')
   const [loading, setLoading] = useState(false)
+  // While generating: each target's status, the count done and the code with results so far
+  const [progress, setProgress] = useState<Map<string, GenerationStatus>>(new Map())
+  const [completed, setCompleted] = useState({ done: 0, total: 0 })
+  const [preview, setPreview] = useState<string | null>(null)
+  const abortRef = useRef<AbortController | null>(null)
   const [error, setError] = useState<string | null>(null)
   const [successMessage, setSuccessMessage] = useState<string | null>(null)
   const [infoMessage, setInfoMessage] = useState<string | null>(null)
   const [docFormat, setDocFormat] = useState<DocstringFormat>('google')
+  const [mergeExisting, setMergeExisting] = useState(false)
+  const [forceRegenerate, setForceRegenerate] = useState(false)
   const [showAuthModal, setShowAuthModal] = useState(false)
 
+  // Stop a running generation when leaving the page
+  useEffect(() => () => abortRef.current?.abort(), [])
+
   const handleCancelFile = () => {
+    abortRef.current?.abort()
     setFile(null)
     setCode('')
     setModifiedCode('')
@@ -33,6 +109,15 @@ export default function Home() {
     setInfoMessage(null)
     setGeneratedDocstrings(new Map())
     setFunctions([])
+    setSelected(new Set())
+    setReview([])
+    setFailures([])
+  }
+
+  const handlePolicyChange = (policy: SelectionPolicy) => {
+    setSelectionPolicy(policy)
+    saveSelectionPolicy(policy)
+    setSelected(selectByPolicy(functions, policy))
   }
 
   const handleFileSelect = (selectedFile: File, content: string) => {
@@ -43,17 +128,22 @@ export default function Home() {
     setSuccessMessage(null)
     setInfoMessage(null)
     setGeneratedDocstrings(new Map())
+    setReview([])
+    setFailures([])
 
-    // Detect language from file extension
-    const ext = selectedFile.name.split('.').pop()?.toLowerCase()
-    const detectedLanguage: Language =
-      ext === 'py' ? 'python' : ext === 'js' || ext === 'ts' ? 'javascript' : 'python'
+    const detectedLanguage = detectLanguage(selectedFile.name)
     setLanguage(detectedLanguage)
 
+    // Keep the chosen format while the language stays the same and supports it
+    const { formats, defaultFormat } = getLanguageAdapter(detectedLanguage)
+    if (detectedLanguage !== language || !formats.some((f) => f.id === docFormat)) {
+      setDocFormat(defaultFormat)
+    }
+
     // Parse functions
-    const parsedFunctions =
-      detectedLanguage === 'python' ? parsePythonCode(content) : parseJavaScriptCode(content)
-    setFunctions(parsedFunctions)
+    const parsed = parseCode(content, detectedLanguage)
+    setFunctions(parsed)
+    setSelected(selectByPolicy(parsed, selectionPolicy))
   }
 
   const handleGenerateDocstrings = async () => {
@@ -62,68 +152,266 @@ export default function Home() {
       return
     }
 
+    const chosen = functions.filter((f) => selected.has(f.qualifiedName))
+    if (chosen.length === 0) {
+      setError('Select at least one function or class to document.')
+      return
+    }
+
+    // Merging only needs documentation for declarations that lack it or have drifted
+    const targets = mergeExisting
+      ? chosen.filter((f) => f.docstring === undefined || detectDocDrift(f))
+      : chosen
+    if (targets.length === 0) {
+      setInfoMessage('All existing documentation matches its signatures.')
+      return
+    }
+
+    const controller = new AbortController()
+    abortRef.current = controller
     setLoading(true)
     setError(null)
     setSuccessMessage(null)
     setInfoMessage(null)
+    setReview([])
+    setFailures([])
+    setModifiedCode('')
+    setGeneratedDocstrings(new Map())
+    setProgress(new Map(targets.map((f) => [f.qualifiedName, 'pending'])))
+    setCompleted({ done: 0, total: targets.length })
+
+    // Results are kept as they arrive, so that a cancelled run can still be reviewed
+    const items: DocstringReview[] = []
+    const failed: DocstringFailure[] = []
+    const markDone = (qualifiedName: string, status: GenerationStatus) =>
+      setProgress((current) => new Map(current).set(qualifiedName, status))
 
     try {
-      const response = await generateDocstrings({
-        language,
-        functions: functions.map((f) => ({
-          name: f.name,
-          params: f.params,
-          body: f.body,
-          type: f.type,
-        })),
-        format: docFormat,
-      })
+      const response = await streamDocstrings(
+        {
+          language,
+          functions: targets.map(toRequestFunction),
+          format: docFormat,
+          force: forceRegenerate,
+        },
+        {
+          onDocstring: (docstring) => {
+            const [item] = toReviewItems([docstring], functions, mergeExisting)
+            items.push(item)
+            markDone(item.qualifiedName, 'done')
+            setPreview(insertDocstrings(code, language, items))
+          },
+          onFailure: (failure) => {
+            failed.push(failure)
+            markDone(failure.qualifiedName ?? failure.name, 'failed')
+          },
+          onProgress: (done, total) => setCompleted({ done, total }),
+        },
+        { localCache: !user, signal: controller.signal }
+      )
+      const cached = items.filter((item) => item.cached).length
+      if (items.length > 0) {
+        setInfoMessage(
+          'Review the generated docstrings, then insert the ones you accept.' +
+            (response.model ? ` Written by ${response.provider}/${response.model}.` : '') +
+            (cached ? ` ${cached} were reused from earlier runs of unchanged code.` : '')
+        )
+      }
+    } catch (err) {
+      if (controller.signal.aborted) {
+        setInfoMessage(
+          items.length > 0
+            ? `Generation cancelled. Review the ${items.length} docstrings generated so far.`
+            : 'Generation cancelled.'
+        )
+      } else {
+        const errorMsg = err instanceof Error ? err.message : 'Failed to generate docstrings'
+        setError(errorMsg)
+      }
+    } finally {
+      const order = functions.map((f) => f.qualifiedName)
+      setReview(
+        items.sort((a, b) => order.indexOf(a.qualifiedName) - order.indexOf(b.qualifiedName))
+      )
+      setFailures(failed)
+      setProgress(new Map())
+      setPreview(null)
+      setLoading(false)
+      abortRef.current = null
+    }
+  }
 
-      const docstringMap = new Map(response.docstrings.map((d) => [d.name, d.docstring]))
-      setGeneratedDocstrings(docstringMap)
-
-      // Insert docstrings into code
-      const updated = insertDocstrings(code, language, response.docstrings)
-      setModifiedCode(updated)
-
-      setSuccessMessage(`Successfully generated ${response.docstrings.length} docstring${response.docstrings.length > 1 ? 's' : ''}!`)
-
-      // Save to history if user is logged in
-      if (user) {
-        try {
-          await saveToHistory({
-            user_id: user.id,
-            filename: file?.name || 'untitled',
-            language,
-            content_before: code,
-            content_after: updated,
-          })
-          setInfoMessage('Saved to your history')
-        } catch (err) {
-          console.error('Failed to save history:', err)
-          // Don't show error for history save failure
-        }
-      } else if (!user) {
-        // Store in localStorage
-        const history = JSON.parse(localStorage.getItem('docgen_history') || '[]')
-        history.unshift({
-          id: Date.now().toString(),
+  const updateReview = (qualifiedName: string, changes: Partial<DocstringReview>) => {
+    setReview((items) =>
+      items.map((item) => (item.qualifiedName === qualifiedName ? { ...item, ...changes } : item))
+    )
+  }
+
+  // Generates one docstring again, without rerunning the whole file
+  const handleRegenerate = async (qualifiedName: string, hint: string) => {
+    const func = functions.find((f) => f.qualifiedName === qualifiedName)
+    if (!func) return
+
+    setRegenerating(qualifiedName)
+    setError(null)
+    try {
+      // Regenerating asks for a new answer, so the cache is skipped
+      const response = await generateDocstrings(
+        {
+          language,
+          functions: [{ ...toRequestFunction(func), hint: hint.trim() || undefined }],
+          format: docFormat,
+          force: true,
+        },
+        { localCache: !user }
+      )
+      const [item] = toReviewItems(response.docstrings, functions, mergeExisting)
+      if (item) updateReview(qualifiedName, { ...item, edited: false })
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to regenerate docstring')
+    } finally {
+      setRegenerating(null)
+    }
+  }
+
+  // Generates documentation again for the symbols that failed, adding them to the review
+  const handleRetryFailures = async () => {
+    const names = new Set(failures.map((failure) => failure.qualifiedName ?? failure.name))
+    const targets = functions.filter((f) => names.has(f.qualifiedName))
+
+    setRetrying(true)
+    setError(null)
+    try {
+      const response = await generateDocstrings(
+        { language, functions: targets.map(toRequestFunction), format: docFormat },
+        { localCache: !user }
+      )
+      const order = functions.map((f) => f.qualifiedName)
+      const items = toReviewItems(response.docstrings, functions, mergeExisting)
+      setReview((current) =>
+        [...current.filter((item) => !names.has(item.qualifiedName)), ...items].sort(
+          (a, b) => order.indexOf(a.qualifiedName) - order.indexOf(b.qualifiedName)
+        )
+      )
+      setFailures(response.failures ?? [])
+      if (items.length > 0) {
+        setInfoMessage('Review the generated docstrings, then insert the ones you accept.')
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to generate docstrings')
+    } finally {
+      setRetrying(false)
+    }
+  }
+
+  const handleApplyReview = async () => {
+    const accepted = review.filter((item) => item.status === 'accepted')
+    // Merging already happened when the review items were created. Retried failures are
+    // inserted on top of the documentation already inserted.
+    const updated = insertDocstrings(modifiedCode || code, language, accepted)
+    setModifiedCode(updated)
+    setReview([])
+    setError(null)
+    setInfoMessage(null)
+
+    // Report the documentation that actually changed
+    const { added, updated: rewritten } = diffDocumentation(functions, parseCode(updated, language))
+    const documented = [...added, ...rewritten]
+    setGeneratedDocstrings(
+      new Map(
+        accepted
+          .filter((item) => documented.includes(item.qualifiedName))
+          .map((item) => [item.qualifiedName, item.docstring])
+      )
+    )
+    if (documented.length === 0) {
+      setInfoMessage('No documentation changed.')
+      return
+    }
+
+    const counts = [
+      added.length && `${added.length} added`,
+      rewritten.length && `${rewritten.length} updated`,
+    ].filter(Boolean)
+    setSuccessMessage(
+      `Documented ${documented.length} of ${functions.length} symbols (${counts.join(', ')}).`
+    )
+
+    await recordHistory(updated, documented)
+  }
+
+  // Saves a change to the user's history, or to localStorage when signed out
+  const recordHistory = async (updated: string, documented: string[]) => {
+    if (user) {
+      try {
+        await saveToHistory({
+          user_id: user.id,
           filename: file?.name || 'untitled',
           language,
           content_before: code,
           content_after: updated,
-          created_at: new Date().toISOString(),
+          documented_symbols: documented,
         })
-        localStorage.setItem('docgen_history', JSON.stringify(history.slice(0, 50))) // Keep last 50
+        setInfoMessage('Saved to your history')
+      } catch (err) {
+        console.error('Failed to save history:', err)
+        // Don't show error for history save failure
       }
-    } catch (err) {
-      const errorMsg = err instanceof Error ? err.message : 'Failed to generate docstrings'
-      setError(errorMsg)
-    } finally {
-      setLoading(false)
+    } else if (!user) {
+      // Store in localStorage
+      const history = JSON.parse(localStorage.getItem('docgen_history') || '[]')
+      history.unshift({
+        id: Date.now().toString(),
+        filename: file?.name || 'untitled',
+        language,
+        content_before: code,
+        content_after: updated,
+        documented_symbols: documented,
+        created_at: new Date().toISOString(),
+      })
+      localStorage.setItem('docgen_history', JSON.stringify(history.slice(0, 50))) // Keep last 50
     }
   }
 
+  // Rewrites existing documentation in the selected format locally, without calling the AI
+  const handleConvertFormat = async () => {
+    const source = modifiedCode || code
+    const converted: GenerateDocstringResponse['docstrings'] = []
+    const failures: string[] = []
+
+    for (const func of parseCode(source, language)) {
+      if (func.docstring === undefined || func.docstringStartLine === undefined) continue
+      try {
+        const result = convertDocstring(func.docstring, docFormat, {
+          language,
+          module: func.type === 'module',
+        })
+        if (result) {
+          converted.push({ name: func.name, qualifiedName: func.qualifiedName, ...result })
+        }
+      } catch (err) {
+        const reason = err instanceof Error ? err.message : 'unreadable'
+        failures.push(`${func.qualifiedName} (${reason})`)
+      }
+    }
+
+    setError(failures.length ? `Could not convert: ${failures.join('; ')}` : null)
+    setSuccessMessage(null)
+    setInfoMessage(null)
+    if (converted.length === 0) {
+      if (!failures.length) setInfoMessage('No docstrings need converting.')
+      return
+    }
+
+    // Like generated documentation, the conversion is a change to `code` that can be diffed,
+    // downloaded and saved
+    const updated = insertDocstrings(source, language, converted)
+    setModifiedCode(updated)
+    setSuccessMessage(`Converted ${converted.length} docstring${converted.length > 1 ? 's' : ''}.`)
+    const names = converted.map((item) => item.qualifiedName ?? item.name)
+    await recordHistory(updated, names)
+  }
+
   const handleDownload = () => {
     if (!modifiedCode) return
 
@@ -143,8 +431,9 @@ export default function Home() {
       <div className="text-center">
         <h1 className="text-4xl font-bold text-white mb-4">AI Docstring Generator</h1>
         <p className="text-lg text-gray-300">
-          Automatically generate professional docstrings for your Python and JavaScript code using
-          Gemini 2.0 Pro
+          Automatically generate professional docstrings for your{' '}
+          {languageAdapters.map((adapter) => adapter.displayName).join(', ')} code with the AI model
+          of your choice
         </p>
       </div>
 
@@ -241,10 +530,15 @@ export default function Home() {
                           backgroundImage: 'none'
                         }}
                       >
-                        <option value="google" className="bg-gray-900 text-white">Google Style</option>
-                        <option value="numpy" className="bg-gray-900 text-white">NumPy Style</option>
-                        <option value="sphinx" className="bg-gray-900 text-white">Sphinx Style</option>
-                        {language === 'javascript' && <option value="jsdoc" className="bg-gray-900 text-white">JSDoc</option>}
+                        {getLanguageAdapter(language).formats.map((format) => (
+                          <option
+                            key={format.id}
+                            value={format.id}
+                            className="bg-gray-900 text-white"
+                          >
+                            {format.label}
+                          </option>
+                        ))}
                       </select>
                       <div className="pointer-events-none absolute inset-y-0 right-0 flex items-center px-3 text-white opacity-70">
                         <svg className="h-4 w-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
@@ -252,26 +546,93 @@ export default function Home() {
                         </svg>
                       </div>
                     </div>
+                    {getLanguageAdapter(language).formats.length > 1 && (
+                      <button
+                        onClick={handleConvertFormat}
+                        disabled={loading || !canConvertTo(docFormat)}
+                        className="btn-secondary flex items-center disabled:opacity-50 disabled:cursor-not-allowed"
+                        title="Rewrite existing docstrings in the selected format without calling the AI"
+                      >
+                        <Repeat className="h-4 w-4 mr-2" />
+                        Convert format
+                      </button>
+                    )}
+                    <label
+                      className="flex items-center text-sm text-gray-300 cursor-pointer"
+                      title="Keep existing documentation, updating only sections that no longer match the signature"
+                    >
+                      <input
+                        type="checkbox"
+                        checked={mergeExisting}
+                        onChange={(e) => setMergeExisting(e.target.checked)}
+                        className="mr-2"
+                      />
+                      Merge existing docs
+                    </label>
+                    <label
+                      className="flex items-center text-sm text-gray-300 cursor-pointer"
+                      title="Generate every docstring again instead of reusing documentation of unchanged code"
+                    >
+                      <input
+                        type="checkbox"
+                        checked={forceRegenerate}
+                        onChange={(e) => setForceRegenerate(e.target.checked)}
+                        className="mr-2"
+                      />
+                      Force regenerate
+                    </label>
                     <button
                       onClick={handleGenerateDocstrings}
-                      disabled={loading || functions.length === 0}
+                      disabled={loading || selected.size === 0}
                       className="btn-primary flex items-center disabled:opacity-50 disabled:cursor-not-allowed"
                     >
                       <Sparkles className="h-4 w-4 mr-2" />
-                      {loading ? 'Generating...' : 'Generate Docstrings'}
+                      {loading
+                        ? `Generating ${completed.done}/${completed.total}...`
+                        : 'Generate Docstrings'}
                     </button>
+                    {loading && (
+                      <button
+                        onClick={() => abortRef.current?.abort()}
+                        className="btn-secondary flex items-center"
+                        title="Stop generating; docstrings already generated are kept for review"
+                      >
+                        <Square className="h-4 w-4 mr-2" />
+                        Cancel
+                      </button>
+                    )}
                   </div>
                 </div>
-                <CodeEditor
-                  value={modifiedCode || code}
-                  onChange={(value) => !modifiedCode && setCode(value || '')}
-                  language={language === 'python' ? 'python' : 'javascript'}
-                  readOnly={!!modifiedCode}
-                />
+                {modifiedCode && showDiff ? (
+                  <DiffViewer
+                    original={code}
+                    modified={modifiedCode}
+                    language={language}
+                    filename={file?.name || 'untitled'}
+                  />
+                ) : (
+                  <CodeEditor
+                    value={preview ?? (modifiedCode || code)}
+                    onChange={(value) => !modifiedCode && !loading && setCode(value || '')}
+                    language={language}
+                    readOnly={!!modifiedCode || review.length > 0 || loading}
+                  />
+                )}
               </div>
 
               {modifiedCode && (
-                <div className="flex justify-end">
+                <div className="flex justify-end space-x-3">
+                  <button
+                    onClick={() => setShowDiff(!showDiff)}
+                    className="btn-secondary flex items-center"
+                  >
+                    {showDiff ? (
+                      <FileCode className="h-4 w-4 mr-2" />
+                    ) : (
+                      <FileDiff className="h-4 w-4 mr-2" />
+                    )}
+                    {showDiff ? 'Show Code' : 'Show Changes'}
+                  </button>
                   <button onClick={handleDownload} className="btn-primary flex items-center">
                     <Download className="h-4 w-4 mr-2" />
                     Download File
@@ -283,7 +644,33 @@ export default function Home() {
         </div>
 
         <div className="space-y-6">
-          <FunctionList functions={functions} generatedDocstrings={generatedDocstrings} />
+          {failures.length > 0 && (
+            <FailurePanel
+              failures={failures}
+              retrying={retrying}
+              onRetry={handleRetryFailures}
+              onDismiss={() => setFailures([])}
+            />
+          )}
+          {review.length > 0 && (
+            <ReviewPanel
+              items={review}
+              regenerating={regenerating}
+              onUpdate={updateReview}
+              onRegenerate={handleRegenerate}
+              onApply={handleApplyReview}
+              onDiscard={() => setReview([])}
+            />
+          )}
+          <FunctionList
+            functions={functions}
+            generatedDocstrings={generatedDocstrings}
+            progress={progress}
+            selected={selected}
+            onSelectionChange={setSelected}
+            policy={selectionPolicy}
+            onPolicyChange={handlePolicyChange}
+          />
         </div>
       </div>
 
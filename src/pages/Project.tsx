@@ -0,0 +1,356 @@
+import { useState } from 'react'
+import { useAuth } from '@/contexts/AuthContext'
+import ProjectUpload from '@/components/ProjectUpload'
+import ProjectFileTree from '@/components/ProjectFileTree'
+import FailurePanel from '@/components/FailurePanel'
+import CodeEditor from '@/components/CodeEditor'
+import DiffViewer from '@/components/DiffViewer'
+import { getLanguageAdapter, insertDocstrings, parseCode, toRequestFunction } from '@/languages'
+import { generateDocstrings, saveBatchToHistory } from '@/services/api'
+import { diffDocumentation, loadSelectionPolicy, selectByPolicy } from '@/utils/selection'
+import { ProjectAsset, ProjectEntry, createProjectZip, readProjectFiles } from '@/utils/project'
+import { DocstringFailure, DocstringFormat, ProjectFile } from '@/types'
+import { AlertCircle, CheckCircle, Download, Sparkles, X } from 'lucide-react'
+
+interface Progress {
+  done: number
+  total: number
+  current?: string
+}
+
+type FileFailure = DocstringFailure & { path: string }
+
+export default function Project() {
+  const { user } = useAuth()
+  const [files, setFiles] = useState<ProjectFile[]>([])
+  const [assets, setAssets] = useState<ProjectAsset[]>([])
+  // Empty for each language's default format
+  const [format, setFormat] = useState<DocstringFormat | ''>('')
+  const [projectName, setProjectName] = useState('project')
+  const [selected, setSelected] = useState<Set<string>>(new Set())
+  const [activePath, setActivePath] = useState<string | null>(null)
+  const [progress, setProgress] = useState<Progress | null>(null)
+  const [failures, setFailures] = useState<FileFailure[]>([])
+  const [error, setError] = useState<string | null>(null)
+  const [successMessage, setSuccessMessage] = useState<string | null>(null)
+
+  const activeFile = files.find((file) => file.path === activePath)
+  // Formats of the project's languages; a file whose language lacks the choice uses its default
+  const formats = [
+    ...new Map(
+      files.flatMap((file) => getLanguageAdapter(file.language).formats).map((f) => [f.id, f])
+    ).values(),
+  ]
+  const formatFor = (file: ProjectFile): DocstringFormat => {
+    const adapter = getLanguageAdapter(file.language)
+    return adapter.formats.find((option) => option.id === format)?.id ?? adapter.defaultFormat
+  }
+
+  const handleEntriesSelect = async (entries: ProjectEntry[]) => {
+    setError(null)
+    setSuccessMessage(null)
+    try {
+      const { files: projectFiles, assets } = await readProjectFiles(entries)
+      if (projectFiles.length === 0) {
+        setError('No supported source files found.')
+        return
+      }
+      // A lone archive or folder names the project
+      const first = entries[0]?.path ?? ''
+      setProjectName(
+        entries.length === 1 ? first.replace(/\.zip$/i, '') : first.split('/')[0] || 'project'
+      )
+      setFiles(projectFiles)
+      setAssets(assets)
+      setFailures([])
+      setSelected(new Set(projectFiles.map((file) => file.path)))
+      setActivePath(projectFiles[0].path)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to read the uploaded files')
+    }
+  }
+
+  const handleClear = () => {
+    setFiles([])
+    setAssets([])
+    setSelected(new Set())
+    setActivePath(null)
+    setFailures([])
+    setError(null)
+    setSuccessMessage(null)
+  }
+
+  /** Documents the named declarations of each file, one file at a time */
+  const runGeneration = async (jobs: Array<{ file: ProjectFile; names: Set<string> }>) => {
+    setError(null)
+    setSuccessMessage(null)
+    const results = new Map<string, ProjectFile>()
+    const failed: FileFailure[] = []
+    let symbols = 0
+    let changedFiles = 0
+
+    for (const [index, { file, names }] of jobs.entries()) {
+      setProgress({ done: index, total: jobs.length, current: file.path })
+      const chosen = file.functions.filter((f) => names.has(f.qualifiedName))
+      if (chosen.length === 0) continue
+
+      // Later runs, such as retries, build on the documentation of earlier ones
+      const source = file.modifiedCode ?? file.code
+      try {
+        const response = await generateDocstrings(
+          {
+            language: file.language,
+            functions: chosen.map(toRequestFunction),
+            format: formatFor(file),
+          },
+          { localCache: !user }
+        )
+        for (const failure of response.failures ?? []) failed.push({ ...failure, path: file.path })
+        const modifiedCode = insertDocstrings(source, file.language, response.docstrings)
+        const functions = parseCode(modifiedCode, file.language)
+        const { added, updated } = diffDocumentation(file.functions, functions)
+        symbols += added.length + updated.length
+        if (added.length + updated.length > 0) changedFiles++
+        results.set(file.path, {
+          ...file,
+          modifiedCode,
+          functions,
+          documentedSymbols: [
+            ...new Set([...(file.documentedSymbols ?? []), ...added, ...updated]),
+          ],
+        })
+      } catch (err) {
+        // A request that fails as a whole fails every declaration it carried
+        const error = err instanceof Error ? err.message : 'Failed to generate docstrings'
+        failed.push(
+          ...chosen.map((func) => ({
+            name: func.name,
+            qualifiedName: func.qualifiedName,
+            error,
+            path: file.path,
+          }))
+        )
+      }
+    }
+    setProgress(null)
+
+    setFiles((current) => current.map((file) => results.get(file.path) ?? file))
+    setFailures(failed)
+
+    const changed = [...results.values()].filter((file) => file.documentedSymbols?.length)
+    if (symbols === 0) return
+    setSuccessMessage(`Documented ${symbols} symbols across ${changedFiles} files.`)
+
+    // The run is recorded as one batch with an entry for each changed file
+    const entries = changed.map((file) => ({
+      filename: file.path,
+      language: file.language,
+      content_before: file.code,
+      content_after: file.modifiedCode!,
+      documented_symbols: file.documentedSymbols,
+    }))
+    if (user) {
+      try {
+        await saveBatchToHistory({ user_id: user.id, name: projectName }, entries)
+      } catch (err) {
+        console.error('Failed to save history:', err)
+      }
+    } else {
+      const id = Date.now().toString()
+      const created_at = new Date().toISOString()
+      const batches = JSON.parse(localStorage.getItem('docgen_batches') || '[]')
+      batches.unshift({ id, name: projectName, created_at })
+      localStorage.setItem('docgen_batches', JSON.stringify(batches.slice(0, 20)))
+      const history = JSON.parse(localStorage.getItem('docgen_history') || '[]')
+      history.unshift(
+        ...entries.map((entry, i) => ({ ...entry, id: `${id}-${i}`, batch_id: id, created_at }))
+      )
+      localStorage.setItem('docgen_history', JSON.stringify(history.slice(0, 50))) // Keep last 50
+    }
+  }
+
+  const handleGenerate = () => {
+    const targets = files.filter((file) => selected.has(file.path))
+    if (targets.length === 0) {
+      setError('Select at least one file to document.')
+      return
+    }
+    const policy = loadSelectionPolicy()
+    runGeneration(targets.map((file) => ({ file, names: selectByPolicy(file.functions, policy) })))
+  }
+
+  const handleRetryFailures = () => {
+    const names = new Map<string, Set<string>>()
+    for (const failure of failures) {
+      const forFile = names.get(failure.path) ?? new Set<string>()
+      forFile.add(failure.qualifiedName ?? failure.name)
+      names.set(failure.path, forFile)
+    }
+    runGeneration(
+      files
+        .filter((file) => names.has(file.path))
+        .map((file) => ({ file, names: names.get(file.path)! }))
+    )
+  }
+
+  const handleExport = async () => {
+    const blob = await createProjectZip(files, assets)
+    const url = URL.createObjectURL(blob)
+    const a = document.createElement('a')
+    a.href = url
+    a.download = `${projectName}.zip`
+    document.body.appendChild(a)
+    a.click()
+    document.body.removeChild(a)
+    URL.revokeObjectURL(url)
+  }
+
+  return (
+    <div className="space-y-8">
+      <div className="text-center">
+        <h1 className="text-4xl font-bold text-white mb-4">Project Mode</h1>
+        <p className="text-lg text-gray-300">
+          Document a whole package at once, then download it as a zip
+        </p>
+      </div>
+
+      {successMessage && (
+        <div className="card border-green-500/50 bg-green-500/10">
+          <div className="flex items-start justify-between">
+            <div className="flex items-start">
+              <CheckCircle className="h-5 w-5 text-green-400 mr-3 mt-0.5" />
+              <p className="text-green-300">{successMessage}</p>
+            </div>
+            <button
+              onClick={() => setSuccessMessage(null)}
+              className="text-green-400 hover:text-green-300 transition-colors"
+            >
+              <X className="h-4 w-4" />
+            </button>
+          </div>
+        </div>
+      )}
+
+      {error && (
+        <div className="card border-red-500/50 bg-red-500/10">
+          <div className="flex items-start justify-between">
+            <div className="flex items-start">
+              <AlertCircle className="h-5 w-5 text-red-400 mr-3 mt-0.5" />
+              <p className="text-red-300">{error}</p>
+            </div>
+            <button
+              onClick={() => setError(null)}
+              className="text-red-400 hover:text-red-300 transition-colors"
+            >
+              <X className="h-4 w-4" />
+            </button>
+          </div>
+        </div>
+      )}
+
+      {files.length === 0 ? (
+        <ProjectUpload onEntriesSelect={handleEntriesSelect} />
+      ) : (
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          <div className="space-y-6">
+            <ProjectFileTree
+              files={files}
+              selected={selected}
+              onSelectionChange={setSelected}
+              activePath={activePath}
+              onActivate={setActivePath}
+            />
+            {failures.length > 0 && (
+              <FailurePanel
+                failures={failures}
+                retrying={progress !== null}
+                onRetry={handleRetryFailures}
+                onDismiss={() => setFailures([])}
+              />
+            )}
+          </div>
+
+          <div className="lg:col-span-2 space-y-6">
+            <div className="card">
+              <div className="flex items-center justify-between mb-4">
+                <div className="flex items-center space-x-3">
+                  <h2 className="text-xl font-bold text-white">{projectName}</h2>
+                  <button
+                    onClick={handleClear}
+                    className="p-2 text-gray-400 hover:text-red-400 hover:bg-red-500/10 rounded-lg transition-all"
+                    title="Remove project and start over"
+                  >
+                    <X className="h-5 w-5" />
+                  </button>
+                </div>
+                <div className="flex items-center space-x-3">
+                  <select
+                    value={format}
+                    onChange={(e) => setFormat(e.target.value as DocstringFormat | '')}
+                    disabled={progress !== null}
+                    className="appearance-none px-4 py-2.5 border border-white/20 glass rounded-lg focus:outline-none focus:ring-2 focus:ring-white/50 text-white text-sm hover:bg-white/10 transition-all cursor-pointer"
+                    title="Docstring format; files in languages without it use their default"
+                  >
+                    <option value="" className="bg-gray-900 text-white">
+                      Default formats
+                    </option>
+                    {formats.map((option) => (
+                      <option key={option.id} value={option.id} className="bg-gray-900 text-white">
+                        {option.label}
+                      </option>
+                    ))}
+                  </select>
+                  <button
+                    onClick={handleExport}
+                    disabled={progress !== null}
+                    className="btn-secondary flex items-center disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    <Download className="h-4 w-4 mr-2" />
+                    Download Zip
+                  </button>
+                  <button
+                    onClick={handleGenerate}
+                    disabled={progress !== null || selected.size === 0}
+                    className="btn-primary flex items-center disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    <Sparkles className="h-4 w-4 mr-2" />
+                    {progress ? 'Generating...' : `Document ${selected.size} Files`}
+                  </button>
+                </div>
+              </div>
+
+              {progress && (
+                <div className="mb-4">
+                  <div className="flex justify-between text-xs text-gray-300 mb-1">
+                    <span className="font-mono truncate">{progress.current}</span>
+                    <span>
+                      {progress.done} of {progress.total} files
+                    </span>
+                  </div>
+                  <div className="h-2 bg-white/10 rounded">
+                    <div
+                      className="h-2 bg-white rounded transition-all"
+                      style={{ width: `${(progress.done / progress.total) * 100}%` }}
+                    />
+                  </div>
+                </div>
+              )}
+
+              {activeFile &&
+                (activeFile.modifiedCode !== undefined ? (
+                  <DiffViewer
+                    original={activeFile.code}
+                    modified={activeFile.modifiedCode}
+                    language={activeFile.language}
+                    filename={activeFile.path}
+                  />
+                ) : (
+                  <CodeEditor value={activeFile.code} language={activeFile.language} readOnly />
+                ))}
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
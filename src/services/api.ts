@@ -1,5 +1,17 @@
 import { supabase as supabaseClient } from '@/lib/supabase'
-import { GenerateDocstringRequest, GenerateDocstringResponse, DocgenHistory } from '@/types'
+import {
+  GenerateDocstringRequest,
+  GenerateDocstringResponse,
+  DocgenBatch,
+  DocgenHistory,
+  DocstringFailure,
+  GenerationHandlers,
+  ModelProvider,
+  StructuredDocstring,
+} from '@/types'
+import { renderGeneratedDocstrings } from '@/utils/docRenderer'
+import { readLocalCache, writeLocalCache } from '@/services/docstringCache'
+import { readServerSentEvents } from '@/utils/sse'
 
 function getSupabase() {
   if (!supabaseClient) {
@@ -8,20 +20,129 @@ function getSupabase() {
   return supabaseClient
 }
 
+/** How a generation uses the cache in this browser, and how it can be cancelled */
+export interface GenerationOptions {
+  /** Reuse and keep documentation in IndexedDB, for offline mode */
+  localCache?: boolean
+  /** Cancels the request; the promise then rejects */
+  signal?: AbortSignal
+}
+
+/**
+ * Answers what it can from the local cache, unless the request forces regeneration, and
+ * returns the rest of the request for the edge function
+ */
+async function splitLocalCache(request: GenerateDocstringRequest, options: GenerationOptions) {
+  const cached = options.localCache && !request.force ? await readLocalCache(request) : []
+  const hits = request.functions.flatMap((func, i) => {
+    const structured = cached[i]
+    return structured
+      ? [{ name: func.name, qualifiedName: func.qualifiedName, structured, cached: true }]
+      : []
+  })
+  const remaining = { ...request, functions: request.functions.filter((_, i) => !cached[i]) }
+  return { hits: renderGeneratedDocstrings(request, hits), remaining }
+}
+
 export async function generateDocstrings(
-  request: GenerateDocstringRequest
+  request: GenerateDocstringRequest,
+  options: GenerationOptions = {}
 ): Promise<GenerateDocstringResponse> {
+  const { hits, remaining } = await splitLocalCache(request, options)
+  if (remaining.functions.length === 0) return { docstrings: hits, failures: [] }
+
   const supabase = getSupabase()
 
-  const { data, error } = await supabase.functions.invoke('generate-docstring', {
-    body: request,
+  const { data, error } = await supabase.functions.invoke<{
+    docstrings: Array<{
+      name: string
+      qualifiedName?: string
+      structured: StructuredDocstring
+      cached?: boolean
+    }>
+    failures?: DocstringFailure[]
+    provider?: ModelProvider
+    model?: string
+  }>('generate-docstring', {
+    body: remaining,
+    signal: options.signal,
   })
 
-  if (error) {
-    throw new Error(`Failed to generate docstrings: ${error.message}`)
+  if (error || !data) {
+    throw new Error(`Failed to generate docstrings: ${error?.message ?? 'empty response'}`)
   }
 
-  return data
+  if (options.localCache) await writeLocalCache(remaining, data.docstrings, data)
+  return {
+    docstrings: [...hits, ...renderGeneratedDocstrings(remaining, data.docstrings)],
+    failures: data.failures ?? [],
+    provider: data.provider,
+    model: data.model,
+  }
+}
+
+/**
+ * Generates docstrings like `generateDocstrings`, but streams the results so that `handlers`
+ * see each one as it is done
+ */
+export async function streamDocstrings(
+  request: GenerateDocstringRequest,
+  handlers: GenerationHandlers,
+  options: GenerationOptions = {}
+): Promise<GenerateDocstringResponse> {
+  const { hits, remaining } = await splitLocalCache(request, options)
+  const result: GenerateDocstringResponse = { docstrings: [...hits], failures: [] }
+  hits.forEach((docstring) => handlers.onDocstring?.(docstring))
+  if (remaining.functions.length === 0) {
+    handlers.onProgress?.(hits.length, hits.length)
+    return result
+  }
+
+  const supabase = getSupabase()
+
+  // Event streams come back as the raw response, for the caller to read
+  const { data, error } = await supabase.functions.invoke<Response>('generate-docstring', {
+    body: { ...remaining, stream: true },
+    signal: options.signal,
+  })
+
+  if (error || !data?.body) {
+    throw new Error(`Failed to generate docstrings: ${error?.message ?? 'empty response'}`)
+  }
+
+  // What arrived is cached even when the stream is cancelled or fails part way
+  const generated: Parameters<typeof writeLocalCache>[1] = []
+  try {
+    for await (const { event, data: payload } of readServerSentEvents(data.body)) {
+      const value = JSON.parse(payload)
+      switch (event) {
+        case 'docstring': {
+          const [docstring] = renderGeneratedDocstrings(remaining, [value])
+          result.docstrings.push(docstring)
+          generated.push(value)
+          handlers.onDocstring?.(docstring)
+          break
+        }
+        case 'failure':
+          result.failures!.push(value)
+          handlers.onFailure?.(value)
+          break
+        case 'progress':
+          // Counts include what the local cache answered
+          handlers.onProgress?.(value.completed + hits.length, value.total + hits.length)
+          break
+        case 'done':
+          result.provider = value.provider
+          result.model = value.model
+          break
+        case 'error':
+          throw new Error(`Failed to generate docstrings: ${value.error}`)
+      }
+    }
+  } finally {
+    if (options.localCache) await writeLocalCache(remaining, generated, result)
+  }
+  return result
 }
 
 export async function saveToHistory(history: Omit<DocgenHistory, 'id' | 'created_at'>) {
@@ -65,3 +186,53 @@ export async function deleteHistoryItem(id: string) {
     throw new Error(`Failed to delete history item: ${error.message}`)
   }
 }
+
+/** Saves a project run as one batch with an entry for each file */
+export async function saveBatchToHistory(
+  batch: Omit<DocgenBatch, 'id' | 'created_at'>,
+  files: Array<Omit<DocgenHistory, 'id' | 'user_id' | 'batch_id' | 'created_at'>>
+) {
+  const supabase = getSupabase()
+
+  const { data, error } = await supabase.from('docgen_batches').insert([batch]).select().single()
+
+  if (error || !data) {
+    throw new Error(`Failed to save batch: ${error?.message ?? 'no batch returned'}`)
+  }
+
+  const entries = files.map((file) => ({ ...file, user_id: batch.user_id, batch_id: data.id }))
+  const { error: filesError } = await supabase.from('docgen_history').insert(entries)
+
+  if (filesError) {
+    throw new Error(`Failed to save history: ${filesError.message}`)
+  }
+
+  return data
+}
+
+export async function getBatches(userId: string): Promise<DocgenBatch[]> {
+  const supabase = getSupabase()
+
+  const { data, error } = await supabase
+    .from('docgen_batches')
+    .select('*')
+    .eq('user_id', userId)
+    .order('created_at', { ascending: false })
+
+  if (error) {
+    throw new Error(`Failed to fetch batches: ${error.message}`)
+  }
+
+  return data || []
+}
+
+export async function deleteBatch(id: string) {
+  const supabase = getSupabase()
+
+  // The batch's file entries are deleted with it
+  const { error } = await supabase.from('docgen_batches').delete().eq('id', id)
+
+  if (error) {
+    throw new Error(`Failed to delete batch: ${error.message}`)
+  }
+}
@@ -0,0 +1,142 @@
+import { computeCacheKey } from '@shared/docstringCache.ts'
+import { getFormatOption, getLanguageDefinition } from '@shared/languages.ts'
+import { GenerateDocstringRequest, GenerateDocstringResponse, StructuredDocstring } from '@/types'
+
+// Offline mode keeps generated documentation in IndexedDB, as the edge function does in the
+// docstring_cache table for everyone else
+
+const DB_NAME = 'docgen'
+const STORE = 'docstrings'
+// The oldest entries are dropped beyond this
+const MAX_ENTRIES = 1000
+// The provider and model the edge function last reported for each override, since without one
+// it uses whatever its default model is at the time
+const GENERATORS_KEY = 'docgen_cache_generators'
+
+interface CacheRecord {
+  key: string
+  structured: StructuredDocstring
+  created_at: string
+}
+
+let database: Promise<IDBDatabase> | undefined
+
+function openDatabase(): Promise<IDBDatabase> {
+  database ??= new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, 1)
+    request.onupgradeneeded = () => {
+      request.result
+        .createObjectStore(STORE, { keyPath: 'key' })
+        .createIndex('created_at', 'created_at')
+    }
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+  return database
+}
+
+function completion(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve()
+    transaction.onerror = () => reject(transaction.error)
+  })
+}
+
+const requestedGenerator = (request: GenerateDocstringRequest) =>
+  `${request.provider ?? ''}/${request.model ?? ''}`
+
+function loadGenerators(): Record<string, string> {
+  return JSON.parse(localStorage.getItem(GENERATORS_KEY) || '{}')
+}
+
+/** The cache key of each requested declaration, for documentation written by `generator` */
+async function requestKeys(
+  request: GenerateDocstringRequest,
+  generator: string
+): Promise<string[]> {
+  const format = getFormatOption(getLanguageDefinition(request.language)!, request.format).id
+  return Promise.all(
+    request.functions.map(
+      async (func) => `${await computeCacheKey(func, request.language, format)}:${generator}`
+    )
+  )
+}
+
+/**
+ * Cached documentation for each requested declaration, in request order. Only what the model
+ * that last answered this request's provider and model override wrote is reused.
+ */
+export async function readLocalCache(
+  request: GenerateDocstringRequest
+): Promise<Array<StructuredDocstring | undefined>> {
+  try {
+    const generator = loadGenerators()[requestedGenerator(request)]
+    if (!generator) return request.functions.map(() => undefined)
+    const keys = await requestKeys(request, generator)
+    const store = (await openDatabase()).transaction(STORE).objectStore(STORE)
+    return await Promise.all(
+      keys.map(
+        (key) =>
+          new Promise<StructuredDocstring | undefined>((resolve, reject) => {
+            const lookup = store.get(key)
+            lookup.onsuccess = () => resolve((lookup.result as CacheRecord | undefined)?.structured)
+            lookup.onerror = () => reject(lookup.error)
+          })
+      )
+    )
+  } catch (err) {
+    // Without IndexedDB, as in some private windows, everything is generated
+    console.error('Failed to read the docstring cache:', err)
+    return request.functions.map(() => undefined)
+  }
+}
+
+/**
+ * Keeps generated documentation under the provider and model that `served` reports. Without
+ * one, as when a stream is cancelled before it ends, the last reported model is assumed.
+ */
+export async function writeLocalCache(
+  request: GenerateDocstringRequest,
+  entries: Array<{ name: string; qualifiedName?: string; structured: StructuredDocstring }>,
+  served: Pick<GenerateDocstringResponse, 'provider' | 'model'>
+) {
+  try {
+    const generators = loadGenerators()
+    const requested = requestedGenerator(request)
+    if (served.provider) {
+      generators[requested] = `${served.provider}/${served.model ?? ''}`
+      localStorage.setItem(GENERATORS_KEY, JSON.stringify(generators))
+    }
+    const generator = generators[requested]
+    if (entries.length === 0 || !generator) return
+    const keys = await requestKeys(request, generator)
+    const names = request.functions.map((func) => func.qualifiedName ?? func.name)
+    const transaction = (await openDatabase()).transaction(STORE, 'readwrite')
+    const store = transaction.objectStore(STORE)
+    const created_at = new Date().toISOString()
+    for (const entry of entries) {
+      const index = names.indexOf(entry.qualifiedName ?? entry.name)
+      if (index < 0) continue
+      store.put({
+        key: keys[index],
+        structured: entry.structured,
+        created_at,
+      } satisfies CacheRecord)
+    }
+
+    const count = store.count()
+    count.onsuccess = () => {
+      let excess = count.result - MAX_ENTRIES
+      if (excess <= 0) return
+      const cursor = store.index('created_at').openCursor()
+      cursor.onsuccess = () => {
+        if (!cursor.result || excess-- <= 0) return
+        cursor.result.delete()
+        cursor.result.continue()
+      }
+    }
+    await completion(transaction)
+  } catch (err) {
+    console.error('Failed to update the docstring cache:', err)
+  }
+}
@@ -17,6 +17,8 @@ export type Database = {
           language: string
           content_before: string
           content_after: string
+          documented_symbols: string[]
+          batch_id: string | null
           created_at: string
         }
         Insert: {
@@ -26,6 +28,8 @@ export type Database = {
           language: string
           content_before: string
           content_after: string
+          documented_symbols?: string[]
+          batch_id?: string | null
           created_at?: string
         }
         Update: {
@@ -35,6 +39,53 @@ export type Database = {
           language?: string
           content_before?: string
           content_after?: string
+          documented_symbols?: string[]
+          batch_id?: string | null
+          created_at?: string
+        }
+        Relationships: []
+      }
+      docgen_batches: {
+        Row: {
+          id: string
+          user_id: string
+          name: string
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          name: string
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          name?: string
+          created_at?: string
+        }
+        Relationships: []
+      }
+      docstring_cache: {
+        Row: {
+          key: string
+          generator: string
+          language: string
+          structured: Json
+          created_at: string
+        }
+        Insert: {
+          key: string
+          generator: string
+          language: string
+          structured: Json
+          created_at?: string
+        }
+        Update: {
+          key?: string
+          generator?: string
+          language?: string
+          structured?: Json
           created_at?: string
         }
         Relationships: []
@@ -1,31 +1,179 @@
+import type { DocstringFormat, LanguageDefinition, LanguageId } from '@shared/languages.ts'
+import type { StructuredDocstring } from '@shared/docstringSchema.ts'
+
+export type ParameterKind =
+  | 'positional'
+  | 'positional-only'
+  | 'keyword-only'
+  | 'variadic'
+  | 'variadic-keyword'
+  | 'destructured'
+
+export interface ParameterInfo {
+  /** Bare name without `*`, `**` or `...`; destructured patterns keep their braces */
+  name: string
+  type?: string
+  defaultValue?: string
+  kind: ParameterKind
+  /** TypeScript `name?: T` parameters */
+  optional?: boolean
+}
+
+/** State a class exposes, listed in the class documentation */
+export interface AttributeInfo {
+  name: string
+  type?: string
+  /** Default or initial value as written in the source */
+  defaultValue?: string
+  /** Declared in the class body, assigned in the constructor, or computed by a property */
+  kind: 'field' | 'instance' | 'property'
+  /** `readonly` fields and properties without a setter */
+  readonly?: boolean
+}
+
+/** Facts extracted from a function body to ground the generated documentation */
+export interface BodyAnalysis {
+  isAsync: boolean
+  returnsValue: boolean
+  yields: boolean
+  awaits: boolean
+  /** Exception types raised or thrown directly in the body */
+  raises: string[]
+  /** Attributes of `self`/`this` that are assigned or mutated in place */
+  mutates: string[]
+}
+
+/** What a module-level entry knows about its file */
+export interface ModuleSummary {
+  /** Imported module names, in source order */
+  imports: string[]
+  /** Top-level declarations, with the first line of any existing documentation */
+  symbols: Array<{ name: string; type: FunctionMetadata['type']; summary?: string }>
+}
+
 export interface FunctionMetadata {
   name: string
-  params: string[]
+  /** Dotted path through enclosing classes and functions, e.g. `Cart.add_item` */
+  qualifiedName: string
+  /** Qualified name of the enclosing class or function */
+  parent?: string
+  params: ParameterInfo[]
+  returnType?: string
   body: string
   startLine: number
   endLine: number
-  type: 'function' | 'class' | 'method'
+  type: 'function' | 'class' | 'method' | 'property' | 'interface' | 'type' | 'enum' | 'module'
   docstring?: string
+  /** Bodiless overload signatures preceding the implementation (TypeScript) */
+  overloads?: string[]
+  decorators?: string[]
+  analysis?: BodyAnalysis
+  /** Attributes of a class, including its properties */
+  attributes?: AttributeInfo[]
+  /** Set on the entry for the file as a whole */
+  module?: ModuleSummary
+  bodyStartLine?: number
+  /** Set when the body starts on the declaration's line, as in `def f(): return x` */
+  bodyStartColumn?: number
+  docstringStartLine?: number
+  docstringEndLine?: number
 }
 
+/** Model backends the edge function can use */
+export type ModelProvider = 'gemini' | 'openai' | 'ollama' | 'mock'
+
 export interface GenerateDocstringRequest {
-  language: 'python' | 'javascript'
+  language: Language
   functions: Array<{
     name: string
-    params: string[]
+    qualifiedName?: string
+    parent?: string
+    params: ParameterInfo[]
+    returnType?: string
+    overloads?: string[]
+    analysis?: BodyAnalysis
+    attributes?: AttributeInfo[]
+    module?: ModuleSummary
     body: string
     type?: string
+    /** Extra guidance from the user, such as "mention it is thread-safe" */
+    hint?: string
   }>
-  format?: 'google' | 'numpy' | 'sphinx' | 'jsdoc'
+  format?: DocstringFormat
+  /** Declarations documented per prompt, up to 10; one at a time when unset */
+  batchSize?: number
+  /** Overrides the provider and model configured for the edge function */
+  provider?: ModelProvider
+  model?: string
+  /** Generates every declaration again instead of reusing cached documentation */
+  force?: boolean
+}
+
+/** A declaration the edge function could not document, and why */
+export interface DocstringFailure {
+  name: string
+  qualifiedName?: string
+  error: string
 }
 
 export interface GenerateDocstringResponse {
   docstrings: Array<{
     name: string
+    qualifiedName?: string
+    /** `structured` rendered in the requested format */
     docstring: string
+    structured: StructuredDocstring
+    /** Set when the documentation was reused from an earlier run rather than generated */
+    cached?: boolean
   }>
+  /** The rest of the request succeeds when some declarations fail */
+  failures?: DocstringFailure[]
+  /** The provider and model that answered */
+  provider?: ModelProvider
+  model?: string
 }
 
+/** Where a declaration stands while its documentation is being generated */
+export type GenerationStatus = 'pending' | 'done' | 'failed'
+
+/** Called during a streamed generation as the edge function finishes each declaration */
+export interface GenerationHandlers {
+  onDocstring?: (docstring: GenerateDocstringResponse['docstrings'][number]) => void
+  onFailure?: (failure: DocstringFailure) => void
+  onProgress?: (completed: number, total: number) => void
+}
+
+export type ReviewStatus = 'pending' | 'accepted' | 'rejected'
+
+/** A generated docstring awaiting review before it is inserted */
+export type DocstringReview = GenerateDocstringResponse['docstrings'][number] & {
+  qualifiedName: string
+  status: ReviewStatus
+  /** Set once the text has been edited by hand, so it no longer matches `structured` */
+  edited?: boolean
+}
+
+export interface InsertOptions {
+  /**
+   * `replace` rewrites existing documentation; `merge` keeps it, regenerating only the
+   * parameter and return sections that no longer match the signature
+   */
+  mode?: 'replace' | 'merge'
+}
+
+/** Parsing and insertion for one language, on top of its shared definition */
+export interface LanguageAdapter extends LanguageDefinition {
+  parse(code: string): FunctionMetadata[]
+  insert(
+    code: string,
+    docstrings: GenerateDocstringResponse['docstrings'],
+    options?: InsertOptions
+  ): string
+}
+
+/** Which declarations start out selected for documentation when a file is opened */
+export type SelectionPolicy = 'all' | 'undocumented' | 'outdated'
+
 export interface DocgenHistory {
   id: string
   user_id: string
@@ -33,8 +181,32 @@ export interface DocgenHistory {
   language: string
   content_before: string
   content_after: string
+  /** Qualified names of the declarations whose documentation changed */
+  documented_symbols?: string[]
+  /** Set on the per-file entries of a project run */
+  batch_id?: string | null
   created_at: string
 }
 
-export type Language = 'python' | 'javascript'
-export type DocstringFormat = 'google' | 'numpy' | 'sphinx' | 'jsdoc'
+/** A project run, whose files each have a `DocgenHistory` entry */
+export interface DocgenBatch {
+  id: string
+  user_id: string
+  name: string
+  created_at: string
+}
+
+/** A file of a project, with its path inside the project */
+export interface ProjectFile {
+  path: string
+  language: Language
+  code: string
+  /** The code with generated documentation, once it has some */
+  modifiedCode?: string
+  functions: FunctionMetadata[]
+  documentedSymbols?: string[]
+}
+
+export type Language = LanguageId
+export type { DocstringFormat }
+export type { DocItem, DocValue, StructuredDocstring } from '@shared/docstringSchema.ts'
@@ -0,0 +1,286 @@
+import { BodyAnalysis } from '@/types'
+import { PythonToken } from '@/utils/pythonTokenizer'
+
+const MUTATING_METHODS = new Set([
+  'append', 'extend', 'insert', 'remove', 'pop', 'clear', 'update', 'add', 'discard',
+  'setdefault', 'sort', 'reverse', 'push', 'unshift', 'shift', 'splice', 'set', 'delete',
+])
+
+const ASSIGNMENT_OPERATORS = new Set([
+  '=', '+=', '-=', '*=', '/=', '//=', '%=', '**=', '@=', '&=', '|=', '^=', '>>=', '<<=',
+])
+
+function unique(values: string[]): string[] {
+  return [...new Set(values)]
+}
+
+/**
+ * Collects facts about a Python function body from its tokens. Nested function and class
+ * bodies are skipped so that, for instance, a `return` inside a closure does not count.
+ */
+export function analyzePythonBody(
+  tokens: PythonToken[],
+  start: number,
+  end: number,
+  isAsync: boolean
+): BodyAnalysis {
+  const analysis: BodyAnalysis = {
+    isAsync,
+    returnsValue: false,
+    yields: false,
+    awaits: false,
+    raises: [],
+    mutates: [],
+  }
+
+  const readDottedName = (from: number): [string, number] => {
+    let name = ''
+    let i = from
+    while (tokens[i]?.type === 'name' || (tokens[i]?.type === 'op' && tokens[i].value === '.')) {
+      name += tokens[i].value
+      i++
+    }
+    return [name, i]
+  }
+
+  let level = 0
+  let skipLevel: number | null = null
+  let handled: string[] = []
+
+  for (let i = start; i < end; i++) {
+    const token = tokens[i]
+    if (token.type === 'indent') {
+      level++
+      continue
+    }
+    if (token.type === 'dedent') {
+      level--
+      if (skipLevel !== null && level <= skipLevel) skipLevel = null
+      continue
+    }
+    if (skipLevel !== null || token.type !== 'name') continue
+
+    switch (token.value) {
+      case 'def':
+      case 'class': {
+        // Nested definitions get their own analysis
+        let j = i
+        let depth = 0
+        while (j < end && !(depth === 0 && tokens[j].value === ':' && tokens[j].type === 'op')) {
+          if (tokens[j].type === 'op' && '([{'.includes(tokens[j].value)) depth++
+          if (tokens[j].type === 'op' && ')]}'.includes(tokens[j].value)) depth--
+          j++
+        }
+        while (tokens[j + 1]?.type === 'comment') j++
+        if (tokens[j + 1]?.type === 'newline') {
+          skipLevel = level
+        } else {
+          while (j < end && tokens[j].type !== 'newline') j++
+        }
+        i = j
+        break
+      }
+      case 'return': {
+        const next = tokens[i + 1]
+        const bare =
+          !next ||
+          next.type === 'newline' ||
+          next.type === 'comment' ||
+          (next.type === 'op' && next.value === ';') ||
+          (next.type === 'name' && next.value === 'None' && tokens[i + 2]?.type === 'newline')
+        if (!bare) analysis.returnsValue = true
+        break
+      }
+      case 'yield':
+        analysis.yields = true
+        break
+      case 'await':
+        analysis.awaits = true
+        break
+      case 'async':
+        // `async for` and `async with` await implicitly
+        if (tokens[i + 1]?.value === 'for' || tokens[i + 1]?.value === 'with') {
+          analysis.awaits = true
+        }
+        break
+      case 'except': {
+        handled = []
+        let j = i + 1
+        while (j < end && tokens[j].value !== ':' && tokens[j].value !== 'as') {
+          if (tokens[j].type === 'name') {
+            const [name, next] = readDottedName(j)
+            handled.push(name)
+            j = next
+          } else {
+            j++
+          }
+        }
+        break
+      }
+      case 'raise': {
+        const [name] = readDottedName(i + 1)
+        if (name) {
+          analysis.raises.push(name)
+        } else {
+          // A bare `raise` re-raises whatever the enclosing handler caught
+          analysis.raises.push(...handled)
+        }
+        break
+      }
+      case 'self':
+      case 'cls': {
+        if (tokens[i + 1]?.value !== '.' || tokens[i + 2]?.type !== 'name') break
+        const attribute = `${token.value}.${tokens[i + 2].value}`
+        const after = tokens[i + 3]
+        if (after?.type === 'op' && ASSIGNMENT_OPERATORS.has(after.value)) {
+          analysis.mutates.push(attribute)
+        } else if (after?.value === '[') {
+          // `self.items[key] = value`
+          let depth = 0
+          let j = i + 3
+          for (; j < end; j++) {
+            if (tokens[j].value === '[') depth++
+            if (tokens[j].value === ']') depth--
+            if (depth === 0) break
+          }
+          if (ASSIGNMENT_OPERATORS.has(tokens[j + 1]?.value)) analysis.mutates.push(attribute)
+        } else if (
+          after?.value === '.' &&
+          MUTATING_METHODS.has(tokens[i + 4]?.value) &&
+          tokens[i + 5]?.value === '('
+        ) {
+          analysis.mutates.push(attribute)
+        }
+        break
+      }
+    }
+  }
+
+  analysis.raises = unique(analysis.raises)
+  analysis.mutates = unique(analysis.mutates)
+  return analysis
+}
+
+/**
+ * Blanks out the bodies of nested functions, which have their own returns and throws.
+ * `opener` must match up to and including the opening brace of a nested body.
+ */
+function blankNestedFunctions(body: string, opener = /(?:\bfunction\b[^{;]*|=>\s*)\{/g): string {
+  let result = body
+  let match: RegExpExecArray | null
+  while ((match = opener.exec(result))) {
+    const open = match.index + match[0].length - 1
+    let depth = 0
+    let close = open
+    for (; close < result.length; close++) {
+      if (result[close] === '{') depth++
+      if (result[close] === '}' && --depth === 0) break
+    }
+    const inner = result.slice(open + 1, close).replace(/[^\n]/g, ' ')
+    result = result.slice(0, open + 1) + inner + result.slice(close)
+    opener.lastIndex = close
+  }
+  return result
+}
+
+/**
+ * Collects facts about a JavaScript or TypeScript function body. `maskedBody` must have its
+ * comments and literals blanked out, as produced by `lexJavaScript`.
+ */
+export function analyzeJavaScriptBody(maskedBody: string, isAsync: boolean): BodyAnalysis {
+  const text = blankNestedFunctions(maskedBody)
+
+  const raises = [...text.matchAll(/\bthrow\s+new\s+([\w$.]+)/g)].map((m) => m[1])
+  const assignment =
+    /\bthis\.(#?[\w$]+)\s*(?:\[[^\]]*\]\s*)?(?:[-+*/%&|^]|\*\*|<<|>>>?|&&|\|\||\?\?)?=(?!=)/g
+  const mutates = [
+    ...[...text.matchAll(assignment)].map((m) => m[1]),
+    ...[...text.matchAll(/\bthis\.(#?[\w$]+)\s*(?:\+\+|--)/g)].map((m) => m[1]),
+    ...[...text.matchAll(/(?:\+\+|--)\s*this\.(#?[\w$]+)/g)].map((m) => m[1]),
+    ...[...text.matchAll(/\bthis\.(#?[\w$]+)\.([\w$]+)\s*\(/g)]
+      .filter((m) => MUTATING_METHODS.has(m[2]))
+      .map((m) => m[1]),
+  ]
+
+  return {
+    isAsync,
+    returnsValue: /\breturn\b(?![ \t]*(?:;|}|$))/m.test(text),
+    yields: /\byield\b/.test(text),
+    awaits: /\bawait\b/.test(text),
+    raises: unique(raises),
+    mutates: unique(mutates.map((name) => `this.${name}`)),
+  }
+}
+
+/** Collects facts about a Kotlin function body, which must be masked like a JavaScript one */
+export function analyzeKotlinBody(maskedBody: string, isSuspend: boolean): BodyAnalysis {
+  // Labelled returns (`return@forEach`) leave a lambda, not the function
+  const text = maskedBody.replace(/\breturn@[\w$]+/g, (match) => ' '.repeat(match.length))
+  const analysis = analyzeJavaScriptBody(text, isSuspend)
+  // Kotlin throws without `new`: `throw IllegalStateException("...")`
+  const raises = [...text.matchAll(/\bthrow\s+([\w$.]+)\s*\(/g)].map((m) => m[1])
+  analysis.raises = unique([...analysis.raises, ...raises])
+  return analysis
+}
+
+/** Finds fields of `receiver` that are assigned, incremented or changed by a mutating call */
+function receiverMutations(text: string, receiver: string): string[] {
+  const assignment = new RegExp(
+    `\\b${receiver}\\.([\\w$]+)\\s*(?:\\[[^\\]]*\\]\\s*)?(?:[-+*/%&|^]|<<|>>|&\\^)?=(?!=)`,
+    'g'
+  )
+  const call = new RegExp(`\\b${receiver}\\.([\\w$]+)\\.([\\w$]+)\\s*\\(`, 'g')
+  const increment = new RegExp(`\\b${receiver}\\.([\\w$]+)\\s*(?:\\+\\+|--)`, 'g')
+  return unique([
+    ...[...text.matchAll(assignment)].map((m) => m[1]),
+    ...[...text.matchAll(increment)].map((m) => m[1]),
+    ...[...text.matchAll(call)].filter((m) => MUTATING_METHODS.has(m[2])).map((m) => m[1]),
+  ]).map((field) => `${receiver}.${field}`)
+}
+
+/**
+ * Collects facts about a masked Go function body. Go has no exceptions, so `raises` lists
+ * `panic` when the body panics directly.
+ */
+export function analyzeGoBody(
+  maskedBody: string,
+  receiver: string | undefined,
+  hasResults: boolean
+): BodyAnalysis {
+  const text = blankNestedFunctions(maskedBody, /\bfunc\b[^{]*\{/g)
+  return {
+    isAsync: false,
+    returnsValue: hasResults,
+    yields: false,
+    awaits: false,
+    raises: /\bpanic\s*\(/.test(text) ? ['panic'] : [],
+    mutates: receiver ? receiverMutations(text, receiver) : [],
+  }
+}
+
+const RUST_PANICS = [
+  'panic!', 'unreachable!', 'todo!', 'unimplemented!', 'assert!', 'assert_eq!', 'assert_ne!',
+]
+
+/**
+ * Collects facts about a masked Rust function body. `raises` lists the ways the body can
+ * panic directly: panicking macros and `unwrap()`/`expect()` calls.
+ */
+export function analyzeRustBody(
+  maskedBody: string,
+  isAsync: boolean,
+  returnType: string | undefined
+): BodyAnalysis {
+  const text = blankNestedFunctions(maskedBody, /\bfn\b[^{;]*\{/g)
+  const raises = RUST_PANICS.filter((mac) => new RegExp(`\\b${mac}`).test(text))
+  if (/\.unwrap\s*\(\s*\)/.test(text)) raises.push('unwrap()')
+  if (/\.expect\s*\(/.test(text)) raises.push('expect()')
+  return {
+    isAsync,
+    returnsValue: !!returnType && returnType.replace(/\s/g, '') !== '()',
+    yields: false,
+    awaits: /\.await\b/.test(text),
+    raises,
+    mutates: receiverMutations(text, 'self'),
+  }
+}
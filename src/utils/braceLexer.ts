@@ -0,0 +1,374 @@
+export type BraceSpanKind = 'comment' | 'string' | 'char'
+
+export interface BraceSpan {
+  kind: BraceSpanKind
+  /** Offset of the first character, including delimiters */
+  start: number
+  /** Offset one past the last character, including delimiters */
+  end: number
+}
+
+export interface BraceLexOptions {
+  /** Kotlin and Rust block comments nest */
+  nestedComments?: boolean
+  /** `"""..."""` text blocks (Java) and raw strings (Kotlin) */
+  tripleQuotedStrings?: boolean
+  /** Kotlin `${...}` templates, whose expressions may contain further strings */
+  stringTemplates?: boolean
+  /** Rust strings may span lines */
+  multilineStrings?: boolean
+  /** Go raw strings in backticks */
+  backtickStrings?: boolean
+  /** Rust raw and byte strings: `r"..."`, `r#"..."#`, `b"..."`, `br"..."` */
+  rawStrings?: boolean
+}
+
+export interface BraceLexResult {
+  /**
+   * The source with the contents of comments, strings and character literals replaced by
+   * spaces. Offsets and line breaks are preserved.
+   */
+  masked: string
+  /** Comment and literal spans in source order */
+  spans: BraceSpan[]
+}
+
+const RAW_STRING_START = /b?(r)(#*)"|b"/y
+const CHAR_LITERAL = /'(?:\\(?:u[0-9a-fA-F]{4}|u\{[0-9a-fA-F]+\}|.)|[^'\\\n])'/y
+
+/** Scans the source of a C-family language for comments and literals */
+export function lexBraceLanguage(code: string, options: BraceLexOptions = {}): BraceLexResult {
+  const spans: BraceSpan[] = []
+  const masked = code.split('')
+  const mask = (start: number, end: number) => {
+    for (let i = start; i < end; i++) {
+      if (masked[i] !== '\n' && masked[i] !== '\r') masked[i] = ' '
+    }
+  }
+
+  // Returns the offset just past a string starting at `start`
+  const readString = (start: number): number => {
+    const triple = options.tripleQuotedStrings && code.startsWith('"""', start)
+    let j = start + (triple ? 3 : 1)
+    while (j < code.length) {
+      if (triple ? code.startsWith('"""', j) : code[j] === '"') {
+        // Raw strings may end in extra quotes: `""""` closes after the content quote
+        if (triple) {
+          j += 3
+          while (code[j] === '"') j++
+          return j
+        }
+        return j + 1
+      }
+      if (!triple && code[j] === '\n' && !options.multilineStrings) return j
+      if (code[j] === '\\' && !(triple && options.stringTemplates)) {
+        j += 2
+        continue
+      }
+      if (options.stringTemplates && code.startsWith('${', j)) {
+        j = readTemplateExpression(j + 2)
+        continue
+      }
+      j++
+    }
+    return code.length
+  }
+
+  // Skips a `${...}` expression, including any strings nested inside it
+  const readTemplateExpression = (start: number): number => {
+    let depth = 0
+    let j = start
+    while (j < code.length) {
+      const ch = code[j]
+      if (ch === '"') {
+        j = readString(j)
+        continue
+      }
+      if (ch === '{') depth++
+      if (ch === '}') {
+        if (depth === 0) return j + 1
+        depth--
+      }
+      j++
+    }
+    return code.length
+  }
+
+  let i = 0
+  while (i < code.length) {
+    const ch = code[i]
+    const next = code[i + 1]
+
+    if (ch === '/' && next === '/') {
+      let end = code.indexOf('\n', i)
+      if (end === -1) end = code.length
+      spans.push({ kind: 'comment', start: i, end })
+      mask(i, end)
+      i = end
+      continue
+    }
+
+    if (ch === '/' && next === '*') {
+      let depth = 0
+      let j = i
+      while (j < code.length) {
+        if (code.startsWith('/*', j)) {
+          depth++
+          j += 2
+        } else if (code.startsWith('*/', j)) {
+          j += 2
+          if (--depth === 0 || !options.nestedComments) break
+        } else {
+          j++
+        }
+      }
+      spans.push({ kind: 'comment', start: i, end: j })
+      mask(i, j)
+      i = j
+      continue
+    }
+
+    if (options.rawStrings && /[rb]/.test(ch) && !/[\w$]/.test(code[i - 1] || '')) {
+      RAW_STRING_START.lastIndex = i
+      const raw = RAW_STRING_START.exec(code)
+      if (raw) {
+        const hashes = raw[2] ?? ''
+        const contentStart = i + raw[0].length
+        let end: number
+        if (raw[1]) {
+          // Raw strings have no escapes and end at a quote followed by the same hashes
+          const close = code.indexOf(`"${hashes}`, contentStart)
+          end = close === -1 ? code.length : close + 1 + hashes.length
+        } else {
+          end = readString(contentStart - 1)
+        }
+        spans.push({ kind: 'string', start: i, end })
+        mask(contentStart, end - 1 - hashes.length)
+        i = end
+        continue
+      }
+    }
+
+    if (options.backtickStrings && ch === '`') {
+      const close = code.indexOf('`', i + 1)
+      const end = close === -1 ? code.length : close + 1
+      spans.push({ kind: 'string', start: i, end })
+      mask(i + 1, end - 1)
+      i = end
+      continue
+    }
+
+    if (ch === '"') {
+      const end = readString(i)
+      spans.push({ kind: 'string', start: i, end })
+      mask(i + 1, end - 1)
+      i = end
+      continue
+    }
+
+    if (ch === "'") {
+      // A quote that does not close a one-character literal is left alone
+      CHAR_LITERAL.lastIndex = i
+      const literal = CHAR_LITERAL.exec(code)
+      if (literal) {
+        const end = i + literal[0].length
+        spans.push({ kind: 'char', start: i, end })
+        mask(i + 1, end - 1)
+        i = end
+        continue
+      }
+    }
+
+    i++
+  }
+
+  return { masked: masked.join(''), spans }
+}
+
+/** Lexed source with a line index over the masked text */
+export interface BraceSource {
+  code: string
+  masked: string
+  /** Lines of `masked` */
+  lines: string[]
+  lineStarts: number[]
+  spans: BraceSpan[]
+}
+
+export function createBraceSource(code: string, options: BraceLexOptions = {}): BraceSource {
+  const { masked, spans } = lexBraceLanguage(code, options)
+  const lines = masked.split('\n')
+  const lineStarts: number[] = []
+  let offset = 0
+  for (const line of lines) {
+    lineStarts.push(offset)
+    offset += line.length + 1
+  }
+  return { code, masked, lines, lineStarts, spans }
+}
+
+export function lineAt(src: { lineStarts: number[] }, offset: number): number {
+  let lo = 0
+  let hi = src.lineStarts.length - 1
+  while (lo < hi) {
+    const mid = (lo + hi + 1) >> 1
+    if (src.lineStarts[mid] <= offset) lo = mid
+    else hi = mid - 1
+  }
+  return lo
+}
+
+export function skipWhitespace(text: string, offset: number): number {
+  while (offset < text.length && /\s/.test(text[offset])) offset++
+  return offset
+}
+
+/** Returns the offset of the bracket closing the one at `open` in masked source */
+export function findMatchingBrace(masked: string, open: number): number {
+  let depth = 0
+  for (let i = open; i < masked.length; i++) {
+    const ch = masked[i]
+    if (ch === '(' || ch === '[' || ch === '{') depth++
+    if (ch === ')' || ch === ']' || ch === '}') {
+      depth--
+      if (depth === 0) return i
+    }
+  }
+  return masked.length - 1
+}
+
+/**
+ * Splits masked text at top-level commas, ignoring commas inside brackets and generic
+ * `<...>` arguments. Returns `[start, end]` offsets into the text.
+ */
+export function splitTopLevel(masked: string): Array<[number, number]> {
+  const ranges: Array<[number, number]> = []
+  let depth = 0
+  let angles = 0
+  let start = 0
+  for (let i = 0; i < masked.length; i++) {
+    const ch = masked[i]
+    if ('([{'.includes(ch)) depth++
+    else if (')]}'.includes(ch)) depth--
+    else if (ch === '<' && /[\w$?]/.test(masked[i - 1] || '') && masked[i + 1] !== '=') angles++
+    else if (ch === '>' && angles > 0 && masked[i - 1] !== '-' && masked[i - 1] !== '=') angles--
+    else if (ch === ',' && depth === 0 && angles === 0) {
+      ranges.push([start, i])
+      start = i + 1
+    }
+  }
+  ranges.push([start, masked.length])
+  return ranges
+}
+
+export interface DocComment {
+  text: string
+  /**
+   * Set only when nothing precedes the comment on its first line. Code may follow it on its
+   * last line, as in `/** Doc *\/ function f() {}`.
+   */
+  startLine?: number
+  endLine?: number
+}
+
+/** Index of the last span ending at or before `offset`, or -1 */
+function lastSpanBefore(spans: Array<{ end: number }>, offset: number): number {
+  let lo = 0
+  let hi = spans.length - 1
+  let candidate = -1
+  while (lo <= hi) {
+    const mid = (lo + hi) >> 1
+    if (spans[mid].end <= offset) {
+      candidate = mid
+      lo = mid + 1
+    } else {
+      hi = mid - 1
+    }
+  }
+  return candidate
+}
+
+/**
+ * Offset of the code on the line starting at `lineStart`, past any comments in front of it,
+ * so that `/** Doc *\/ function f() {}` finds its doc comment.
+ */
+export function skipLeadingComments(
+  code: string,
+  spans: Array<{ kind: string; start: number; end: number }>,
+  lineStart: number
+): number {
+  let offset = lineStart
+  for (let k = lastSpanBefore(spans, offset) + 1; spans[k]?.kind === 'comment'; k++) {
+    if (!/^[ \t]*$/.test(code.slice(offset, spans[k].start))) break
+    offset = spans[k].end
+  }
+  return offset
+}
+
+/**
+ * Finds the `/** ... *\/` comment attached to code starting at `offset`: the last comment
+ * before it, with only whitespace in between. `lineOf` maps offsets to line numbers.
+ */
+export function findAttachedDocComment(
+  code: string,
+  spans: Array<{ kind: string; start: number; end: number }>,
+  offset: number,
+  lineOf: (offset: number) => number
+): DocComment | undefined {
+  const span = spans[lastSpanBefore(spans, offset)]
+  if (!span || span.kind !== 'comment' || !code.startsWith('/**', span.start)) return undefined
+  if (code.slice(span.end, offset).trim()) return undefined
+
+  const text = code
+    .slice(span.start + 3, span.end - 2)
+    .split('\n')
+    .map((l) => l.replace(/^\s*\* ?/, ''))
+    .join('\n')
+    .trim()
+  const startLine = lineOf(span.start)
+  const lineStart = code.lastIndexOf('\n', span.start - 1) + 1
+  const ownsLines = !code.slice(lineStart, span.start).trim()
+  return {
+    text,
+    startLine: ownsLines ? startLine : undefined,
+    endLine: ownsLines ? lineOf(span.end - 1) : undefined,
+  }
+}
+
+/**
+ * Finds the run of line comments starting with `prefix` (`//` in Go, `///` in Rust) that
+ * ends on the line before `offset`, with no blank lines in between.
+ */
+export function findAttachedLineDocComment(
+  code: string,
+  spans: Array<{ kind: string; start: number; end: number }>,
+  offset: number,
+  prefix: string,
+  lineOf: (offset: number) => number
+): DocComment | undefined {
+  let k = lastSpanBefore(spans, offset)
+
+  const lines: string[] = []
+  let first: number | undefined
+  let last: number | undefined
+  let next = offset
+  for (; k >= 0; k--) {
+    const span = spans[k]
+    const text = code.slice(span.start, span.end)
+    // `////` is an ordinary comment in Rust, as is `//!` (which documents the parent)
+    if (span.kind !== 'comment' || !text.startsWith(prefix) || text[prefix.length] === '/') break
+    if (prefix === '///' && text[prefix.length] === '!') break
+    const between = code.slice(span.end, next)
+    if (between.trim() || (between.match(/\n/g)?.length ?? 0) > 1) break
+    const lineStart = code.lastIndexOf('\n', span.start - 1) + 1
+    if (code.slice(lineStart, span.start).trim()) break
+
+    lines.unshift(text.slice(prefix.length).replace(/^ /, '').trimEnd())
+    first = lineOf(span.start)
+    last ??= lineOf(span.start)
+    next = lineStart
+  }
+
+  if (first === undefined) return undefined
+  return { text: lines.join('\n').trim(), startLine: first, endLine: last }
+}
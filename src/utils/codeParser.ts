@@ -1,354 +1,1511 @@
-import { FunctionMetadata } from '@/types'
+import {
+  AttributeInfo,
+  BodyAnalysis,
+  FunctionMetadata,
+  ParameterInfo,
+  ParameterKind,
+} from '@/types'
+import { tokenizePython, PythonToken } from '@/utils/pythonTokenizer'
+import { analyzePythonBody, analyzeJavaScriptBody } from '@/utils/bodyAnalysis'
+import { lexJavaScript, JsSpan } from '@/utils/javascriptLexer'
+import { DocComment, findAttachedDocComment, skipLeadingComments } from '@/utils/braceLexer'
 
-export function parsePythonCode(code: string): FunctionMetadata[] {
-  const functions: FunctionMetadata[] = []
-  const lines = code.split('\n')
-  
-  // Regex patterns
-  const funcPattern = /^\s*(async\s+)?def\s+(\w+)\s*\((.*?)\)\s*:/
-  const classPattern = /^\s*class\s+(\w+)(\(.*?\))?\s*:/
-  const docstringPattern = /^\s*"""([\s\S]*?)"""/m
-  
-  let i = 0
-  while (i < lines.length) {
-    const line = lines[i]
-    
-    // Check for function definition
-    const funcMatch = line.match(funcPattern)
-    if (funcMatch) {
-      const name = funcMatch[2]
-      const paramsStr = funcMatch[3]
-      const params = paramsStr
-        .split(',')
-        .map(p => p.trim().split('=')[0].split(':')[0].trim())
-        .filter(p => p && p !== 'self')
-      
-      const startLine = i
-      let endLine = i + 1
-      let indent = line.search(/\S/)
-      let body = ''
-      
-      // Extract function body
-      while (endLine < lines.length) {
-        const nextLine = lines[endLine]
-        const nextIndent = nextLine.search(/\S/)
-        
-        if (nextLine.trim() && nextIndent <= indent) {
-          break
-        }
-        body += nextLine + '\n'
-        endLine++
-      }
-      
-      // Check for existing docstring
-      const docstringMatch = body.match(docstringPattern)
-      const docstring = docstringMatch ? docstringMatch[1].trim() : undefined
-      
-      functions.push({
-        name,
-        params,
-        body: body.trim(),
-        startLine,
-        endLine: endLine - 1,
-        type: 'function',
-        docstring
-      })
-      
-      i = endLine
+const PYTHON_TRIVIA = new Set(['nl', 'comment'])
+const PYTHON_PROPERTY = /^(?:functools\.)?(?:cached_)?property$/
+
+function skipPythonTrivia(tokens: PythonToken[], index: number): number {
+  while (index < tokens.length && PYTHON_TRIVIA.has(tokens[index].type)) index++
+  return index
+}
+
+function findClosingBracket(tokens: PythonToken[], openIndex: number): number {
+  let depth = 0
+  for (let i = openIndex; i < tokens.length; i++) {
+    const token = tokens[i]
+    if (token.type !== 'op') continue
+    if ('([{'.includes(token.value)) depth++
+    if (')]}'.includes(token.value)) {
+      depth--
+      if (depth === 0) return i
+    }
+  }
+  return tokens.length - 1
+}
+
+function stringLiteralValue(raw: string): string {
+  const match = raw.match(/^[rRbBuUfF]*('''|"""|'|")/)
+  if (!match) return raw
+  const quote = match[1]
+  const value = raw.slice(match[0].length)
+  return value.endsWith(quote) ? value.slice(0, -quote.length) : value
+}
+
+function splitPythonParams(code: string, tokens: PythonToken[]): ParameterInfo[] {
+  const groups: Array<Array<{ token: PythonToken; depth: number }>> = [[]]
+  let depth = 0
+  for (const token of tokens) {
+    if (PYTHON_TRIVIA.has(token.type)) continue
+    if (token.type === 'op' && ')]}'.includes(token.value)) depth--
+    if (depth === 0 && token.type === 'op' && token.value === ',') {
+      groups.push([])
+    } else {
+      groups[groups.length - 1].push({ token, depth })
+    }
+    if (token.type === 'op' && '([{'.includes(token.value)) depth++
+  }
+
+  const params: ParameterInfo[] = []
+  let keywordOnly = false
+  for (const group of groups) {
+    const [first, second] = group.map((g) => g.token)
+    if (!first) continue
+
+    // A bare `/` marks everything before it as positional-only
+    if (first.type === 'op' && first.value === '/') {
+      params.forEach((p) => (p.kind = 'positional-only'))
       continue
     }
-    
-    // Check for class definition
-    const classMatch = line.match(classPattern)
-    if (classMatch) {
-      const name = classMatch[1]
-      const startLine = i
-      let endLine = i + 1
-      let indent = line.search(/\S/)
-      let body = ''
-      
-      // Extract class body
-      while (endLine < lines.length) {
-        const nextLine = lines[endLine]
-        const nextIndent = nextLine.search(/\S/)
-        
-        if (nextLine.trim() && nextIndent <= indent) {
-          break
-        }
-        body += nextLine + '\n'
-        endLine++
-      }
-      
-      // Check for existing docstring
-      const docstringMatch = body.match(docstringPattern)
-      const docstring = docstringMatch ? docstringMatch[1].trim() : undefined
-      
-      functions.push({
-        name,
-        params: [],
-        body: body.trim(),
-        startLine,
-        endLine: endLine - 1,
-        type: 'class',
-        docstring
-      })
-      
-      i = endLine
+
+    let kind: ParameterKind = keywordOnly ? 'keyword-only' : 'positional'
+    let nameIndex = 0
+    if (first.type === 'op' && (first.value === '*' || first.value === '**')) {
+      if (first.value === '*') keywordOnly = true
+      if (second?.type !== 'name') continue
+      kind = first.value === '*' ? 'variadic' : 'variadic-keyword'
+      nameIndex = 1
+    } else if (first.type !== 'name') {
       continue
     }
-    
+
+    const topLevel = (value: string) =>
+      group.findIndex((g, i) => i > nameIndex && g.depth === 0 && g.token.value === value)
+    const equals = topLevel('=')
+    const colon = topLevel(':')
+    const slice = (from: number, to: number) =>
+      code.slice(group[from].token.start, group[to].token.end).trim()
+
+    const annotationEnd = equals === -1 ? group.length - 1 : equals - 1
+    const hasAnnotation = colon !== -1 && colon < annotationEnd && (equals === -1 || colon < equals)
+    const hasDefault = equals !== -1 && equals < group.length - 1
+    params.push({
+      name: group[nameIndex].token.value,
+      type: hasAnnotation ? slice(colon + 1, annotationEnd) : undefined,
+      defaultValue: hasDefault ? slice(equals + 1, group.length - 1) : undefined,
+      kind,
+    })
+  }
+  return params
+}
+
+interface PythonDefinition {
+  metadata: FunctionMetadata
+  /** Token range of an indented body, used to look for nested definitions */
+  block?: { start: number; end: number }
+  /** Index of the first token after the definition's body */
+  next: number
+}
+
+function qualify(name: string, parent?: { qualifiedName: string }): string {
+  return parent ? `${parent.qualifiedName}.${name}` : name
+}
+
+/**
+ * Keeps the first declaration of each attribute, so declared fields keep their types, and
+ * marks properties without a setter as read-only.
+ */
+function finishAttributes(
+  attributes: AttributeInfo[],
+  setters: Set<string>
+): AttributeInfo[] | undefined {
+  if (attributes.length === 0) return undefined
+  return attributes
+    .filter((attribute, index) => attributes.findIndex((a) => a.name === attribute.name) === index)
+    .map((attribute) =>
+      attribute.kind === 'property' && !setters.has(attribute.name)
+        ? { ...attribute, readonly: true }
+        : attribute
+    )
+}
+
+function readPythonDefinition(
+  code: string,
+  tokens: PythonToken[],
+  start: number,
+  parent?: FunctionMetadata
+): PythonDefinition | null {
+  let i = start
+  const decorators: string[] = []
+
+  // Decorators each occupy their own logical line
+  while (tokens[i]?.type === 'op' && tokens[i].value === '@') {
+    let end = i
+    while (end < tokens.length && tokens[end].type !== 'newline') end++
+    decorators.push(code.slice(tokens[i + 1].start, tokens[end - 1].end).trim())
+    i = skipPythonTrivia(tokens, end + 1)
+  }
+
+  const isAsync =
+    tokens[i]?.type === 'name' && tokens[i].value === 'async' && tokens[i + 1]?.value === 'def'
+  if (isAsync) i++
+  const keyword = tokens[i]
+  if (keyword?.type !== 'name' || (keyword.value !== 'def' && keyword.value !== 'class')) {
+    return null
+  }
+  const nameToken = tokens[i + 1]
+  if (nameToken?.type !== 'name') return null
+  i += 2
+
+  const isMethod = keyword.value === 'def' && parent?.type === 'class'
+  const isProperty = isMethod && decorators.some((d) => PYTHON_PROPERTY.test(d))
+  let params: ParameterInfo[] = []
+  if (tokens[i]?.type === 'op' && tokens[i].value === '(') {
+    const close = findClosingBracket(tokens, i)
+    if (keyword.value === 'def') {
+      params = splitPythonParams(code, tokens.slice(i + 1, close))
+      // Drop the implicit `self`/`cls` receiver
+      if (isMethod && !decorators.includes('staticmethod')) params = params.slice(1)
+    }
+    i = close + 1
+  } else if (keyword.value === 'def') {
+    return null
+  }
+
+  // Skip the return annotation, if any, up to the colon that opens the body
+  const arrow = tokens[i]?.type === 'op' && tokens[i].value === '->' ? i : -1
+  let depth = 0
+  while (i < tokens.length) {
+    const token = tokens[i]
+    if (token.type === 'newline' || token.type === 'endmarker') return null
+    if (token.type === 'op') {
+      if ('([{'.includes(token.value)) depth++
+      if (')]}'.includes(token.value)) depth--
+      if (depth === 0 && token.value === ':') break
+    }
     i++
   }
-  
-  return functions
+  const colon = tokens[i]
+  const returnType =
+    arrow !== -1 ? code.slice(tokens[arrow].end, colon.start).trim() || undefined : undefined
+
+  let bodyStart = i + 1
+  while (tokens[bodyStart]?.type === 'comment') bodyStart++
+  let bodyEnd: number
+  let next: number
+  let isBlock = false
+
+  if (tokens[bodyStart]?.type === 'newline') {
+    const indent = skipPythonTrivia(tokens, bodyStart + 1)
+    if (tokens[indent]?.type !== 'indent') return null
+    isBlock = true
+    bodyStart = indent + 1
+    let level = 1
+    let j = bodyStart
+    while (j < tokens.length && level > 0) {
+      if (tokens[j].type === 'indent') level++
+      if (tokens[j].type === 'dedent') level--
+      j++
+    }
+    next = j
+    bodyEnd = j - 1
+  } else {
+    let j = bodyStart
+    while (j < tokens.length && tokens[j].type !== 'newline') j++
+    next = j + 1
+    bodyEnd = j
+  }
+
+  // Last significant token of the body
+  let last = bodyEnd - 1
+  while (last > i && ['nl', 'newline', 'comment', 'indent', 'dedent'].includes(tokens[last].type)) {
+    last--
+  }
+  const lastToken = tokens[last]
+
+  let docstring: string | undefined
+  let docstringStartLine: number | undefined
+  let docstringEndLine: number | undefined
+  const first = tokens[bodyStart]
+  if (first?.type === 'string') {
+    let j = bodyStart
+    while (tokens[j + 1]?.type === 'string') j++
+    if (tokens[j + 1]?.type === 'newline') {
+      docstring = stringLiteralValue(first.value).trim()
+      // A docstring on the `def` line cannot be replaced without the code around it
+      if (isBlock) {
+        docstringStartLine = first.line
+        docstringEndLine = tokens[j].endLine
+      }
+    }
+  }
+
+  return {
+    metadata: {
+      name: nameToken.value,
+      qualifiedName: qualify(nameToken.value, parent),
+      parent: parent?.qualifiedName,
+      params,
+      returnType,
+      body: code.slice(colon.end, lastToken.end).trim(),
+      startLine: tokens[start].line,
+      endLine: lastToken.endLine,
+      type:
+        keyword.value === 'class'
+          ? 'class'
+          : isProperty
+            ? 'property'
+            : isMethod
+              ? 'method'
+              : 'function',
+      docstring,
+      decorators: decorators.length > 0 ? decorators : undefined,
+      analysis:
+        keyword.value === 'def'
+          ? analyzePythonBody(tokens, bodyStart, bodyEnd, isAsync)
+          : undefined,
+      bodyStartLine: first?.line,
+      bodyStartColumn: isBlock ? undefined : first.start - code.lastIndexOf('\n', first.start) - 1,
+      docstringStartLine,
+      docstringEndLine,
+    },
+    block: isBlock ? { start: bodyStart, end: bodyEnd } : undefined,
+    next,
+  }
 }
 
-export function parseJavaScriptCode(code: string): FunctionMetadata[] {
-  const functions: FunctionMetadata[] = []
-  const lines = code.split('\n')
-  
-  // Regex patterns
-  const funcPattern = /^\s*(export\s+)?(async\s+)?function\s+(\w+)\s*\((.*?)\)/
-  const arrowPattern = /^\s*(export\s+)?(const|let|var)\s+(\w+)\s*=\s*(async\s*)?\((.*?)\)\s*=>/
-  const classPattern = /^\s*(export\s+)?class\s+(\w+)/
-  const jsDocPattern = /\/\*\*([\s\S]*?)\*\//
-  
-  let i = 0
-  while (i < lines.length) {
-    const line = lines[i]
-    
-    // Check for function declaration
-    const funcMatch = line.match(funcPattern)
-    if (funcMatch) {
-      const name = funcMatch[3]
-      const paramsStr = funcMatch[4]
-      const params = paramsStr
-        .split(',')
-        .map(p => p.trim().split('=')[0].split(':')[0].trim())
-        .filter(p => p)
-      
-      const startLine = i
-      let endLine = i + 1
-      let braceCount = 1
-      let body = ''
-      
-      // Find opening brace if not on same line
-      while (endLine < lines.length && !lines[startLine].includes('{')) {
-        if (lines[endLine].includes('{')) break
-        endLine++
+/** Source text of the tokens in `[from, to)`, leaving out trailing comments */
+function tokenText(code: string, tokens: PythonToken[], from: number, to: number): string {
+  let last = to - 1
+  while (last >= from && PYTHON_TRIVIA.has(tokens[last].type)) last--
+  return last < from ? '' : code.slice(tokens[from].start, tokens[last].end).trim()
+}
+
+/**
+ * Finds the first and last assignment `=` of the statement at `start`, which differ in
+ * chained assignments, and the `newline` that ends it.
+ */
+function readPythonStatement(
+  tokens: PythonToken[],
+  start: number
+): { equals: number; lastEquals: number; end: number } {
+  let equals = -1
+  let lastEquals = -1
+  let depth = 0
+  let i = start
+  for (; i < tokens.length && !['newline', 'endmarker'].includes(tokens[i].type); i++) {
+    const token = tokens[i]
+    if (token.type !== 'op') continue
+    if ('([{'.includes(token.value)) depth++
+    if (')]}'.includes(token.value)) depth--
+    if (depth !== 0 || token.value !== '=') continue
+    if (equals === -1) equals = i
+    lastEquals = i
+  }
+  return { equals, lastEquals, end: i }
+}
+
+/**
+ * Reads a class-level `name: type = value` field, which is how dataclasses, `NamedTuple`s
+ * and Pydantic models declare their fields.
+ */
+function readAnnotatedField(
+  code: string,
+  tokens: PythonToken[],
+  start: number
+): AttributeInfo | undefined {
+  const [name, colon] = [tokens[start], tokens[start + 1]]
+  if (name?.type !== 'name' || colon?.type !== 'op' || colon.value !== ':') return undefined
+  if (['else', 'try', 'finally'].includes(name.value)) return undefined
+
+  const { equals, end } = readPythonStatement(tokens, start + 2)
+  return {
+    name: name.value,
+    type: tokenText(code, tokens, start + 2, equals === -1 ? end : equals) || undefined,
+    defaultValue: equals === -1 ? undefined : tokenText(code, tokens, equals + 1, end) || undefined,
+    kind: 'field',
+  }
+}
+
+/** Collects `self.x = ...` assignments from the body of `__init__` */
+function readSelfAssignments(
+  code: string,
+  tokens: PythonToken[],
+  block: { start: number; end: number },
+  params: ParameterInfo[]
+): AttributeInfo[] {
+  const attributes: AttributeInfo[] = []
+  for (let i = block.start; i < block.end; i++) {
+    const [self, dot, name] = [tokens[i], tokens[i + 1], tokens[i + 2]]
+    if (self.type !== 'name' || self.value !== 'self' || dot?.value !== '.') continue
+    if (name?.type !== 'name') continue
+    // Only assignment targets, which start a statement or follow another target's `=`
+    const previous = tokens[i - 1]
+    const startsStatement = ['newline', 'nl', 'indent', 'dedent', 'comment'].includes(
+      previous.type
+    )
+    if (!startsStatement && previous.value !== '=' && previous.value !== ';') continue
+
+    const { equals, lastEquals, end } = readPythonStatement(tokens, i + 3)
+    const annotated = tokens[i + 3]?.value === ':'
+    if (!annotated && equals !== i + 3) continue
+    const type = annotated
+      ? tokenText(code, tokens, i + 4, equals === -1 ? end : equals) || undefined
+      : undefined
+    const value = equals === -1 ? '' : tokenText(code, tokens, lastEquals + 1, end)
+    // `self.name = name` takes the parameter's declared type
+    const param = params.find((p) => p.name === value)
+    attributes.push({
+      name: name.value,
+      type: type ?? param?.type,
+      defaultValue: param ? undefined : value || undefined,
+      kind: 'instance',
+    })
+  }
+  return attributes
+}
+
+function parsePythonBlock(
+  code: string,
+  tokens: PythonToken[],
+  start: number,
+  end: number,
+  parent: FunctionMetadata | undefined,
+  functions: FunctionMetadata[]
+) {
+  const isClass = parent?.type === 'class'
+  const attributes: AttributeInfo[] = []
+  const setters = new Set<string>()
+
+  let i = skipPythonTrivia(tokens, start)
+  while (i < end) {
+    const definition = readPythonDefinition(code, tokens, i, parent)
+    if (definition) {
+      const { metadata } = definition
+      // Setters and deleters are documented on the property's getter
+      const accessor = metadata.decorators?.find((d) =>
+        [`${metadata.name}.setter`, `${metadata.name}.deleter`].includes(d)
+      )
+      if (accessor?.endsWith('.setter')) setters.add(metadata.name)
+      if (metadata.type === 'property') {
+        attributes.push({ name: metadata.name, type: metadata.returnType, kind: 'property' })
       }
-      
-      // Extract function body
-      while (endLine < lines.length && braceCount > 0) {
-        const nextLine = lines[endLine]
-        body += nextLine + '\n'
-        braceCount += (nextLine.match(/{/g) || []).length
-        braceCount -= (nextLine.match(/}/g) || []).length
-        endLine++
+      if (isClass && metadata.name === '__init__' && definition.block) {
+        attributes.push(...readSelfAssignments(code, tokens, definition.block, metadata.params))
       }
-      
-      // Check for JSDoc
-      let docstring: string | undefined
-      if (i > 0) {
-        const prevLines = lines.slice(Math.max(0, i - 10), i).join('\n')
-        const docMatch = prevLines.match(jsDocPattern)
-        if (docMatch) {
-          docstring = docMatch[1].trim()
+
+      if (!accessor) {
+        functions.push(metadata)
+        if (definition.block) {
+          parsePythonBlock(
+            code,
+            tokens,
+            definition.block.start,
+            definition.block.end,
+            metadata,
+            functions
+          )
         }
       }
-      
-      functions.push({
-        name,
-        params,
-        body: body.trim(),
-        startLine,
-        endLine: endLine - 1,
-        type: 'function',
-        docstring
-      })
-      
-      i = endLine
+      i = definition.next
+    } else {
+      const field = isClass ? readAnnotatedField(code, tokens, i) : undefined
+      if (field) attributes.push(field)
+      // Advance to the start of the next logical line
+      while (i < end && tokens[i].type !== 'newline') i++
+      i++
+    }
+    while (i < end && ['nl', 'comment', 'indent', 'dedent'].includes(tokens[i].type)) {
+      i++
+    }
+  }
+
+  if (isClass) parent.attributes = finishAttributes(attributes, setters)
+}
+
+const MODULE_NAME = '<module>'
+// PEP 263 encoding declarations, which must be on the first or second line
+const PYTHON_ENCODING = /^[ \t\f]*#.*?coding[:=]/
+
+/** Whether `line` lies outside every top-level declaration */
+function isModuleLevel(functions: FunctionMetadata[], line: number): boolean {
+  return functions.every((f) => f.parent !== undefined || line < f.startLine || line > f.endLine)
+}
+
+/** The entry documenting the file as a whole, inserted at `line` when it has no docs yet */
+function createModuleEntry(
+  functions: FunctionMetadata[],
+  imports: string[],
+  line: number,
+  lastLine: number,
+  doc: DocComment | undefined
+): FunctionMetadata {
+  const symbols = functions
+    .filter((f) => f.parent === undefined)
+    .map((f) => ({
+      name: f.name,
+      type: f.type,
+      summary: f.docstring?.split('\n')[0].trim() || undefined,
+    }))
+  return {
+    name: MODULE_NAME,
+    qualifiedName: MODULE_NAME,
+    params: [],
+    body: '',
+    startLine: line,
+    endLine: lastLine,
+    type: 'module',
+    docstring: doc?.text,
+    module: { imports: [...new Set(imports)], symbols },
+    bodyStartLine: line,
+    docstringStartLine: doc?.startLine,
+    docstringEndLine: doc?.endLine,
+  }
+}
+
+/** Modules named by top-level `import` and `from ... import` statements */
+function readPythonImports(tokens: PythonToken[], functions: FunctionMetadata[]): string[] {
+  const imports: string[] = []
+  let statementStart = true
+  for (let i = 0; i < tokens.length; i++) {
+    const token = tokens[i]
+    if (token.type === 'newline') {
+      statementStart = true
       continue
     }
-    
-    // Check for arrow function
-    const arrowMatch = line.match(arrowPattern)
-    if (arrowMatch) {
-      const name = arrowMatch[3]
-      const paramsStr = arrowMatch[5]
-      const params = paramsStr
-        .split(',')
-        .map(p => p.trim().split('=')[0].split(':')[0].trim())
-        .filter(p => p)
-      
-      const startLine = i
-      let endLine = i + 1
-      let body = ''
-      
-      // For single-line arrow functions
-      if (line.includes('=>') && !line.trim().endsWith('=>')) {
-        body = line.substring(line.indexOf('=>') + 2).trim()
-      } else {
-        // Multi-line arrow functions
-        let braceCount = 1
-        while (endLine < lines.length && braceCount > 0) {
-          const nextLine = lines[endLine]
-          body += nextLine + '\n'
-          braceCount += (nextLine.match(/{/g) || []).length
-          braceCount -= (nextLine.match(/}/g) || []).length
-          endLine++
-        }
-      }
-      
-      // Check for JSDoc
-      let docstring: string | undefined
-      if (i > 0) {
-        const prevLines = lines.slice(Math.max(0, i - 10), i).join('\n')
-        const docMatch = prevLines.match(jsDocPattern)
-        if (docMatch) {
-          docstring = docMatch[1].trim()
-        }
-      }
-      
-      functions.push({
-        name,
-        params,
-        body: body.trim(),
-        startLine,
-        endLine: endLine - 1,
-        type: 'function',
-        docstring
-      })
-      
-      i = endLine
+    if (PYTHON_TRIVIA.has(token.type) || token.type === 'indent' || token.type === 'dedent') {
       continue
     }
-    
-    // Check for class definition
-    const classMatch = line.match(classPattern)
-    if (classMatch) {
-      const name = classMatch[2]
-      const startLine = i
-      let endLine = i + 1
-      let braceCount = 0
-      let body = ''
-      
-      // Find opening brace
-      while (endLine < lines.length) {
-        if (lines[endLine].includes('{')) {
-          braceCount = 1
-          break
-        }
-        endLine++
-      }
-      
-      // Extract class body
-      while (endLine < lines.length && braceCount > 0) {
-        const nextLine = lines[endLine]
-        body += nextLine + '\n'
-        braceCount += (nextLine.match(/{/g) || []).length
-        braceCount -= (nextLine.match(/}/g) || []).length
-        endLine++
+    const isImport =
+      statementStart && token.type === 'name' && ['import', 'from'].includes(token.value)
+    statementStart = false
+    if (!isImport || !isModuleLevel(functions, token.line)) continue
+
+    // `import a.b as c, d` names several modules; `from a import b` names one
+    let name = ''
+    let alias = false
+    for (let j = i + 1; j < tokens.length && tokens[j].type !== 'newline'; j++) {
+      const { type, value } = tokens[j]
+      if (token.value === 'from' && value === 'import') break
+      if (value === ',') {
+        imports.push(name)
+        name = ''
+        alias = false
+      } else if (value === 'as') {
+        alias = true
+      } else if (!alias && (type === 'name' || value === '.' || value === '...')) {
+        name += value
       }
-      
-      // Check for JSDoc
-      let docstring: string | undefined
-      if (i > 0) {
-        const prevLines = lines.slice(Math.max(0, i - 10), i).join('\n')
-        const docMatch = prevLines.match(jsDocPattern)
-        if (docMatch) {
-          docstring = docMatch[1].trim()
-        }
+    }
+    imports.push(name)
+  }
+  return imports.filter(Boolean)
+}
+
+function readPythonModule(
+  code: string,
+  tokens: PythonToken[],
+  functions: FunctionMetadata[]
+): FunctionMetadata | undefined {
+  const first = tokens[skipPythonTrivia(tokens, 0)]
+  if (!first || first.type === 'endmarker') return undefined
+
+  // The module docstring is the first statement, when that is a lone string
+  let doc: DocComment | undefined
+  if (first.type === 'string') {
+    let j = tokens.indexOf(first)
+    while (tokens[j + 1]?.type === 'string') j++
+    if (['newline', 'endmarker'].includes(tokens[j + 1]?.type)) {
+      doc = {
+        text: stringLiteralValue(first.value).trim(),
+        startLine: first.line,
+        endLine: tokens[j].endLine,
       }
-      
-      functions.push({
-        name,
-        params: [],
-        body: body.trim(),
-        startLine,
-        endLine: endLine - 1,
-        type: 'class',
-        docstring
-      })
-      
-      i = endLine
+    }
+  }
+
+  // A new docstring goes below the shebang and encoding lines, which must stay on top, but
+  // above any `from __future__` import: a string after those is not the module docstring
+  const lines = code.split('\n')
+  let line = 0
+  for (let i = 0; i < Math.min(2, lines.length); i++) {
+    if ((i === 0 && lines[i].startsWith('#!')) || PYTHON_ENCODING.test(lines[i])) line = i + 1
+  }
+  while (line < first.line && !lines[line].trim()) line++
+
+  const imports = readPythonImports(tokens, functions)
+  return createModuleEntry(functions, imports, line, lines.length - 1, doc)
+}
+
+export function parsePythonCode(code: string): FunctionMetadata[] {
+  const functions: FunctionMetadata[] = []
+  const tokens = tokenizePython(code)
+  parsePythonBlock(code, tokens, 0, tokens.length, undefined, functions)
+  const module = readPythonModule(code, tokens, functions)
+  return module ? [module, ...functions] : functions
+}
+
+const JS_KEYWORDS = new Set(['if', 'for', 'while', 'switch', 'catch', 'function', 'return', 'with'])
+const JS_MEMBER_MODIFIERS =
+  '(?:(?:public|private|protected|static|readonly|override|async|abstract|declare|get|set|accessor)\\s+)*'
+
+interface JsSource {
+  code: string
+  /** `code` with comments and literal contents blanked out, used for all structural scanning */
+  masked: string
+  /** Lines of `masked` */
+  lines: string[]
+  lineStarts: number[]
+  spans: JsSpan[]
+  typescript: boolean
+}
+
+/** The class, object literal or function whose body is being scanned */
+interface JsScope {
+  qualifiedName: string
+  kind: 'class' | 'object' | 'function'
+  /** Fields and properties found while scanning a class body */
+  attributes?: AttributeInfo[]
+  /** Names of the class's `set` accessors */
+  setters?: Set<string>
+}
+
+function createJsSource(code: string, typescript: boolean): JsSource {
+  const { masked, spans } = lexJavaScript(code)
+  const lines = masked.split('\n')
+  const lineStarts: number[] = []
+  let offset = 0
+  for (const line of lines) {
+    lineStarts.push(offset)
+    offset += line.length + 1
+  }
+  return { code, masked, lines, lineStarts, spans, typescript }
+}
+
+function lineAt(src: JsSource, offset: number): number {
+  let lo = 0
+  let hi = src.lineStarts.length - 1
+  while (lo < hi) {
+    const mid = (lo + hi + 1) >> 1
+    if (src.lineStarts[mid] <= offset) lo = mid
+    else hi = mid - 1
+  }
+  return lo
+}
+
+function skipWhitespace(code: string, offset: number): number {
+  while (offset < code.length && /\s/.test(code[offset])) offset++
+  return offset
+}
+
+/** Returns the offset of the bracket closing the one at `open` */
+function findMatchingBracket(code: string, open: number): number {
+  let depth = 0
+  for (let i = open; i < code.length; i++) {
+    const ch = code[i]
+    if (ch === '(' || ch === '[' || ch === '{') depth++
+    if (ch === ')' || ch === ']' || ch === '}') {
+      depth--
+      if (depth === 0) return i
+    }
+  }
+  return code.length - 1
+}
+
+/** Returns the offset of the bracket opening the one at `close`, or -1 */
+function findOpeningBracket(code: string, close: number): number {
+  let depth = 0
+  for (let i = close; i >= 0; i--) {
+    const ch = code[i]
+    if (ch === ')' || ch === ']' || ch === '}') depth++
+    if (ch === '(' || ch === '[' || ch === '{') {
+      depth--
+      if (depth === 0) return i
+    }
+  }
+  return -1
+}
+
+/** Skips a `<...>` type parameter list starting at `offset`, if there is one */
+function skipTypeParameters(code: string, offset: number): number {
+  if (code[offset] !== '<') return offset
+  let depth = 0
+  for (let i = offset; i < code.length; i++) {
+    if (code[i] === '<') depth++
+    if (code[i] === '>' && code[i - 1] !== '=') {
+      depth--
+      if (depth === 0) return skipWhitespace(code, i + 1)
+    }
+  }
+  return offset
+}
+
+/**
+ * Finds the `{` opening a class or interface body after its header, skipping braces in type
+ * parameters and heritage clauses such as `extends Base<{ id: string }>`. Returns -1 if the
+ * statement ends first.
+ */
+function findBodyBrace(code: string, offset: number): number {
+  let depth = 0
+  for (let i = skipTypeParameters(code, skipWhitespace(code, offset)); i < code.length; i++) {
+    const ch = code[i]
+    if (ch === '{' && depth === 0) return i
+    if (ch === ';' && depth === 0) return -1
+    if (ch === '(' || ch === '[' || ch === '{' || ch === '<') depth++
+    if (ch === ')' || ch === ']' || ch === '}' || (ch === '>' && code[i - 1] !== '=')) {
+      depth = Math.max(0, depth - 1)
+    }
+  }
+  return -1
+}
+
+/**
+ * Reads a type expression starting at `offset` until the point where it is followed by a
+ * function body, an arrow, a semicolon or the end of the statement.
+ */
+function readTypeExpression(code: string, offset: number): number {
+  let depth = 0
+  let i = offset
+  while (i < code.length) {
+    const ch = code[i]
+    const soFar = code.slice(offset, i).trim()
+    if (depth === 0 && code.startsWith('=>', i) && soFar && !soFar.endsWith('(')) {
+      // A function type's arrow is only reached at depth 0 after its parameter list
+      const isFunctionType = /\)\s*$/.test(soFar) && /^\(/.test(soFar)
+      if (!isFunctionType) break
+      i += 2
+      continue
+    }
+    if (ch === '(' || ch === '[' || ch === '<') depth++
+    if ((ch === ')' || ch === ']' || (ch === '>' && code[i - 1] !== '=')) && depth > 0) {
+      depth--
+      i++
       continue
     }
-    
+    if (ch === '{') {
+      if (depth === 0 && soFar && !/([|&,:<(]|=>)$/.test(soFar)) break
+      i = findMatchingBracket(code, i) + 1
+      continue
+    }
+    if (depth === 0 && (ch === ';' || ch === '=' || ch === ')' || ch === ',')) break
+    if (depth === 0 && ch === '\n' && soFar && !/([|&,:<(]|=>)$/.test(soFar)) {
+      const next = code[skipWhitespace(code, i)]
+      if (next !== '|' && next !== '&' && next !== '.') break
+    }
     i++
   }
-  
-  return functions
+  return i
 }
 
-export function insertDocstrings(
-  code: string,
-  language: 'python' | 'javascript',
-  docstrings: Array<{ name: string; docstring: string }>
-): string {
-  const functions = language === 'python' 
-    ? parsePythonCode(code) 
-    : parseJavaScriptCode(code)
-  
-  const lines = code.split('\n')
-  const docstringMap = new Map(docstrings.map(d => [d.name, d.docstring]))
-  
-  // Process in reverse order to maintain line numbers
-  for (let i = functions.length - 1; i >= 0; i--) {
-    const func = functions[i]
-    const newDocstring = docstringMap.get(func.name)
-    
-    if (!newDocstring) continue
-    
-    const indent = ' '.repeat(lines[func.startLine].search(/\S/) + (language === 'python' ? 4 : 2))
-    
-    if (language === 'python') {
-      const formattedDocstring = `${indent}"""\n${indent}${newDocstring.split('\n').join('\n' + indent)}\n${indent}"""`
-      
-      // Find where to insert (after function definition)
-      let insertLine = func.startLine + 1
-      
-      // Check if there's already a docstring
-      if (func.docstring) {
-        // Find and replace existing docstring
-        let j = insertLine
-        let inDocstring = false
-        while (j < lines.length) {
-          if (lines[j].trim().startsWith('"""')) {
-            if (inDocstring) {
-              // End of docstring, remove up to here
-              lines.splice(insertLine, j - insertLine + 1)
-              break
-            }
-            inDocstring = true
-          }
-          j++
-        }
+interface JsSignature {
+  /** Offsets of the parameter list, excluding the parentheses */
+  paramsStart: number
+  paramsEnd: number
+  returnType?: string
+  terminator: '{' | ';' | '=>' | null
+  /** Offset of the terminator, or of the end of the signature when there is none */
+  end: number
+}
+
+function readSignature(src: JsSource, openParen: number): JsSignature {
+  const { code, masked } = src
+  const close = findMatchingBracket(masked, openParen)
+  let signatureEnd = close + 1
+  let i = skipWhitespace(masked, signatureEnd)
+  let returnType: string | undefined
+
+  if (masked[i] === ':') {
+    const typeStart = i + 1
+    signatureEnd = readTypeExpression(masked, typeStart)
+    returnType = code.slice(typeStart, signatureEnd).trim() || undefined
+    i = skipWhitespace(masked, signatureEnd)
+  }
+
+  const terminator = masked.startsWith('=>', i)
+    ? '=>'
+    : masked[i] === '{'
+      ? '{'
+      : masked[i] === ';'
+        ? ';'
+        : null
+  return {
+    paramsStart: openParen + 1,
+    paramsEnd: close,
+    returnType,
+    terminator,
+    end: terminator ? i : signatureEnd,
+  }
+}
+
+/**
+ * Calls `visit` for every character outside of (), [], {} and generic <> brackets; a truthy
+ * return value stops the scan.
+ */
+function scanTopLevel(text: string, visit: (index: number) => boolean | void) {
+  let depth = 0
+  let angles = 0
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i]
+    if ('([{'.includes(ch)) depth++
+    else if (')]}'.includes(ch)) depth--
+    else if (ch === '<' && /[\w$]/.test(text[i - 1] || '') && text[i + 1] !== '=') angles++
+    else if (ch === '>' && angles > 0 && text[i - 1] !== '=') angles--
+    else if (depth === 0 && angles === 0 && visit(i)) return
+  }
+}
+
+/** Finds a top-level `=` that is an assignment rather than `=>`, `==`, `>=` and friends */
+function findTopLevelEquals(text: string): number {
+  let found = -1
+  scanTopLevel(text, (i) => {
+    if (text[i] !== '=' || /[=>]/.test(text[i + 1] || '') || /[=!<>]/.test(text[i - 1] || '')) {
+      return false
+    }
+    found = i
+    return true
+  })
+  return found
+}
+
+/**
+ * Splits a parameter list into structured parameters. `masked` is the same text with
+ * comments and literals blanked, which decides where parameters, types and defaults start
+ * without being fooled by commas or `=` inside strings.
+ */
+function splitJavaScriptParams(text: string, masked: string, typescript: boolean): ParameterInfo[] {
+  const groups: Array<[number, number]> = []
+  let groupStart = 0
+  scanTopLevel(masked, (i) => {
+    if (masked[i] !== ',') return
+    groups.push([groupStart, i])
+    groupStart = i + 1
+  })
+  groups.push([groupStart, masked.length])
+
+  const params: ParameterInfo[] = []
+  for (const [start, end] of groups) {
+    let rest = text.slice(start, end)
+    let restMasked = masked.slice(start, end)
+    const advance = (length: number) => {
+      rest = rest.slice(length)
+      restMasked = restMasked.slice(length)
+    }
+
+    // Leading decorators and constructor parameter property modifiers
+    advance(
+      restMasked.match(
+        /^\s*(?:@[\w$.]+(?:\([^)]*\))?\s*)*(?:(?:public|private|protected|readonly|override)\s+)*/
+      )![0].length
+    )
+    const trailing = restMasked.length - restMasked.trimEnd().length
+    rest = rest.slice(0, rest.length - trailing)
+    restMasked = restMasked.trimEnd()
+    if (!restMasked) continue
+
+    let kind: ParameterKind = 'positional'
+    if (restMasked.startsWith('...')) {
+      kind = 'variadic'
+      advance(3)
+    }
+
+    let name: string
+    if (/^[[{]/.test(restMasked)) {
+      // Destructured patterns keep their braces as the name
+      const close = findMatchingBracket(restMasked, 0)
+      name = rest.slice(0, close + 1).replace(/\s+/g, ' ')
+      advance(close + 1)
+      if (kind === 'positional') kind = 'destructured'
+    } else {
+      name = restMasked.match(/^[\w$]+/)?.[0] ?? rest.trim()
+      advance(name.length)
+    }
+    if (typescript && name === 'this') continue
+
+    advance(restMasked.length - restMasked.trimStart().length)
+    const optional = restMasked.startsWith('?')
+    if (optional) advance(1)
+
+    const equals = findTopLevelEquals(restMasked)
+    const annotation = (equals === -1 ? rest : rest.slice(0, equals)).trim()
+    params.push({
+      name,
+      type: annotation.startsWith(':') ? annotation.slice(1).trim() || undefined : undefined,
+      defaultValue: equals === -1 ? undefined : rest.slice(equals + 1).trim() || undefined,
+      kind,
+      optional: optional || undefined,
+    })
+  }
+  return params
+}
+
+/** Returns the offset where the expression starting at `offset` ends: `;` or a line break */
+function readExpressionEnd(masked: string, offset: number): number {
+  let depth = 0
+  let i = offset
+  for (; i < masked.length; i++) {
+    const ch = masked[i]
+    if ('([{'.includes(ch)) depth++
+    else if (')]}'.includes(ch)) {
+      // The closing brace of the enclosing body
+      if (depth === 0) break
+      depth--
+    } else if (depth === 0 && (ch === ';' || ch === '\n')) break
+  }
+  return i
+}
+
+/**
+ * Reads a class field that does not hold a function, such as `count = 0` or
+ * `private readonly id: string`, starting after its name.
+ */
+function readClassField(
+  src: JsSource,
+  offset: number,
+  name: string,
+  modifiers: string
+): JsDeclaration | null {
+  const { code, masked } = src
+  const skipSpaces = (i: number) => i + (masked.slice(i).match(/^[ \t]*/)?.[0].length ?? 0)
+  let i = skipSpaces(offset)
+  let type: string | undefined
+  if (masked[i] === ':') {
+    const typeEnd = readTypeExpression(masked, i + 1)
+    type = code.slice(i + 1, typeEnd).trim().replace(/\s+/g, ' ') || undefined
+    i = skipSpaces(typeEnd)
+  }
+
+  let defaultValue: string | undefined
+  if (masked[i] === '=' && !/[=>]/.test(masked[i + 1])) {
+    const valueEnd = readExpressionEnd(masked, i + 1)
+    defaultValue = code.slice(i + 1, valueEnd).trim().replace(/\s+/g, ' ') || undefined
+    i = valueEnd
+  } else if (i < masked.length && !/[;\r\n}]/.test(masked[i])) {
+    return null
+  }
+
+  return {
+    name,
+    type: 'property',
+    params: [],
+    body: '',
+    endOffset: Math.max(offset, i - 1),
+    field: {
+      name,
+      type,
+      defaultValue,
+      kind: 'field',
+      readonly: /\breadonly\b/.test(modifiers) || undefined,
+    },
+  }
+}
+
+/** Parameter properties and `this.x = ...` assignments of a class constructor */
+function readConstructorAttributes(
+  src: JsSource,
+  signature: JsSignature,
+  bodyEnd: number,
+  params: ParameterInfo[]
+): AttributeInfo[] {
+  const { code, masked } = src
+  const attributes: AttributeInfo[] = []
+
+  // TypeScript parameter properties: `constructor(private readonly db: Db)`
+  const paramsMasked = masked.slice(signature.paramsStart, signature.paramsEnd)
+  const parameterProperty =
+    /(?:^|,)\s*(?:@[\w$.]+(?:\([^)]*\))?\s*)*((?:(?:public|private|protected|readonly|override)\s+)+)([\w$]+)/g
+  for (const match of paramsMasked.matchAll(parameterProperty)) {
+    const param = params.find((p) => p.name === match[2])
+    attributes.push({
+      name: match[2],
+      type: param?.type,
+      defaultValue: param?.defaultValue,
+      kind: 'instance',
+      readonly: /\breadonly\b/.test(match[1]) || undefined,
+    })
+  }
+
+  const bodyStart = signature.end + 1
+  const body = masked.slice(bodyStart, bodyEnd)
+  for (const match of body.matchAll(/(?:^|[;{}\n])\s*this\.(#?[\w$]+)\s*=(?![=>])/g)) {
+    const valueStart = bodyStart + match.index! + match[0].length
+    const value = code.slice(valueStart, readExpressionEnd(masked, valueStart)).trim()
+    // `this.name = name` takes the parameter's declared type
+    const param = params.find((p) => p.name === value)
+    attributes.push({
+      name: match[1],
+      type: param?.type,
+      defaultValue: param ? undefined : value || undefined,
+      kind: 'instance',
+    })
+  }
+  return attributes
+}
+
+/** Finds the `/** ... *\/` comment attached to the declaration starting on `line`, if any */
+// Line comments that configure a tool for the line below them, such as
+// `// eslint-disable-next-line` or `// @ts-expect-error`
+const JS_DIRECTIVE =
+  /^\s*\/\/\s*(?:eslint-|@ts-|prettier-ignore|biome-ignore|istanbul ignore|c8 ignore|tslint:)/
+
+function sourceLine(src: JsSource, line: number): string {
+  return src.code.slice(src.lineStarts[line], src.lineStarts[line + 1] ?? src.code.length)
+}
+
+function findJsDoc(src: JsSource, line: number): DocComment | undefined {
+  // A declaration's range starts at its directive comments, which the doc comment precedes
+  const start = JS_DIRECTIVE.test(sourceLine(src, line))
+    ? src.lineStarts[line]
+    : skipLeadingComments(src.code, src.spans, src.lineStarts[line])
+  return findAttachedDocComment(src.code, src.spans, start, (offset) => lineAt(src, offset))
+}
+
+interface JsDeclaration {
+  name: string
+  /** Overrides the scope-derived qualified name, e.g. for `Foo.prototype.bar = ...` */
+  qualifiedName?: string
+  type: FunctionMetadata['type']
+  params: ParameterInfo[]
+  returnType?: string
+  analysis?: BodyAnalysis
+  /** Text of a bodiless declaration, kept as an overload of the next implementation */
+  signature?: string
+  decorators?: string[]
+  body: string
+  endOffset: number
+  /** Line range of a braced body that may contain nested declarations */
+  block?: { from: number; to: number; kind: JsScope['kind'] }
+  /** Object literals are scanned for methods but are not documented themselves */
+  container?: boolean
+  /** Class fields without a function value are attributes of the class, not declarations */
+  field?: AttributeInfo
+  /** Attributes a constructor assigns or declares as parameter properties */
+  attributes?: AttributeInfo[]
+  /** `set` accessors are documented on their getter */
+  setter?: boolean
+}
+
+/**
+ * Reads the decorators directly before `offset`, such as `@Input()` or a multi-line
+ * `@Component({...})`, looking back no further than `limit`. Only whole decorator expressions
+ * count, so a decorated field like `@Input() name = ''` ends the walk.
+ */
+function readDecoratorsBefore(
+  src: JsSource,
+  offset: number,
+  limit: number
+): { start: number; decorators: string[] } {
+  const { code, masked } = src
+  const decorators: string[] = []
+  let start = offset
+  for (;;) {
+    let i = start - 1
+    while (i >= limit && /\s/.test(masked[i])) i--
+    const end = i + 1
+    if (masked[i] === ')') i = findOpeningBracket(masked, i) - 1
+    const nameEnd = i + 1
+    while (i >= limit && /[\w$.]/.test(masked[i])) i--
+    if (i < limit || masked[i] !== '@' || i + 1 === nameEnd) break
+    decorators.unshift(code.slice(i + 1, end).replace(/\s+/g, ' '))
+    start = i
+  }
+  return { start, decorators }
+}
+
+function readJavaScriptDeclaration(
+  src: JsSource,
+  lineIndex: number,
+  scope: JsScope | undefined
+): JsDeclaration | null {
+  const { code, masked, typescript } = src
+  const line = src.lines[lineIndex]
+  const lineStart = src.lineStarts[lineIndex]
+
+  const withBody = (
+    name: string,
+    type: FunctionMetadata['type'],
+    open: number,
+    nested?: JsScope['kind']
+  ): JsDeclaration => {
+    const close = findMatchingBracket(masked, open)
+    return {
+      name,
+      type,
+      params: [],
+      body: code.slice(open + 1, close).trim(),
+      endOffset: close,
+      block: nested && { from: lineAt(src, open) + 1, to: lineAt(src, close), kind: nested },
+    }
+  }
+
+  const objectLiteral = (name: string, open: number): JsDeclaration => ({
+    ...withBody(name, 'class', open, 'object'),
+    container: true,
+  })
+
+  const withFunctionBody = (
+    name: string,
+    type: FunctionMetadata['type'],
+    open: number,
+    params: ParameterInfo[],
+    returnType: string | undefined,
+    isAsync: boolean
+  ): JsDeclaration => {
+    const declaration = withBody(name, type, open, 'function')
+    const analysis = analyzeJavaScriptBody(masked.slice(open + 1, declaration.endOffset), isAsync)
+    return { ...declaration, params, returnType, analysis }
+  }
+
+  const arrowBody = (
+    name: string,
+    type: FunctionMetadata['type'],
+    arrow: number,
+    params: ParameterInfo[],
+    returnType: string | undefined,
+    isAsync: boolean
+  ): JsDeclaration => {
+    const bodyStart = skipWhitespace(masked, arrow + 2)
+    if (masked[bodyStart] === '{') {
+      return withFunctionBody(name, type, bodyStart, params, returnType, isAsync)
+    }
+
+    // Expression bodies run to the end of the line, or of a parenthesized expression
+    const lineEnd = masked.indexOf('\n', bodyStart)
+    const bodyEnd =
+      masked[bodyStart] === '('
+        ? findMatchingBracket(masked, bodyStart) + 1
+        : lineEnd === -1
+          ? code.length
+          : lineEnd
+    const body = code.slice(bodyStart, bodyEnd).trim()
+    const analysis = analyzeJavaScriptBody(masked.slice(bodyStart, bodyEnd), isAsync)
+    analysis.returnsValue = true
+    return {
+      name,
+      type,
+      params,
+      returnType,
+      analysis,
+      body,
+      endOffset: Math.max(bodyStart, bodyEnd - 1),
+    }
+  }
+
+  const fromSignature = (
+    name: string,
+    type: FunctionMetadata['type'],
+    afterName: number,
+    options: { requireArrow?: boolean; requireBody?: boolean } = {}
+  ): JsDeclaration | null => {
+    const openParen = skipTypeParameters(masked, skipWhitespace(masked, afterName))
+    if (masked[openParen] !== '(') return null
+    const signature = readSignature(src, openParen)
+    if (options.requireArrow && signature.terminator !== '=>') return null
+    if (options.requireBody && signature.terminator !== '{') return null
+
+    const params = splitJavaScriptParams(
+      code.slice(signature.paramsStart, signature.paramsEnd),
+      masked.slice(signature.paramsStart, signature.paramsEnd),
+      typescript
+    )
+    const isAsync = /\basync\b/.test(masked.slice(lineStart, openParen))
+
+    if (signature.terminator === '{') {
+      const declaration = withFunctionBody(
+        name,
+        type,
+        signature.end,
+        params,
+        signature.returnType,
+        isAsync
+      )
+      if (scope?.kind === 'class' && name === 'constructor') {
+        declaration.attributes = readConstructorAttributes(
+          src,
+          signature,
+          declaration.endOffset,
+          params
+        )
+      }
+      return declaration
+    }
+    if (signature.terminator === '=>') {
+      return arrowBody(name, type, signature.end, params, signature.returnType, isAsync)
+    }
+
+    // Overload signatures, abstract members and ambient declarations have no body
+    return {
+      name,
+      type,
+      params,
+      returnType: signature.returnType,
+      signature: code.slice(lineStart, signature.end).trim(),
+      body: '',
+      endOffset: signature.end,
+    }
+  }
+
+  /** Reads a function or arrow function expression assigned to `name` */
+  const functionValue = (
+    name: string,
+    type: FunctionMetadata['type'],
+    offset: number
+  ): JsDeclaration | null => {
+    let i = skipWhitespace(masked, offset)
+    const asyncMatch = masked.slice(i).match(/^async(?=[\s(<])\s*/)
+    if (asyncMatch) i += asyncMatch[0].length
+
+    const functionMatch = masked.slice(i).match(/^function\b\s*\*?\s*[\w$]*\s*/)
+    if (functionMatch) {
+      return fromSignature(name, type, i + functionMatch[0].length, { requireBody: true })
+    }
+    if (masked[i] === '(' || masked[i] === '<') {
+      return fromSignature(name, type, i, { requireArrow: true })
+    }
+
+    // A single unparenthesized parameter: `x => x * 2`
+    const singleParam = masked.slice(i).match(/^([\w$]+)\s*=>/)
+    if (singleParam) {
+      const params: ParameterInfo[] = [{ name: singleParam[1], kind: 'positional' }]
+      return arrowBody(name, type, i + singleParam[0].length - 2, params, undefined, !!asyncMatch)
+    }
+    return null
+  }
+
+  /** Skips an optional `: Type` annotation and the `=` after it */
+  const afterAssignment = (offset: number): number => {
+    let i = skipWhitespace(masked, offset)
+    if (masked[i] === ':') i = skipWhitespace(masked, readTypeExpression(masked, i + 1))
+    if (masked[i] !== '=' || masked[i + 1] === '=' || masked[i + 1] === '>') return -1
+    return i + 1
+  }
+
+  if (scope?.kind === 'class') {
+    // Class fields, which are methods when they hold arrow functions or function expressions
+    const fieldMatch = line.match(new RegExp(`^\\s*(${JS_MEMBER_MODIFIERS})(#?[\\w$]+)\\s*[?!]?`))
+    if (fieldMatch && !JS_KEYWORDS.has(fieldMatch[2]) && fieldMatch[2] !== 'constructor') {
+      const afterName = lineStart + fieldMatch[0].length
+      const value = afterAssignment(afterName)
+      const method = value === -1 ? null : functionValue(fieldMatch[2], 'method', value)
+      if (method) return method
+      const field = readClassField(src, afterName, fieldMatch[2], fieldMatch[1])
+      if (field) return field
+    }
+
+    const methodMatch = line.match(
+      new RegExp(`^\\s*(${JS_MEMBER_MODIFIERS})\\*?\\s*(#?[\\w$]+)\\s*\\??\\s*(?=[<(])`)
+    )
+    if (methodMatch && !JS_KEYWORDS.has(methodMatch[2])) {
+      // Getters are documented as properties
+      const accessor = methodMatch[1].match(/\b(get|set)\s+$/)?.[1]
+      const type = accessor === 'get' ? 'property' : 'method'
+      const declaration = fromSignature(methodMatch[2], type, lineStart + methodMatch[0].length)
+      return declaration && accessor === 'set' ? { ...declaration, setter: true } : declaration
+    }
+    return null
+  }
+
+  if (scope?.kind === 'object') {
+    // Keys are matched as group 2 after a prefix in group 1. The text of a quoted key is
+    // blanked in `masked`, so it is read from the source at the same offsets.
+    const keyName = (match: RegExpMatchArray) => {
+      const start = lineStart + match[1].length
+      return code.slice(start, start + match[2].length).replace(/^(["'])(.*)\1$/, '$2')
+    }
+
+    // Shorthand methods: `name() {}`, `async name() {}`, `get name() {}`, `'name'() {}`
+    const shorthandMatch = line.match(
+      /^(\s*(?:async\s+)?(?:get\s+|set\s+)?\*?\s*)((["'])[^"'\n]+\3|[\w$]+)\s*(?=[<(])/
+    )
+    if (shorthandMatch && !JS_KEYWORDS.has(shorthandMatch[2])) {
+      const afterName = lineStart + shorthandMatch[0].length
+      return fromSignature(keyName(shorthandMatch), 'method', afterName, { requireBody: true })
+    }
+
+    // Properties holding functions or nested objects: `name: function () {}`, `'name': {`
+    const propertyMatch = line.match(/^(\s*)((["'])[^"'\n]+\3|[\w$]+)\s*:\s*/)
+    if (propertyMatch) {
+      const value = lineStart + propertyMatch[0].length
+      if (masked[value] === '{') return objectLiteral(keyName(propertyMatch), value)
+      return functionValue(keyName(propertyMatch), 'method', value)
+    }
+    return null
+  }
+
+  const funcMatch = line.match(
+    /^\s*(?:export\s+)?(default\s+)?(?:declare\s+)?(?:async\s+)?function\b\s*\*?\s*([\w$]*)\s*(?=[<(])/
+  )
+  if (funcMatch && (funcMatch[2] || funcMatch[1])) {
+    return fromSignature(funcMatch[2] || 'default', 'function', lineStart + funcMatch[0].length)
+  }
+
+  const variableMatch = line.match(/^\s*(?:export\s+)?(?:declare\s+)?(?:const|let|var)\s+([\w$]+)/)
+  if (variableMatch) {
+    const value = afterAssignment(lineStart + variableMatch[0].length)
+    if (value === -1) return null
+    const valueStart = skipWhitespace(masked, value)
+    if (masked[valueStart] === '{') return objectLiteral(variableMatch[1], valueStart)
+    return functionValue(variableMatch[1], 'function', value)
+  }
+
+  const defaultMatch = line.match(
+    /^\s*export\s+default\s+(?!class\b|function\b|async\s+function\b)/
+  )
+  if (defaultMatch) {
+    const value = lineStart + defaultMatch[0].length
+    if (masked[value] === '{') return objectLiteral('default', value)
+    return functionValue('default', 'function', value)
+  }
+
+  // Function expressions assigned to properties: `Foo.prototype.bar = function () {}`
+  const propertyMatch = line.match(/^\s*((?:[\w$]+\.)+([\w$]+))\s*=(?![=>])\s*/)
+  if (propertyMatch) {
+    const value = lineStart + propertyMatch[0].length
+    if (masked[value] === '{') {
+      return { ...objectLiteral(propertyMatch[2], value), qualifiedName: propertyMatch[1] }
+    }
+    const type = propertyMatch[1].includes('.prototype.') ? 'method' : 'function'
+    const declaration = functionValue(propertyMatch[2], type, value)
+    return declaration && { ...declaration, qualifiedName: propertyMatch[1] }
+  }
+
+  const classMatch = line.match(
+    /^\s*(?:export\s+)?(default\s+)?(?:declare\s+)?(?:abstract\s+)?class\b\s*([\w$]*)/
+  )
+  if (classMatch && (classMatch[2] || classMatch[1])) {
+    const open = findBodyBrace(masked, lineStart + classMatch[0].length)
+    if (open === -1) return null
+    return withBody(classMatch[2] || 'default', 'class', open, 'class')
+  }
+
+  if (!typescript) return null
+
+  const interfaceMatch = line.match(/^\s*(?:export\s+)?(?:declare\s+)?interface\s+([\w$]+)/)
+  if (interfaceMatch) {
+    const open = findBodyBrace(masked, lineStart + interfaceMatch[0].length)
+    if (open === -1) return null
+    return withBody(interfaceMatch[1], 'interface', open)
+  }
+
+  const enumMatch = line.match(/^\s*(?:export\s+)?(?:declare\s+)?(?:const\s+)?enum\s+([\w$]+)/)
+  if (enumMatch) {
+    const open = masked.indexOf('{', lineStart + enumMatch[0].length)
+    if (open === -1) return null
+    return withBody(enumMatch[1], 'enum', open)
+  }
+
+  const typeMatch = line.match(/^\s*(?:export\s+)?(?:declare\s+)?type\s+([\w$]+)\s*(?=[<=])/)
+  if (typeMatch) {
+    const equals = skipTypeParameters(masked, lineStart + typeMatch[0].length)
+    if (masked[equals] !== '=') return null
+    const end = readTypeExpression(masked, equals + 1)
+    return {
+      name: typeMatch[1],
+      type: 'type',
+      params: [],
+      body: code.slice(equals + 1, end).trim(),
+      endOffset: Math.max(equals, end - 1),
+    }
+  }
+
+  return null
+}
+
+function parseJavaScriptRange(
+  src: JsSource,
+  from: number,
+  to: number,
+  scope: JsScope | undefined,
+  functions: FunctionMetadata[]
+) {
+  // Bodiless signatures waiting for the implementation they overload
+  let overloads: Array<{ declaration: JsDeclaration; startLine: number; endLine: number }> = []
+
+  const push = (declaration: JsDeclaration, startLine: number, endLine: number) => {
+    const first = overloads.find((o) => o.declaration.name === declaration.name)
+    const signatures = overloads
+      .filter((o) => o.declaration.name === declaration.name)
+      .map((o) => o.declaration.signature as string)
+    flushOverloads(declaration.name)
+
+    const docStartLine = first ? first.startLine : startLine
+    const doc = findJsDoc(src, docStartLine)
+    const metadata: FunctionMetadata = {
+      name: declaration.name,
+      qualifiedName: declaration.qualifiedName ?? qualify(declaration.name, scope),
+      parent: scope?.qualifiedName,
+      params: declaration.params,
+      returnType: declaration.returnType,
+      analysis: declaration.analysis,
+      body: declaration.body,
+      startLine: docStartLine,
+      endLine,
+      type: declaration.type,
+      docstring: doc?.text,
+      overloads: signatures.length > 0 ? signatures : undefined,
+      decorators: declaration.decorators,
+      docstringStartLine: doc?.startLine,
+      docstringEndLine: doc?.endLine,
+    }
+    functions.push(metadata)
+    return metadata
+  }
+
+  // Signatures that turned out not to be overloads are documented on their own
+  const flushOverloads = (except?: string) => {
+    const pending = overloads
+    overloads = []
+    for (const o of pending) {
+      if (o.declaration.name === except) continue
+      push({ ...o.declaration, signature: undefined }, o.startLine, o.endLine)
+    }
+  }
+
+  let i = from
+  while (i < to) {
+    const declaration = readJavaScriptDeclaration(src, i, scope)
+    if (!declaration) {
+      i++
+      continue
+    }
+
+    // Decorators stay attached to the declaration they precede
+    const { start, decorators } = readDecoratorsBefore(
+      src,
+      skipWhitespace(src.masked, src.lineStarts[i]),
+      src.lineStarts[from]
+    )
+    let startLine = lineAt(src, start)
+    if (decorators.length > 0) declaration.decorators = decorators
+    // Directives stay directly above the line they apply to, below any documentation
+    while (startLine > from && JS_DIRECTIVE.test(sourceLine(src, startLine - 1))) startLine--
+    const endLine = lineAt(src, declaration.endOffset)
+
+    if (declaration.signature !== undefined) {
+      if (overloads.length > 0 && overloads[0].declaration.name !== declaration.name) {
+        flushOverloads()
       }
-      
-      lines.splice(insertLine, 0, formattedDocstring)
+      overloads.push({ declaration, startLine, endLine })
+    } else if (declaration.container && declaration.block) {
+      const qualifiedName = declaration.qualifiedName ?? qualify(declaration.name, scope)
+      const objectScope: JsScope = { qualifiedName, kind: 'object' }
+      const { from, to } = declaration.block
+      parseJavaScriptRange(src, from, to, objectScope, functions)
+    } else if (declaration.field || declaration.setter) {
+      // Fields and setters describe the class's state rather than being documented themselves
+      if (declaration.field) scope?.attributes?.push(declaration.field)
+      if (declaration.setter) scope?.setters?.add(declaration.name)
     } else {
-      const formattedDocstring = `${indent}/**\n${indent} * ${newDocstring.split('\n').join('\n' + indent + ' * ')}\n${indent} */`
-      
-      // Check if there's already a JSDoc comment before the function
-      let insertLine = func.startLine
-      
-      for (let j = func.startLine - 1; j >= Math.max(0, func.startLine - 10); j--) {
-        if (lines[j].trim().includes('*/')) {
-          // Remove existing JSDoc
-          let k = j
-          while (k >= 0 && !lines[k].trim().includes('/**')) {
-            k--
-          }
-          lines.splice(k, j - k + 1)
-          insertLine = k
-          break
+      const metadata = push(declaration, startLine, endLine)
+      if (declaration.type === 'property') {
+        const { name, returnType } = declaration
+        scope?.attributes?.push({ name, type: returnType, kind: 'property' })
+      }
+      if (declaration.attributes) scope?.attributes?.push(...declaration.attributes)
+
+      if (declaration.block) {
+        const { from, to, kind } = declaration.block
+        const nestedScope: JsScope = {
+          qualifiedName: metadata.qualifiedName,
+          kind,
+          attributes: kind === 'class' ? [] : undefined,
+          setters: kind === 'class' ? new Set() : undefined,
+        }
+        parseJavaScriptRange(src, from, to, nestedScope, functions)
+        if (nestedScope.attributes && nestedScope.setters) {
+          metadata.attributes = finishAttributes(nestedScope.attributes, nestedScope.setters)
         }
       }
-      
-      lines.splice(insertLine, 0, formattedDocstring)
     }
+    i = Math.max(endLine + 1, i + 1)
+  }
+  flushOverloads()
+}
+
+const JS_FILE_TAG = /@(?:file|fileoverview|overview|module)\b/
+const JS_LICENSE = /@license|@preserve|copyright|licen[cs]e|spdx/i
+
+/** Modules named by top-level `import`, `export ... from` and `require()` */
+function readJavaScriptImports(src: JsSource, functions: FunctionMetadata[]): string[] {
+  const imports: string[] = []
+  for (const span of src.spans) {
+    if (span.kind !== 'string') continue
+    const line = lineAt(src, span.start)
+    const before = src.masked.slice(src.lineStarts[line], span.start)
+    if (!/(?:\bfrom|^\s*import|\b(?:require|import)\s*\()\s*$/.test(before)) continue
+    if (isModuleLevel(functions, line)) imports.push(src.code.slice(span.start + 1, span.end - 1))
   }
-  
-  return lines.join('\n')
+  return imports
+}
+
+function readJavaScriptModule(
+  src: JsSource,
+  functions: FunctionMetadata[]
+): FunctionMetadata | undefined {
+  const { code, spans } = src
+  const lineOf = (offset: number) => lineAt(src, offset)
+  if (!src.masked.trim()) return undefined
+
+  // A file header is a doc comment carrying one of the file tags
+  const firstDeclaration = functions[0]?.startLine ?? src.lines.length
+  const header = spans.find(
+    (span) =>
+      span.kind === 'comment' &&
+      code.startsWith('/**', span.start) &&
+      JS_FILE_TAG.test(code.slice(span.start, span.end)) &&
+      lineOf(span.start) < firstDeclaration
+  )
+  const doc = header && findAttachedDocComment(code, spans, header.end, lineOf)
+  for (const func of functions) {
+    if (!doc || func.docstringStartLine !== doc.startLine) continue
+    func.docstring = undefined
+    func.docstringStartLine = undefined
+    func.docstringEndLine = undefined
+  }
+
+  // A new header goes below the shebang, license comments and directives such as 'use strict'
+  let offset = code.startsWith('#!') ? code.indexOf('\n') + 1 || code.length : 0
+  for (;;) {
+    offset = skipWhitespace(code, offset)
+    const index = spans.findIndex((span) => span.start === offset)
+    const span = spans[index]
+    const directive =
+      span?.kind === 'string' && code.slice(span.end).match(/^[ \t]*;?(?=[ \t]*(?:\r?\n|$))/)
+    if (directive) {
+      offset = span.end + directive[0].length
+      continue
+    }
+    if (span?.kind !== 'comment') break
+
+    // Adjacent line comments form one block
+    let end = index
+    while (
+      code.startsWith('//', span.start) &&
+      spans[end + 1]?.kind === 'comment' &&
+      code.startsWith('//', spans[end + 1].start) &&
+      /^[ \t]*\r?\n[ \t]*$/.test(code.slice(spans[end].end, spans[end + 1].start))
+    ) {
+      end++
+    }
+    const text = code.slice(span.start, spans[end].end)
+    if (!code.startsWith('/*!', span.start) && !JS_LICENSE.test(text)) break
+    offset = spans[end].end
+  }
+
+  const imports = readJavaScriptImports(src, functions)
+  const line = offset < code.length ? lineOf(offset) : src.lines.length
+  return createModuleEntry(functions, imports, line, src.lines.length - 1, doc)
+}
+
+function parseJsCode(code: string, typescript: boolean): FunctionMetadata[] {
+  const functions: FunctionMetadata[] = []
+  const src = createJsSource(code, typescript)
+  parseJavaScriptRange(src, 0, src.lines.length, undefined, functions)
+  const module = readJavaScriptModule(src, functions)
+  return module ? [module, ...functions] : functions
+}
+
+export function parseJavaScriptCode(code: string): FunctionMetadata[] {
+  return parseJsCode(code, false)
+}
+
+export function parseTypeScriptCode(code: string): FunctionMetadata[] {
+  return parseJsCode(code, true)
 }
@@ -0,0 +1,155 @@
+import { DocItem, DocValue, DocstringFormat, StructuredDocstring } from '@/types'
+import { DocEntry, DocSection, DocStyle, parseDocstring } from '@/utils/docSections'
+import { RenderOptions, renderDocstring } from '@/utils/docRenderer'
+
+const FORMAT_STYLES: Partial<Record<DocstringFormat, DocStyle>> = {
+  google: 'google',
+  numpy: 'numpy',
+  sphinx: 'sphinx',
+  jsdoc: 'tags',
+}
+
+export function canConvertTo(format: DocstringFormat): boolean {
+  return FORMAT_STYLES[format] !== undefined
+}
+
+function dedent(lines: string[]): string[] {
+  const indents = lines.filter((line) => line.trim()).map((line) => line.search(/\S/))
+  const indent = indents.length ? Math.min(...indents) : 0
+  return lines.map((line) => line.slice(indent))
+}
+
+function trimBlankLines(lines: string[]): string[] {
+  let start = 0
+  let end = lines.length
+  while (start < end && !lines[start].trim()) start++
+  while (end > start && !lines[end - 1].trim()) end--
+  return lines.slice(start, end)
+}
+
+/**
+ * Collects entries into items, merging Sphinx `:param x:` and `:type x:` fields. A JSDoc
+ * `[name]` without a default is read as an optional `name`.
+ */
+function readItems(entries: DocEntry[], items: DocItem[] = []): DocItem[] {
+  for (const entry of entries) {
+    if (!entry.names.length) throw new Error(`unreadable entry "${entry.lines[0].trim()}"`)
+    for (const written of entry.names) {
+      const bracketed = written.match(/^\[([\w$.]+)\]$/)
+      const name = bracketed?.[1] ?? written
+      const optional = entry.optional || Boolean(bracketed)
+      const item = items.find((existing) => existing.name === name)
+      if (!item) {
+        const { type, description } = entry
+        items.push({ name, type, ...(optional && { optional }), description })
+        continue
+      }
+      item.type ??= entry.type
+      if (optional) item.optional = true
+      if (entry.description) item.description = entry.description
+    }
+  }
+  return items
+}
+
+function readValue(section: DocSection, style: DocStyle): DocValue {
+  const [first] = section.entries[0]?.lines ?? []
+  const topLevel = section.entries[0]?.lines.filter(
+    (line) => line.trim() && line.search(/\S/) === first.search(/\S/)
+  )
+  if (style === 'numpy' && topLevel && topLevel.length > 1) {
+    throw new Error('several named values in one section')
+  }
+  return {
+    type: section.entries.find((entry) => entry.type)?.type,
+    description: section.entries
+      .map((entry) => entry.description)
+      .filter(Boolean)
+      .join(' '),
+  }
+}
+
+/** Text of a section kept as written, such as examples and notes */
+function readText(section: DocSection, style: DocStyle): string {
+  const lines = section.entries.flatMap((entry) =>
+    style === 'tags'
+      ? [entry.lines[0].replace(/^@\w+\s?/, ''), ...entry.lines.slice(1)]
+      : entry.lines
+  )
+  return trimBlankLines(dedent(lines)).join('\n')
+}
+
+/** Reads documentation in any supported style, failing on sections the model cannot hold */
+export function readDocModel(text: string): StructuredDocstring {
+  const doc = parseDocstring(text)
+  if (doc.style === 'rustdoc') throw new Error('rustdoc sections cannot be converted')
+
+  const blank = doc.summary.findIndex((line) => !line.trim())
+  const summary = blank === -1 ? doc.summary : doc.summary.slice(0, blank)
+  const description = blank === -1 ? [] : trimBlankLines(doc.summary.slice(blank))
+  const model: StructuredDocstring = {
+    summary: summary.join('\n'),
+    description: description.join('\n') || undefined,
+  }
+  const once = (key: keyof StructuredDocstring, title: string) => {
+    if (model[key] !== undefined) throw new Error(`more than one ${title} section`)
+  }
+
+  for (const section of doc.sections) {
+    switch (section.kind) {
+      case 'params':
+        model.params = readItems(section.entries, model.params)
+        break
+      case 'attributes':
+        model.attributes = readItems(section.entries, model.attributes)
+        break
+      case 'raises':
+        model.raises = [
+          ...(model.raises ?? []),
+          ...section.entries.map((entry) => ({
+            type: entry.names[0],
+            description: entry.description,
+          })),
+        ]
+        break
+      case 'returns':
+        once('returns', 'returns')
+        model.returns = readValue(section, doc.style)
+        break
+      case 'yields':
+        once('yields', 'yields')
+        model.yields = readValue(section, doc.style)
+        break
+      case 'examples':
+        once('examples', 'examples')
+        model.examples = readText(section, doc.style)
+        break
+      case 'notes':
+        once('notes', 'notes')
+        model.notes = readText(section, doc.style)
+        break
+      default: {
+        const title = section.heading[0]?.trim().replace(/:$/, '')
+        const field = section.entries[0]?.lines[0].trim().match(/^[@:]\w+/)?.[0]
+        throw new Error(`unsupported section "${title || field || 'unknown'}"`)
+      }
+    }
+  }
+  return model
+}
+
+/**
+ * Converts documentation to `format` without changing its content. Returns undefined when
+ * there is nothing to convert: the text is already in that format or has no sections.
+ * Throws when the documentation has content the target format could not carry over.
+ */
+export function convertDocstring(
+  text: string,
+  format: DocstringFormat,
+  options: RenderOptions = {}
+): { docstring: string; structured: StructuredDocstring } | undefined {
+  const style = parseDocstring(text).style
+  if (style === 'plain' || style === FORMAT_STYLES[format]) return undefined
+  const structured = readDocModel(text)
+  return { docstring: renderDocstring(structured, format, options), structured }
+}
@@ -0,0 +1,131 @@
+import { FunctionMetadata, GenerateDocstringResponse, InsertOptions } from '@/types'
+import type { CommentSyntax } from '@shared/languages.ts'
+import { detectDocDrift, mergeDocstring } from '@/utils/docSections'
+
+/** Wraps documentation text in the comment syntax, indenting every line */
+export function formatDocComment(text: string, comment: CommentSyntax, indent: string): string {
+  const lines = text.split('\n').map((line) => comment.linePrefix + line)
+  if (comment.open) lines.unshift(comment.open)
+  if (comment.close) lines.push(comment.close)
+  return lines.map((line) => (indent + line).trimEnd()).join('\n')
+}
+
+const leadingWhitespace = (line = '') => line.match(/^[ \t]*/)![0]
+
+/** The step by which the file's blocks are indented, such as a tab or four spaces */
+function detectIndentUnit(lines: string[]): string {
+  const counts = new Map<string, number>()
+  let previous = ''
+  for (const line of lines) {
+    if (!line.trim()) continue
+    const indent = leadingWhitespace(line)
+    if (indent.length > previous.length && indent.startsWith(previous)) {
+      const step = indent.slice(previous.length)
+      counts.set(step, (counts.get(step) ?? 0) + 1)
+    }
+    previous = indent
+  }
+  let unit = '    '
+  for (const [step, count] of counts) if (count > (counts.get(unit) ?? 0)) unit = step
+  return unit
+}
+
+/**
+ * Keeps the quotes and prefix of a docstring being replaced, such as `r'''`, switching to a
+ * raw string for text with backslashes and to the other quotes for text containing these.
+ */
+function docstringQuotes(text: string, comment: CommentSyntax, existing?: string): CommentSyntax {
+  const quotes = [comment.open, ...(comment.alternativeDelimiters ?? [])]
+  const match = existing?.trim().match(/^([A-Za-z]*)('''|""")/)
+  let prefix = match?.[1] ?? ''
+  let quote = match && quotes.includes(match[2]) ? match[2] : comment.open
+  if (text.includes(quote)) quote = quotes.find((q) => !text.includes(q)) ?? quote
+  if (text.includes('\\') && !/r/i.test(prefix)) prefix = 'r'
+  return { ...comment, open: prefix + quote, close: quote }
+}
+
+/**
+ * Inserts generated documentation for the parsed `functions`, replacing documentation the
+ * parser located and skipping declarations that have documentation it could not locate.
+ * In merge mode, documentation that still matches its signature is left alone and drifted
+ * documentation only has its stale sections updated.
+ *
+ * Everything but the documentation is kept as it was, including each line's ending, except
+ * that one-line bodies (`def f(): return x`) are moved to a line of their own to make room
+ * for a docstring, as is code following a doc comment on its last line.
+ */
+export function insertDocumentation(
+  code: string,
+  functions: FunctionMetadata[],
+  docstrings: GenerateDocstringResponse['docstrings'],
+  comment: CommentSyntax,
+  options: InsertOptions = {}
+): string {
+  // Lines keep their `\r`; inserted lines follow the ending most of the file uses
+  const lines = code.split('\n')
+  const crlf = lines.filter((line) => line.endsWith('\r')).length * 2 > lines.length - 1
+  const eol = crlf ? '\r' : ''
+  const docstringMap = new Map(docstrings.map((d) => [d.qualifiedName ?? d.name, d.docstring]))
+  let indentUnit: string | undefined
+
+  // Process in reverse order to maintain line numbers
+  for (let i = functions.length - 1; i >= 0; i--) {
+    const func = functions[i]
+    let newDocstring = docstringMap.get(func.qualifiedName)
+    if (!newDocstring) continue
+    if (options.mode === 'merge' && func.docstring !== undefined) {
+      if (!detectDocDrift(func)) continue
+      newDocstring = mergeDocstring(func.docstring, newDocstring, func)
+    }
+
+    const inside = comment.placement === 'inside'
+    const hasLines = func.docstringStartLine !== undefined && func.docstringEndLine !== undefined
+    if (!hasLines && func.docstring !== undefined) continue
+
+    // Docstrings are indented like the body; doc comments like the declaration
+    const anchor = inside ? func.bodyStartLine : func.startLine
+    if (anchor === undefined) continue
+
+    let indent = leadingWhitespace(lines[anchor])
+    const inlineBody = inside ? func.bodyStartColumn : undefined
+    if (inlineBody !== undefined) {
+      indentUnit ??= detectIndentUnit(lines)
+      indent += indentUnit
+    }
+
+    const syntax = inside
+      ? docstringQuotes(newDocstring, comment, hasLines ? lines[anchor] : undefined)
+      : comment
+    const formatted = formatDocComment(newDocstring, syntax, indent)
+      .split('\n')
+      .map((line) => line + eol)
+
+    if (hasLines) {
+      const start = func.docstringStartLine!
+      const end = func.docstringEndLine!
+      // The replaced lines keep their last line's ending
+      const last = lines[end]
+      const ending = last.endsWith('\r') ? '\r' : ''
+      // Code after the comment's close moves below it, as in `/** Old *\/ function f() {}`
+      const close = comment.close.trim()
+      const closeAt = !inside && close ? last.indexOf(close) : -1
+      const rest = closeAt === -1 ? '' : last.slice(closeAt + close.length).trim()
+      if (rest) {
+        formatted.push(indent + rest + ending)
+      } else {
+        formatted.push(formatted.pop()!.replace(/\r$/, '') + ending)
+      }
+      lines.splice(start, end - start + 1, ...formatted)
+    } else if (inlineBody !== undefined) {
+      const line = lines[anchor]
+      const body = indent + line.slice(inlineBody).trimStart()
+      lines.splice(anchor, 1, line.slice(0, inlineBody).trimEnd() + eol, ...formatted, body)
+    } else {
+      // Module documentation is set off from the code that follows
+      const spacing = func.type === 'module' && lines[anchor]?.trim() ? [eol] : []
+      lines.splice(anchor, 0, ...formatted, ...spacing)
+    }
+  }
+
+  return lines.join('\n')
+}
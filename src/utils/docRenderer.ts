@@ -0,0 +1,233 @@
+import {
+  DocItem,
+  DocValue,
+  DocstringFormat,
+  GenerateDocstringRequest,
+  GenerateDocstringResponse,
+  Language,
+  StructuredDocstring,
+} from '@/types'
+import { getFormatOption, getLanguageDefinition } from '@shared/languages.ts'
+
+export interface RenderOptions {
+  language?: Language
+  /** The documentation describes a whole file */
+  module?: boolean
+}
+
+// Each writer returns the blocks after the summary and description, which are separated by
+// blank lines
+type Writer = (doc: StructuredDocstring, options: RenderOptions) => string[][]
+
+function indented(text: string, indent: string): string[] {
+  return text.split('\n').map((line) => (line.trim() ? indent + line : ''))
+}
+
+function fenced(code: string, info = ''): string[] {
+  return [`\`\`\`${info}`, ...code.split('\n'), '```']
+}
+
+// Converted documentation keeps the optional marker with the type, as in `(int, optional)`
+const itemType = (entry: DocItem) =>
+  [entry.type, entry.optional && 'optional'].filter(Boolean).join(', ') || undefined
+
+const typed = (value: DocValue) => `${value.type ? `${value.type}: ` : ''}${value.description}`
+
+const writeGoogle: Writer = (doc) => {
+  const item = (entry: DocItem) => {
+    const type = itemType(entry)
+    return `    ${entry.name}${type ? ` (${type})` : ''}: ${entry.description}`
+  }
+  const blocks: string[][] = []
+  if (doc.params) blocks.push(['Args:', ...doc.params.map(item)])
+  if (doc.attributes) blocks.push(['Attributes:', ...doc.attributes.map(item)])
+  if (doc.returns) blocks.push(['Returns:', `    ${typed(doc.returns)}`])
+  if (doc.yields) blocks.push(['Yields:', `    ${typed(doc.yields)}`])
+  if (doc.raises) blocks.push(['Raises:', ...doc.raises.map((value) => `    ${typed(value)}`)])
+  if (doc.examples) blocks.push(['Examples:', ...indented(doc.examples, '    ')])
+  if (doc.notes) blocks.push(['Note:', ...indented(doc.notes, '    ')])
+  return blocks
+}
+
+const writeNumpy: Writer = (doc) => {
+  const heading = (title: string) => [title, '-'.repeat(title.length)]
+  const item = (head: string, description: string) =>
+    description ? [head, `    ${description}`] : [head]
+  const named = (entry: DocItem) => {
+    const type = itemType(entry)
+    return item(`${entry.name}${type ? ` : ${type}` : ''}`, entry.description)
+  }
+  const value = ({ type, description }: DocValue) =>
+    type ? item(type, description) : [description]
+
+  const blocks: string[][] = []
+  if (doc.params) blocks.push([...heading('Parameters'), ...doc.params.flatMap(named)])
+  if (doc.attributes) blocks.push([...heading('Attributes'), ...doc.attributes.flatMap(named)])
+  if (doc.returns) blocks.push([...heading('Returns'), ...value(doc.returns)])
+  if (doc.yields) blocks.push([...heading('Yields'), ...value(doc.yields)])
+  if (doc.raises) blocks.push([...heading('Raises'), ...doc.raises.flatMap(value)])
+  if (doc.notes) blocks.push([...heading('Notes'), ...doc.notes.split('\n')])
+  if (doc.examples) blocks.push([...heading('Examples'), ...doc.examples.split('\n')])
+  return blocks
+}
+
+const writeSphinx: Writer = (doc) => {
+  const fields: string[] = []
+  const named = (field: string, typeField: string, entry: DocItem) => {
+    fields.push(`:${field} ${entry.name}: ${entry.description}`)
+    const type = itemType(entry)
+    if (type) fields.push(`:${typeField} ${entry.name}: ${type}`)
+  }
+  doc.params?.forEach((entry) => named('param', 'type', entry))
+  doc.attributes?.forEach((entry) => named('ivar', 'vartype', entry))
+  if (doc.returns) {
+    fields.push(`:returns: ${doc.returns.description}`)
+    if (doc.returns.type) fields.push(`:rtype: ${doc.returns.type}`)
+  }
+  if (doc.yields) {
+    fields.push(`:yields: ${doc.yields.description}`)
+    if (doc.yields.type) fields.push(`:ytype: ${doc.yields.type}`)
+  }
+  for (const { type, description } of doc.raises ?? []) {
+    fields.push(type ? `:raises ${type}: ${description}` : `:raises: ${description}`)
+  }
+
+  const blocks: string[][] = []
+  // reStructuredText has no examples field; a literal block keeps the text verbatim
+  if (doc.examples) blocks.push(['Examples::', '', ...indented(doc.examples, '    ')])
+  if (doc.notes) blocks.push(['.. note::', '', ...indented(doc.notes, '   ')])
+  if (fields.length) blocks.push(fields)
+  return blocks
+}
+
+const writeJsDoc: Writer = (doc, options) => {
+  // TSDoc leaves types to the signature and writes remarks in a tag of their own
+  const typescript = options.language === 'typescript'
+  const braces = (type?: string) => (type && !typescript ? `{${type}} ` : '')
+  const tags: string[] = []
+  const named = (tag: string, entry: DocItem) => {
+    const description = entry.description ? ` - ${entry.description}` : ''
+    const name = entry.optional && !entry.name.startsWith('[') ? `[${entry.name}]` : entry.name
+    tags.push(`@${tag} ${braces(entry.type)}${name}${description}`)
+  }
+  doc.params?.forEach((entry) => named('param', entry))
+  doc.attributes?.forEach((entry) => named('property', entry))
+  if (doc.returns) tags.push(`@returns ${braces(doc.returns.type)}${doc.returns.description}`)
+  if (doc.yields) tags.push(`@yields ${braces(doc.yields.type)}${doc.yields.description}`)
+  for (const { type, description } of doc.raises ?? []) {
+    tags.push(`@throws ${type ? `{${type}} ` : ''}${description}`)
+  }
+  if (doc.examples) tags.push('@example', ...doc.examples.split('\n'))
+
+  const blocks: string[][] = []
+  if (doc.notes) blocks.push(typescript ? ['@remarks', ...doc.notes.split('\n')] : [doc.notes])
+  if (tags.length) blocks.push(tags)
+  return blocks
+}
+
+const writeJavadoc: Writer = (doc) => {
+  const tags: string[] = []
+  doc.params?.forEach((entry) => tags.push(`@param ${entry.name} ${entry.description}`))
+  if (doc.returns) tags.push(`@return ${doc.returns.description}`)
+  for (const { type, description } of doc.raises ?? []) {
+    tags.push(`@throws ${type ? `${type} ` : ''}${description}`)
+  }
+
+  const blocks: string[][] = []
+  if (doc.notes) blocks.push(['<p>', ...doc.notes.split('\n')])
+  if (doc.examples) blocks.push(['<pre>{@code', ...doc.examples.split('\n'), '}</pre>'])
+  if (tags.length) blocks.push(tags)
+  return blocks
+}
+
+const writeKDoc: Writer = (doc) => {
+  const tags: string[] = []
+  doc.params?.forEach((entry) => tags.push(`@param ${entry.name} ${entry.description}`))
+  doc.attributes?.forEach((entry) => tags.push(`@property ${entry.name} ${entry.description}`))
+  if (doc.returns) tags.push(`@return ${doc.returns.description}`)
+  for (const { type, description } of doc.raises ?? []) {
+    tags.push(`@throws ${type ? `${type} ` : ''}${description}`)
+  }
+
+  const blocks: string[][] = []
+  if (doc.notes) blocks.push(doc.notes.split('\n'))
+  if (doc.examples) blocks.push(fenced(doc.examples, 'kotlin'))
+  if (tags.length) blocks.push(tags)
+  return blocks
+}
+
+// Go doc comments are prose: parameters and results belong in the description
+const writeGoDoc: Writer = (doc) => {
+  const blocks: string[][] = []
+  if (doc.notes) blocks.push(doc.notes.split('\n'))
+  if (doc.examples) blocks.push(['Example:'], indented(doc.examples, '\t'))
+  return blocks
+}
+
+const writeRustdoc: Writer = (doc) => {
+  const blocks: string[][] = []
+  if (doc.returns?.description) blocks.push([doc.returns.description])
+  if (doc.notes) blocks.push(doc.notes.split('\n'))
+  if (doc.params) {
+    const items = doc.params.map((entry) => `* \`${entry.name}\` - ${entry.description}`)
+    blocks.push(['# Arguments'], items)
+  }
+  // Errors are returned in a `Result`; panics are not
+  const panics = doc.raises?.filter((value) => /panic/i.test(value.type ?? '')) ?? []
+  const errors = doc.raises?.filter((value) => !panics.includes(value)) ?? []
+  const list = (values: DocValue[]) =>
+    values.length > 1
+      ? values.map((value) => `* ${value.description}`)
+      : values.map((value) => value.description)
+  if (errors.length) blocks.push(['# Errors'], list(errors))
+  if (panics.length) blocks.push(['# Panics'], list(panics))
+  if (doc.examples) blocks.push(['# Examples'], fenced(doc.examples))
+  return blocks
+}
+
+const WRITERS: Record<DocstringFormat, Writer> = {
+  google: writeGoogle,
+  numpy: writeNumpy,
+  sphinx: writeSphinx,
+  jsdoc: writeJsDoc,
+  javadoc: writeJavadoc,
+  kdoc: writeKDoc,
+  godoc: writeGoDoc,
+  rustdoc: writeRustdoc,
+}
+
+/** Lays structured documentation out in `format`, without comment delimiters */
+export function renderDocstring(
+  doc: StructuredDocstring,
+  format: DocstringFormat,
+  options: RenderOptions = {}
+): string {
+  // JSDoc file headers open with an `@file` tag
+  const summary = options.module && format === 'jsdoc' ? `@file ${doc.summary}` : doc.summary
+  const blocks = [summary.split('\n')]
+  if (doc.description) blocks.push(doc.description.split('\n'))
+  blocks.push(...WRITERS[format](doc, options))
+  return blocks
+    .filter((block) => block.some((line) => line.trim()))
+    .map((block) => block.map((line) => line.trimEnd()).join('\n'))
+    .join('\n\n')
+}
+
+/**
+ * Renders the structured documentation the edge function returns in the requested format. It
+ * is laid out here, not by the model, so that every format renders the same way.
+ */
+export function renderGeneratedDocstrings(
+  request: GenerateDocstringRequest,
+  entries: Array<{ name: string; qualifiedName?: string; structured: StructuredDocstring }>
+): GenerateDocstringResponse['docstrings'] {
+  const format = getFormatOption(getLanguageDefinition(request.language)!, request.format).id
+  const types = new Map(request.functions.map((f) => [f.qualifiedName ?? f.name, f.type]))
+  return entries.map((entry) => ({
+    ...entry,
+    docstring: renderDocstring(entry.structured, format, {
+      language: request.language,
+      module: types.get(entry.qualifiedName ?? entry.name) === 'module',
+    }),
+  }))
+}
@@ -0,0 +1,663 @@
+import { FunctionMetadata } from '@/types'
+
+/** Section conventions recognised in existing documentation */
+export type DocStyle = 'google' | 'numpy' | 'sphinx' | 'tags' | 'rustdoc' | 'plain'
+
+type SectionKind =
+  | 'params'
+  | 'returns'
+  | 'yields'
+  | 'raises'
+  | 'attributes'
+  | 'examples'
+  | 'notes'
+  | 'other'
+
+export interface DocEntry {
+  /**
+   * Documented names, or the exception type of a raises entry; NumPy lets `x, y : int`
+   * share an entry
+   */
+  names: string[]
+  type?: string
+  /** Marked optional, as in `limit (int, optional)` */
+  optional?: boolean
+  /** Text after the name and type, joined into one line */
+  description: string
+  lines: string[]
+}
+
+export interface DocSection {
+  kind: SectionKind
+  /** Heading lines (`Args:`, a NumPy underline); empty in tag and field lists */
+  heading: string[]
+  entries: DocEntry[]
+  /** Blank lines after the last entry */
+  trailing: string[]
+}
+
+export interface ParsedDocstring {
+  style: DocStyle
+  summary: string[]
+  sections: DocSection[]
+}
+
+/** How existing documentation disagrees with the current signature */
+export interface DocDrift {
+  /** Parameters in the signature that the documentation does not describe */
+  added: string[]
+  /** Documented parameters that are no longer in the signature */
+  removed: string[]
+  /** The return value is undocumented, no longer produced, or has a different type */
+  returns?: 'added' | 'removed' | 'changed'
+}
+
+const GOOGLE_HEADING =
+  /^(Args|Arguments|Parameters|Params|Keyword Args|Keyword Arguments|Other Parameters|Returns?|Yields?|Raises|Attributes|Examples?|Notes?|Todo|Warnings?|See Also|References):\s*$/
+// Any other `Title:` line at the left margin that has an indented block below it starts a
+// section that is kept as written
+const GENERIC_HEADING = /^\w[\w ]*:$/
+const NUMPY_UNDERLINE = /^\s*-{3,}\s*$/
+const RUSTDOC_HEADING = /^#{1,6}\s+(.+?)\s*$/
+const SPHINX_FIELD = /^:(\w+)(?:\s+([^:]*?))?\s*:(?:\s+(.*))?$/
+const TAG = /^@(\w+)(?:\s+(.*))?$/
+const FENCE = /^\s*(```|~~~)/
+
+const PARAM_HEADINGS = new Set([
+  'args',
+  'arguments',
+  'parameters',
+  'params',
+  'keyword args',
+  'keyword arguments',
+  'other parameters',
+])
+const RETURN_HEADINGS = new Set(['returns', 'return'])
+const PARAM_FIELDS = new Set(['param', 'parameter', 'arg', 'argument', 'key', 'keyword', 'type'])
+const RETURN_FIELDS = new Set(['returns', 'return', 'rtype'])
+const RAISE_FIELDS = new Set(['raises', 'raise', 'except', 'exception'])
+const ATTRIBUTE_FIELDS = new Set(['ivar', 'cvar', 'var', 'vartype'])
+const PARAM_TAGS = new Set(['param', 'arg', 'argument'])
+const RAISE_TAGS = new Set(['throws', 'exception', 'raises'])
+// Entry sections hold one entry per name; other sections are kept as a block of text
+const ENTRY_KINDS = new Set<SectionKind>(['params', 'raises', 'attributes'])
+
+// Return types that mean nothing is returned
+const NO_VALUE = /^(?:void|None|Unit|Nothing|never|\(\)|Promise<void>)$/
+
+function indentOf(line: string): number {
+  return line.match(/^\s*/)?.[0].length ?? 0
+}
+
+/** Splits documentation into lines, removing the indentation shared by all but the first */
+function cleanLines(text: string): string[] {
+  const lines = text.replace(/\r\n/g, '\n').split('\n')
+  const indents = lines
+    .slice(1)
+    .filter((line) => line.trim())
+    .map(indentOf)
+  const indent = indents.length ? Math.min(...indents) : 0
+  const cleaned = [lines[0].trim(), ...lines.slice(1).map((line) => line.slice(indent).trimEnd())]
+  while (cleaned.length && !cleaned[0]) cleaned.shift()
+  while (cleaned.length && !cleaned[cleaned.length - 1]) cleaned.pop()
+  return cleaned
+}
+
+function detectStyle(lines: string[]): DocStyle {
+  if (lines.some((line, i) => line.trim() && NUMPY_UNDERLINE.test(lines[i + 1] ?? ''))) {
+    return 'numpy'
+  }
+  if (lines.some((line) => SPHINX_FIELD.test(line))) return 'sphinx'
+  if (lines.some((line) => TAG.test(line))) return 'tags'
+  if (lines.some((line) => RUSTDOC_HEADING.test(line))) return 'rustdoc'
+  if (lines.some((line) => GOOGLE_HEADING.test(line))) return 'google'
+  return 'plain'
+}
+
+function headingKind(title: string): SectionKind {
+  const key = title.toLowerCase()
+  if (PARAM_HEADINGS.has(key)) return 'params'
+  if (RETURN_HEADINGS.has(key)) return 'returns'
+  if (key === 'raises') return 'raises'
+  if (key === 'attributes') return 'attributes'
+  if (key === 'yields' || key === 'yield') return 'yields'
+  if (key === 'example' || key === 'examples') return 'examples'
+  if (key === 'note' || key === 'notes') return 'notes'
+  return 'other'
+}
+
+/** Strips markers that are not part of a parameter's name: `*args`, `...rest`, `[opt=1]` */
+function normalizeName(name: string): string {
+  return name
+    .replace(/^[*.[`]+|[\]`]+$/g, '')
+    .replace(/=.*$/, '')
+    .split('.')[0]
+}
+
+const OPTIONAL = /(?:^|,)\s*optional$/
+
+function cleanType(type: string | undefined): string | undefined {
+  const cleaned = type?.replace(OPTIONAL, '').trim()
+  return cleaned || undefined
+}
+
+function joinDescription(parts: string[]): string {
+  return parts
+    .map((part) => part.trim())
+    .filter(Boolean)
+    .join(' ')
+}
+
+/** Reads the parameter an entry of a heading-style section starts with, if any */
+function readHeadingEntry(line: string, style: DocStyle): Omit<DocEntry, 'lines'> | null {
+  if (style === 'google') {
+    const match = line.match(/^\s*(\*{0,2}[\w.]+)\s*(?:\(([^)]*)\))?\s*:(?:\s+(.*))?$/)
+    if (!match) return null
+    const optional = OPTIONAL.test(match[2] ?? '') || undefined
+    return { names: [match[1]], type: cleanType(match[2]), optional, description: match[3] ?? '' }
+  }
+  if (style === 'numpy') {
+    const match = line.match(/^\s*(\*{0,2}[\w.]+(?:\s*,\s*\*{0,2}[\w.]+)*)\s*(?::\s*(.*))?$/)
+    if (!match) return null
+    const names = match[1].split(',').map((name) => name.trim())
+    const optional = OPTIONAL.test(match[2] ?? '') || undefined
+    return { names, type: cleanType(match[2]), optional, description: '' }
+  }
+  const match = line.match(/^\s*[*-]\s+`?([\w.]+)`?\s*(?:[-:–]\s*(.*))?$/)
+  return match ? { names: [match[1]], description: match[2] ?? '' } : null
+}
+
+/** Reads the type a heading-style returns section starts with, if it names one */
+function readReturnType(line: string, style: DocStyle): string | undefined {
+  if (style === 'google') {
+    return line.match(/^\s*([\w.[\]|]+(?:,\s*[\w.[\]|]+)*):\s/)?.[1]
+  }
+  if (style === 'numpy') {
+    const match = line.match(/^\s*(?:[\w.]+\s+:\s+)?([\w.[\], |]+)$/)
+    return match ? cleanType(match[1]) : undefined
+  }
+  return undefined
+}
+
+function splitHeadingSection(
+  kind: SectionKind,
+  heading: string[],
+  body: string[],
+  style: DocStyle
+): DocSection {
+  let end = body.length
+  while (end > 0 && !body[end - 1].trim()) end--
+  const content = body.slice(0, end)
+  const trailing = body.slice(end)
+  const entries: DocEntry[] = []
+
+  if (ENTRY_KINDS.has(kind)) {
+    const entryIndent = indentOf(content.find((line) => line.trim()) ?? '')
+    for (const line of content) {
+      const entry =
+        line.trim() && (style === 'rustdoc' || indentOf(line) === entryIndent)
+          ? readHeadingEntry(line, style)
+          : null
+      const last = entries[entries.length - 1]
+      if (entry || !last) {
+        entries.push({ ...(entry ?? { names: [], description: '' }), lines: [line] })
+      } else {
+        last.lines.push(line)
+        last.description = joinDescription([last.description, line])
+      }
+    }
+  } else if (content.length) {
+    const first = content.find((line) => line.trim()) ?? ''
+    const valued = kind === 'returns' || kind === 'yields'
+    const type = valued ? readReturnType(first, style) : undefined
+    let description = joinDescription(content)
+    if (type && style === 'google') description = description.replace(/^[^:]*:\s*/, '')
+    if (type && style === 'numpy') description = joinDescription(content.slice(1))
+    entries.push({ names: [], type, description, lines: content })
+  }
+  return { kind, heading, entries, trailing }
+}
+
+/** Google, NumPy and rustdoc: sections under headings */
+function parseHeadingStyle(lines: string[], style: DocStyle): ParsedDocstring {
+  const summary: string[] = []
+  const raw: Array<{ kind: SectionKind; heading: string[]; body: string[] }> = []
+  let fenced = false
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i]
+    let title: string | undefined
+    let length = 1
+    if (!fenced) {
+      const next = lines[i + 1] ?? ''
+      const opensBlock = next.trim() !== '' && indentOf(next) > indentOf(line)
+      if (
+        style === 'google' &&
+        (GOOGLE_HEADING.test(line) || (GENERIC_HEADING.test(line) && opensBlock))
+      ) {
+        title = line.trim().slice(0, -1)
+      } else if (style === 'numpy' && line.trim() && NUMPY_UNDERLINE.test(lines[i + 1] ?? '')) {
+        title = line.trim()
+        length = 2
+      } else if (style === 'rustdoc') {
+        title = line.match(RUSTDOC_HEADING)?.[1]
+      }
+    }
+    if (FENCE.test(line)) fenced = !fenced
+
+    if (title !== undefined) {
+      raw.push({ kind: headingKind(title), heading: lines.slice(i, i + length), body: [] })
+      i += length - 1
+      continue
+    }
+    if (raw.length) raw[raw.length - 1].body.push(line)
+    else summary.push(line)
+  }
+
+  const sections = raw.map((s) => splitHeadingSection(s.kind, s.heading, s.body, style))
+  return { style, summary, sections }
+}
+
+/** Reads a Sphinx field or a JSDoc/Javadoc/KDoc tag that starts an entry */
+function readField(
+  line: string,
+  style: DocStyle
+): (Omit<DocEntry, 'lines'> & { kind: SectionKind }) | null {
+  if (style === 'sphinx') {
+    const match = line.match(SPHINX_FIELD)
+    if (!match) return null
+    const [, field, argument = '', rest = ''] = match
+    if (field === 'type' || field === 'vartype') {
+      const kind = field === 'type' ? 'params' : 'attributes'
+      const optional = OPTIONAL.test(rest) || undefined
+      return { kind, names: [argument], type: cleanType(rest), optional, description: '' }
+    }
+    if (PARAM_FIELDS.has(field) || ATTRIBUTE_FIELDS.has(field)) {
+      // `:param int count:` puts the type before the name
+      const words = argument.split(/\s+/)
+      const name = words.pop() ?? ''
+      const kind = PARAM_FIELDS.has(field) ? 'params' : 'attributes'
+      return { kind, names: [name], type: cleanType(words.join(' ')), description: rest }
+    }
+    if (RAISE_FIELDS.has(field)) {
+      return { kind: 'raises', names: argument ? [argument] : [], description: rest }
+    }
+    if (RETURN_FIELDS.has(field)) {
+      const isType = field === 'rtype'
+      return {
+        kind: 'returns',
+        names: [],
+        type: isType ? rest.trim() || undefined : undefined,
+        description: isType ? '' : rest,
+      }
+    }
+    return { kind: 'other', names: [], description: rest }
+  }
+
+  const match = line.match(TAG)
+  if (!match) return null
+  const [, tag, rest = ''] = match
+  if (PARAM_TAGS.has(tag) || tag === 'property' || tag === 'prop') {
+    const kind = PARAM_TAGS.has(tag) ? 'params' : 'attributes'
+    const param = rest.match(/^(?:\{([^}]*)\}\s*)?(\[[^\]]*\]|<[^>]*>|\S+)\s*(?:-\s+)?(.*)$/)
+    if (!param) return { kind, names: [], description: rest }
+    return {
+      kind,
+      names: [param[2]],
+      type: param[1]?.replace(/=$/, ''),
+      description: param[3],
+    }
+  }
+  if (tag === 'returns' || tag === 'return') {
+    const returns = rest.match(/^(?:\{([^}]*)\}\s*)?(.*)$/)
+    return { kind: 'returns', names: [], type: returns?.[1], description: returns?.[2] ?? '' }
+  }
+  if (RAISE_TAGS.has(tag)) {
+    // `@throws {TypeError} when` in JSDoc, `@throws IOException when` in Javadoc
+    const raises =
+      rest.match(/^\{([^}]*)\}\s*(.*)$/) ?? rest.match(/^([\w.]*(?:Error|Exception))\b\s*(.*)$/)
+    return raises
+      ? { kind: 'raises', names: [raises[1]], description: raises[2] }
+      : { kind: 'raises', names: [], description: rest }
+  }
+  if (tag === 'example') return { kind: 'examples', names: [], description: rest }
+  return { kind: 'other', names: [], description: rest }
+}
+
+/** Sphinx and tag styles: entries are fields, grouped into sections by kind */
+function parseFieldStyle(lines: string[], style: DocStyle): ParsedDocstring {
+  const summary: string[] = []
+  const sections: DocSection[] = []
+  let pending: string[] = []
+  let fenced = false
+
+  for (const line of lines) {
+    const field = fenced ? null : readField(line, style)
+    if (FENCE.test(line)) fenced = !fenced
+    const section = sections[sections.length - 1]
+
+    if (field) {
+      const { kind, ...entry } = field
+      if (!section || section.kind !== kind || pending.length) {
+        if (section) section.trailing.push(...pending)
+        else summary.push(...pending)
+        sections.push({ kind, heading: [], entries: [], trailing: [] })
+      }
+      sections[sections.length - 1].entries.push({ ...entry, lines: [line] })
+      pending = []
+    } else if (!line.trim()) {
+      pending.push(line)
+    } else if (section) {
+      const entry = section.entries[section.entries.length - 1]
+      entry.lines.push(...pending, line)
+      entry.description = joinDescription([entry.description, line])
+      pending = []
+    } else {
+      summary.push(...pending, line)
+      pending = []
+    }
+  }
+  if (sections.length) sections[sections.length - 1].trailing.push(...pending)
+  else summary.push(...pending)
+  return { style, summary, sections }
+}
+
+/** Splits documentation text into its summary and sections */
+export function parseDocstring(text: string): ParsedDocstring {
+  const lines = cleanLines(text)
+  const style = detectStyle(lines)
+  if (style === 'plain') return { style, summary: lines, sections: [] }
+  if (style === 'sphinx' || style === 'tags') return parseFieldStyle(lines, style)
+  return parseHeadingStyle(lines, style)
+}
+
+export function renderDocstring(doc: ParsedDocstring): string {
+  const lines = [
+    ...doc.summary,
+    ...doc.sections.flatMap((section) => [
+      ...section.heading,
+      ...section.entries.flatMap((entry) => entry.lines),
+      ...section.trailing,
+    ]),
+  ]
+  while (lines.length && !lines[lines.length - 1].trim()) lines.pop()
+  return lines.join('\n')
+}
+
+function signatureParams(func: FunctionMetadata) {
+  return func.params.filter(
+    (param) => param.kind !== 'destructured' && param.name !== '_' && param.name !== 'this'
+  )
+}
+
+/** Whether the declaration produces a value, or undefined when that is unknown */
+function producesValue(func: FunctionMetadata): boolean | undefined {
+  if (func.analysis?.yields) return undefined
+  if (func.returnType) return !NO_VALUE.test(func.returnType.trim())
+  return func.analysis?.returnsValue
+}
+
+function sameType(a: string, b: string): boolean {
+  return a.replace(/\s+/g, '') === b.replace(/\s+/g, '')
+}
+
+/**
+ * Compares existing documentation with the declaration's signature. Documentation without
+ * parameter or return sections is never reported, since it makes no claims to check.
+ */
+export function detectDocDrift(func: FunctionMetadata): DocDrift | undefined {
+  if (func.docstring === undefined) return undefined
+  if (func.type !== 'function' && func.type !== 'method' && func.type !== 'class') return undefined
+  if (func.type === 'class' && func.params.length === 0) return undefined
+
+  const doc = parseDocstring(func.docstring)
+  if (!doc.sections.some((section) => section.kind === 'params' || section.kind === 'returns')) {
+    return undefined
+  }
+
+  const documented = doc.sections
+    .filter((section) => section.kind === 'params')
+    .flatMap((section) => section.entries.flatMap((entry) => entry.names))
+    .filter((name) => !name.startsWith('<'))
+    .map(normalizeName)
+  const signature = signatureParams(func).map((param) => param.name)
+  const added = signature.filter((name) => !documented.includes(name))
+  // A documented name may belong to a destructured parameter, which has no name of its own
+  const destructured = func.params.some((param) => param.kind === 'destructured')
+  const removed = destructured
+    ? []
+    : [...new Set(documented.filter((name) => name && !signature.includes(name)))]
+
+  let returns: DocDrift['returns']
+  if (func.type !== 'class') {
+    const returnEntries = doc.sections
+      .filter((section) => section.kind === 'returns')
+      .flatMap((section) => section.entries)
+    const produces = producesValue(func)
+    const documentedType = returnEntries.find((entry) => entry.type)?.type
+    if (returnEntries.length && produces === false) returns = 'removed'
+    // rustdoc describes the return value in prose rather than a section of its own
+    else if (!returnEntries.length && produces && doc.style !== 'rustdoc') returns = 'added'
+    else if (documentedType && func.returnType && !sameType(documentedType, func.returnType)) {
+      returns = 'changed'
+    }
+  }
+
+  if (!added.length && !removed.length && !returns) return undefined
+  return { added, removed, returns }
+}
+
+/** Renders a parameter entry like `exemplar`, an existing entry of the same documentation */
+function renderParam(
+  style: DocStyle,
+  name: string,
+  type: string | undefined,
+  description: string,
+  exemplar: DocEntry | undefined
+): DocEntry[] {
+  const first = exemplar?.lines[0] ?? ''
+  const indent = first.match(/^\s*/)?.[0] ?? ''
+  const entry = (line: string, extra: string[] = []): DocEntry => ({
+    names: [name],
+    type,
+    description,
+    lines: [line, ...extra],
+  })
+
+  switch (style) {
+    case 'google': {
+      const typed = exemplar ? /^\s*\S+\s*\(/.test(first) : !!type
+      const prefix = exemplar ? indent : '    '
+      return [entry(`${prefix}${name}${typed && type ? ` (${type})` : ''}: ${description}`)]
+    }
+    case 'numpy': {
+      const inner = exemplar?.lines[1]?.match(/^\s*/)?.[0] || `${indent}    `
+      return [entry(`${indent}${name}${type ? ` : ${type}` : ''}`, [`${inner}${description}`])]
+    }
+    case 'sphinx': {
+      const entries = [entry(`:param ${name}: ${description}`)]
+      if (type) entries.push({ ...entry(`:type ${name}: ${type}`), description: '' })
+      return entries
+    }
+    case 'tags': {
+      const tag = first.match(TAG)?.[1] ?? 'param'
+      const braces = exemplar ? /^@\w+\s+\{/.test(first) : false
+      const dash = /^@\w+\s+(?:\{[^}]*\}\s*)?\S+\s+-\s/.test(first)
+      const typeText = braces && type ? `{${type}} ` : ''
+      return [entry(`@${tag} ${typeText}${name}${dash ? ' -' : ''} ${description}`)]
+    }
+    default: {
+      const bullet = first.match(/^\s*[*-]/)?.[0] ?? '*'
+      return [entry(`${bullet} \`${name}\` - ${description}`)]
+    }
+  }
+}
+
+/** Builds a returns section in `style` from the parts of one written in another style */
+function renderReturns(style: DocStyle, entry: DocEntry, trailing: string[]): DocSection {
+  const { type, description } = entry
+  const section = (heading: string[], lines: string[]): DocSection => ({
+    kind: 'returns',
+    heading,
+    entries: [{ names: [], type, description, lines }],
+    trailing,
+  })
+  switch (style) {
+    case 'google':
+      return section(['Returns:'], [`    ${type ? `${type}: ` : ''}${description}`])
+    case 'numpy':
+      return section(['Returns', '-------'], [type ?? 'object', `    ${description}`])
+    case 'sphinx':
+      return section([], [`:returns: ${description}`, ...(type ? [`:rtype: ${type}`] : [])])
+    case 'rustdoc':
+      return section(['# Returns'], [description])
+    default:
+      return section([], [`@returns ${type ? `{${type}} ` : ''}${description}`])
+  }
+}
+
+const HEADING_STYLES: DocStyle[] = ['google', 'numpy', 'rustdoc']
+const PARAMS_HEADING: Partial<Record<DocStyle, string[]>> = {
+  google: ['Args:'],
+  numpy: ['Parameters', '----------'],
+  rustdoc: ['# Arguments'],
+}
+
+/**
+ * Updates the parameter and return sections of `existing` documentation from `generated`
+ * documentation for the same declaration, keeping the summary and every other section.
+ * Entries for parameters still in the signature keep their hand-written text.
+ */
+export function mergeDocstring(
+  existing: string,
+  generated: string,
+  func: FunctionMetadata
+): string {
+  const drift = detectDocDrift({ ...func, docstring: existing })
+  const doc = parseDocstring(existing)
+  if (!drift) return renderDocstring(doc)
+
+  const fresh = parseDocstring(generated)
+  const freshEntries = fresh.sections
+    .filter((section) => section.kind === 'params')
+    .flatMap((section) => section.entries)
+  const headed = HEADING_STYLES.includes(doc.style)
+  let sections = doc.sections
+
+  if (drift.added.length || drift.removed.length) {
+    const oldEntries = sections
+      .filter((section) => section.kind === 'params')
+      .flatMap((section) => section.entries)
+    const exemplar = oldEntries.find((entry) => entry.names.length)
+    // NumPy entries can name several parameters: `x, y : int`
+    const withoutRemoved = (entry: DocEntry): DocEntry => {
+      const names = entry.names.filter((name) => !drift.removed.includes(normalizeName(name)))
+      if (names.length === entry.names.length) return entry
+      const [first, ...rest] = entry.lines
+      const line = first.replace(/^(\s*)[^:]*?(\s*(?::.*)?)$/, `$1${names.join(', ')}$2`)
+      return { ...entry, names, lines: [line, ...rest] }
+    }
+    const used = new Set<DocEntry>()
+    const entries: DocEntry[] = []
+
+    const signature = signatureParams(func).map((param) => param.name)
+    for (const param of func.params) {
+      // A destructured parameter takes the documented names no other parameter claims
+      const documented = oldEntries.filter((entry) =>
+        param.kind === 'destructured'
+          ? entry.names.some(
+              (name) => !name.startsWith('<') && !signature.includes(normalizeName(name))
+            )
+          : entry.names.some((name) => normalizeName(name) === param.name)
+      )
+      if (documented.length) {
+        for (const entry of documented.filter((entry) => !used.has(entry))) {
+          used.add(entry)
+          entries.push(withoutRemoved(entry))
+        }
+        continue
+      }
+      if (!signature.includes(param.name)) continue
+      // Sphinx documents the type in a separate `:type:` field
+      const matches = freshEntries.filter((entry) =>
+        entry.names.some((name) => normalizeName(name) === param.name)
+      )
+      if (!matches.length) continue
+      const type = matches.find((entry) => entry.type)?.type ?? param.type
+      const { description } = matches.find((entry) => entry.description) ?? matches[0]
+      entries.push(...renderParam(doc.style, param.name, type, description, exemplar))
+    }
+
+    // Entries that name no parameter (type parameters, prose) stay where they were
+    const keep = (entry: DocEntry) =>
+      !used.has(entry) &&
+      (!entry.names.length ||
+        entry.names.some((name) => name.startsWith('<')) ||
+        !drift.removed.some((name) => entry.names.map(normalizeName).includes(name)))
+    const firstNamed = oldEntries.findIndex((entry) => used.has(entry))
+    const before = oldEntries.slice(0, Math.max(firstNamed, 0)).filter(keep)
+    const after = oldEntries.slice(Math.max(firstNamed, 0)).filter(keep)
+    const merged = [...before, ...entries, ...after]
+
+    const index = sections.findIndex((section) => section.kind === 'params')
+    if (index !== -1) {
+      const section = { ...sections[index], entries: merged }
+      sections = sections.filter((s, i) => s.kind !== 'params' || i === index)
+      sections = merged.length
+        ? sections.map((s, i) => (i === index ? section : s))
+        : sections.filter((_, i) => i !== index)
+    } else if (merged.length) {
+      const section: DocSection = {
+        kind: 'params',
+        heading: PARAMS_HEADING[doc.style] ?? [],
+        entries: merged,
+        trailing: headed ? [''] : [],
+      }
+      sections = [section, ...sections]
+    }
+  }
+
+  if (drift.returns) {
+    const freshReturns = fresh.sections.find((section) => section.kind === 'returns')
+    const index = sections.findIndex((section) => section.kind === 'returns')
+    const trailing = index !== -1 ? sections[index].trailing : headed ? [''] : []
+    sections = sections.filter((section) => section.kind !== 'returns')
+
+    if (drift.returns !== 'removed' && freshReturns?.entries.length) {
+      const section =
+        fresh.style === doc.style
+          ? { ...freshReturns, trailing }
+          : renderReturns(doc.style, freshReturns.entries[0], trailing)
+      const lastParams = sections.map((s) => s.kind).lastIndexOf('params')
+      const at = index !== -1 ? Math.min(index, sections.length) : lastParams + 1
+      sections = [...sections.slice(0, at), section, ...sections.slice(at)]
+    }
+  }
+
+  // Heading styles separate the summary and sections with blank lines
+  if (headed && sections.length && doc.summary.length) {
+    const last = doc.summary[doc.summary.length - 1]
+    if (last.trim()) doc.summary.push('')
+  }
+  sections = sections.map((section, i) =>
+    headed && i < sections.length - 1 && !section.trailing.length
+      ? { ...section, trailing: [''] }
+      : section
+  )
+  return renderDocstring({ ...doc, sections })
+}
+
+/** Short phrases describing each mismatch, e.g. `undocumented timeout` */
+export function describeDrift(drift: DocDrift): string[] {
+  const changes: string[] = []
+  if (drift.added.length === 1 && drift.removed.length === 1) {
+    changes.push(`${drift.removed[0]} renamed to ${drift.added[0]}`)
+  } else {
+    if (drift.added.length) changes.push(`undocumented ${drift.added.join(', ')}`)
+    if (drift.removed.length) changes.push(`documents removed ${drift.removed.join(', ')}`)
+  }
+  if (drift.returns === 'added') changes.push('return value undocumented')
+  if (drift.returns === 'removed') changes.push('no longer returns a value')
+  if (drift.returns === 'changed') changes.push('return type changed')
+  return changes
+}
@@ -0,0 +1,286 @@
+import { FunctionMetadata, ParameterInfo } from '@/types'
+import { analyzeGoBody } from '@/utils/bodyAnalysis'
+import {
+  BraceSource,
+  createBraceSource,
+  findAttachedLineDocComment,
+  findMatchingBrace,
+  lineAt,
+  skipWhitespace,
+  splitTopLevel,
+} from '@/utils/braceLexer'
+
+// Compiler directives such as `//go:generate` sit between a doc comment and its declaration
+const GO_DIRECTIVE = /^\s*\/\/(?:[a-z0-9]+:\S|export\s|line\s|nolint)/
+
+interface GoDeclaration {
+  name: string
+  /** Receiver type for methods, without pointer or type arguments */
+  receiverType?: string
+  type: FunctionMetadata['type']
+  params: ParameterInfo[]
+  returnType?: string
+  analysis?: FunctionMetadata['analysis']
+  body: string
+  endOffset: number
+  /** Line range of an interface body, whose method specs are documented as well */
+  block?: { from: number; to: number }
+  /** `type ( ... )` groups hold further type specs but are not documented themselves */
+  group?: boolean
+}
+
+/**
+ * Splits a Go parameter or result list. Consecutive names share the type that follows them,
+ * as in `a, b int`; a list of bare types (`int, error`) has no names at all.
+ */
+function splitGoParams(text: string, masked: string): ParameterInfo[] {
+  const groups = splitTopLevel(masked)
+    .map(([start, end]) => text.slice(start, end).trim().replace(/\s+/g, ' '))
+    .filter(Boolean)
+  const named = groups.some(
+    (group) => /^[\p{L}_][\p{L}\p{N}_]*\s+\S/u.test(group) && !/^(?:chan|func|map)\b/.test(group)
+  )
+
+  if (!named) {
+    return groups.map((group) => ({
+      name: '_',
+      type: group.replace(/^\.\.\./, ''),
+      kind: group.startsWith('...') ? 'variadic' : 'positional',
+    }))
+  }
+
+  const params: ParameterInfo[] = []
+  let pending: string[] = []
+  for (const group of groups) {
+    const match = group.match(/^([\p{L}_][\p{L}\p{N}_]*)(?:\s+(.+))?$/u)
+    if (!match) continue
+    if (!match[2]) {
+      pending.push(match[1])
+      continue
+    }
+    const variadic = match[2].startsWith('...')
+    const type = variadic ? match[2].slice(3).trim() : match[2]
+    for (const name of [...pending, match[1]]) {
+      params.push({ name, type, kind: variadic ? 'variadic' : 'positional' })
+    }
+    pending = []
+  }
+  return params
+}
+
+/** Reads a result list or type up to the body's opening brace or the end of the line */
+function readGoResults(masked: string, offset: number): number {
+  let i = offset
+  while (i < masked.length && masked[i] !== '\n' && masked[i] !== ';') {
+    if (masked[i] === '(' || masked[i] === '[') {
+      i = findMatchingBrace(masked, i) + 1
+      continue
+    }
+    if (masked[i] === '{') {
+      // `interface{}` and `struct{ ... }` are types rather than the body
+      if (!/\b(?:interface|struct)\s*$/.test(masked.slice(offset, i))) break
+      i = findMatchingBrace(masked, i) + 1
+      continue
+    }
+    i++
+  }
+  return i
+}
+
+function readGoDeclaration(
+  src: BraceSource,
+  lineIndex: number,
+  scope: 'interface' | 'types' | undefined
+): GoDeclaration | null {
+  const { code, masked } = src
+  const line = src.lines[lineIndex]
+  const lineStart = src.lineStarts[lineIndex]
+
+  const signature = (
+    name: string,
+    openParen: number,
+    receiver?: { name?: string; type: string }
+  ): GoDeclaration => {
+    const close = findMatchingBrace(masked, openParen)
+    const params = splitGoParams(
+      code.slice(openParen + 1, close),
+      masked.slice(openParen + 1, close)
+    )
+    const resultsStart = skipWhitespace(masked, close + 1)
+    const resultsEnd = readGoResults(masked, resultsStart)
+    const returnType = code.slice(resultsStart, resultsEnd).trim() || undefined
+    const type = receiver || scope === 'interface' ? 'method' : 'function'
+
+    if (masked[resultsEnd] !== '{') {
+      // Interface method specs and functions implemented in assembly have no body
+      return {
+        name,
+        receiverType: receiver?.type,
+        type,
+        params,
+        returnType,
+        body: '',
+        endOffset: Math.max(close, resultsEnd - 1),
+      }
+    }
+    const end = findMatchingBrace(masked, resultsEnd)
+    const maskedBody = masked.slice(resultsEnd + 1, end)
+    return {
+      name,
+      receiverType: receiver?.type,
+      type,
+      params,
+      returnType,
+      analysis: analyzeGoBody(maskedBody, receiver?.name, !!returnType),
+      body: code.slice(resultsEnd + 1, end).trim(),
+      endOffset: end,
+    }
+  }
+
+  if (scope === 'interface') {
+    const methodMatch = line.match(/^\s*([\p{L}_][\p{L}\p{N}_]*)\s*(?=\()/u)
+    return methodMatch ? signature(methodMatch[1], lineStart + methodMatch[0].length) : null
+  }
+
+  const funcMatch = scope ? null : line.match(/^func\b\s*/)
+  if (funcMatch) {
+    let i = lineStart + funcMatch[0].length
+    let receiver: { name?: string; type: string } | undefined
+    if (masked[i] === '(') {
+      const close = findMatchingBrace(masked, i)
+      const receiverMatch = code
+        .slice(i + 1, close)
+        .trim()
+        .match(/^(?:([\p{L}_][\p{L}\p{N}_]*)\s+)?\*?\s*([\p{L}_][\p{L}\p{N}_]*)/u)
+      if (!receiverMatch) return null
+      receiver = { name: receiverMatch[1], type: receiverMatch[2] }
+      i = skipWhitespace(masked, close + 1)
+    }
+    const nameMatch = masked.slice(i).match(/^([\p{L}_][\p{L}\p{N}_]*)\s*/u)
+    if (!nameMatch) return null
+    i += nameMatch[0].length
+    // Type parameters: `func Map[T, U any](...)`
+    if (masked[i] === '[') i = skipWhitespace(masked, findMatchingBrace(masked, i) + 1)
+    if (masked[i] !== '(') return null
+    return signature(nameMatch[1], i, receiver)
+  }
+
+  if (!scope && /^type\s*\(/.test(line)) {
+    const open = masked.indexOf('(', lineStart)
+    const close = findMatchingBrace(masked, open)
+    return {
+      name: '',
+      type: 'type',
+      params: [],
+      body: '',
+      endOffset: close,
+      block: { from: lineAt(src, open) + 1, to: lineAt(src, close) },
+      group: true,
+    }
+  }
+
+  const typeMatch = line.match(
+    scope === 'types'
+      ? /^\s*([\p{L}_][\p{L}\p{N}_]*)\s*/u
+      : /^type\s+([\p{L}_][\p{L}\p{N}_]*)\s*/u
+  )
+  if (!typeMatch) return null
+  let i = lineStart + typeMatch[0].length
+  if (masked[i] === '[') i = skipWhitespace(masked, findMatchingBrace(masked, i) + 1)
+
+  const kindMatch = masked.slice(i).match(/^(struct|interface)\s*\{/)
+  if (kindMatch) {
+    const open = i + kindMatch[0].length - 1
+    const close = findMatchingBrace(masked, open)
+    const isInterface = kindMatch[1] === 'interface'
+    return {
+      name: typeMatch[1],
+      type: isInterface ? 'interface' : 'class',
+      params: [],
+      body: code.slice(open + 1, close).trim(),
+      endOffset: close,
+      block: isInterface ? { from: lineAt(src, open) + 1, to: lineAt(src, close) } : undefined,
+    }
+  }
+
+  // Defined types and aliases: `type Celsius float64`, `type Handler = func(ctx Context)`
+  const end = readGoResults(masked, i)
+  return {
+    name: typeMatch[1],
+    type: 'type',
+    params: [],
+    body: code.slice(i, end).replace(/^=\s*/, '').trim(),
+    endOffset: Math.max(i, end - 1),
+  }
+}
+
+function parseGoRange(
+  src: BraceSource,
+  from: number,
+  to: number,
+  scope: { kind: 'interface' | 'types'; qualifiedName?: string } | undefined,
+  functions: FunctionMetadata[]
+) {
+  let i = from
+  while (i < to) {
+    const declaration = src.lines[i].trim() ? readGoDeclaration(src, i, scope?.kind) : null
+    if (!declaration) {
+      i++
+      continue
+    }
+    const endLine = lineAt(src, declaration.endOffset)
+
+    if (declaration.group && declaration.block) {
+      const { from: groupFrom, to: groupTo } = declaration.block
+      parseGoRange(src, groupFrom, groupTo, { kind: 'types' }, functions)
+      i = Math.max(endLine + 1, i + 1)
+      continue
+    }
+
+    // Directives belong to the declaration; the doc comment goes above them
+    let startLine = i
+    const lineText = (line: number) =>
+      src.code.slice(src.lineStarts[line], src.lineStarts[line + 1] ?? src.code.length)
+    while (startLine > from && GO_DIRECTIVE.test(lineText(startLine - 1))) startLine--
+    const lineOf = (offset: number) => lineAt(src, offset)
+    const doc = findAttachedLineDocComment(
+      src.code,
+      src.spans,
+      src.lineStarts[startLine],
+      '//',
+      lineOf
+    )
+
+    const parent = declaration.receiverType ?? scope?.qualifiedName
+    const metadata: FunctionMetadata = {
+      name: declaration.name,
+      qualifiedName: parent ? `${parent}.${declaration.name}` : declaration.name,
+      parent,
+      params: declaration.params,
+      returnType: declaration.returnType,
+      analysis: declaration.analysis,
+      body: declaration.body,
+      startLine,
+      endLine,
+      type: declaration.type,
+      docstring: doc?.text,
+      docstringStartLine: doc?.startLine,
+      docstringEndLine: doc?.endLine,
+    }
+    functions.push(metadata)
+
+    if (declaration.block) {
+      const { from: blockFrom, to: blockTo } = declaration.block
+      const interfaceScope = { kind: 'interface' as const, qualifiedName: metadata.qualifiedName }
+      parseGoRange(src, blockFrom, blockTo, interfaceScope, functions)
+    }
+    i = Math.max(endLine + 1, i + 1)
+  }
+}
+
+export function parseGoCode(code: string): FunctionMetadata[] {
+  const functions: FunctionMetadata[] = []
+  const src = createBraceSource(code, { backtickStrings: true })
+  parseGoRange(src, 0, src.lines.length, undefined, functions)
+  return functions
+}
@@ -0,0 +1,179 @@
+export type JsSpanKind = 'comment' | 'string' | 'template' | 'regex'
+
+export interface JsSpan {
+  kind: JsSpanKind
+  /** Offset of the first character, including delimiters */
+  start: number
+  /** Offset one past the last character, including delimiters */
+  end: number
+}
+
+export interface JsLexResult {
+  /**
+   * The source with the contents of comments, strings, template literal text and regular
+   * expressions replaced by spaces. Offsets and line breaks are preserved, so brackets and
+   * keywords found in it can be mapped straight back to the original source.
+   */
+  masked: string
+  /** Comment and literal spans in source order */
+  spans: JsSpan[]
+}
+
+// After these keywords a `/` starts a regular expression rather than a division
+const KEYWORDS_BEFORE_EXPRESSION = new Set([
+  'return', 'typeof', 'instanceof', 'in', 'of', 'new', 'delete', 'void', 'throw', 'case',
+  'do', 'else', 'yield', 'await',
+])
+
+/**
+ * Scans JavaScript or TypeScript source for comments and literals. Template literals are
+ * tracked with a stack so that `${...}` expressions, including nested templates, are left
+ * as code. Unterminated strings end at the line break, which keeps stray quotes (in JSX
+ * text, for instance) from swallowing the rest of the file.
+ */
+export function lexJavaScript(code: string): JsLexResult {
+  const spans: JsSpan[] = []
+  const masked = code.split('')
+  const mask = (start: number, end: number) => {
+    for (let i = start; i < end; i++) {
+      if (masked[i] !== '\n' && masked[i] !== '\r') masked[i] = ' '
+    }
+  }
+
+  // Brace depth of each open `${` expression, innermost last
+  const templateStack: number[] = []
+  let lastSignificant = ''
+  let lastWord = ''
+  let i = 0
+
+  const readTemplate = (start: number) => {
+    // `start` is just after the opening backtick or the `}` closing an expression
+    let j = start
+    while (j < code.length) {
+      if (code[j] === '\\') {
+        j += 2
+      } else if (code[j] === '`') {
+        spans.push({ kind: 'template', start: start - 1, end: j + 1 })
+        mask(start, j)
+        return { end: j + 1, openedExpression: false }
+      } else if (code[j] === '$' && code[j + 1] === '{') {
+        spans.push({ kind: 'template', start: start - 1, end: j + 2 })
+        mask(start - 1, j + 2)
+        return { end: j + 2, openedExpression: true }
+      } else {
+        j++
+      }
+    }
+    spans.push({ kind: 'template', start: start - 1, end: code.length })
+    mask(start, code.length)
+    return { end: code.length, openedExpression: false }
+  }
+
+  while (i < code.length) {
+    const ch = code[i]
+    const next = code[i + 1]
+
+    if (ch === '/' && next === '/') {
+      let end = code.indexOf('\n', i)
+      if (end === -1) end = code.length
+      spans.push({ kind: 'comment', start: i, end })
+      mask(i, end)
+      i = end
+      continue
+    }
+
+    if (ch === '/' && next === '*') {
+      const close = code.indexOf('*/', i + 2)
+      const end = close === -1 ? code.length : close + 2
+      spans.push({ kind: 'comment', start: i, end })
+      mask(i, end)
+      i = end
+      continue
+    }
+
+    if (ch === '"' || ch === "'") {
+      let j = i + 1
+      while (j < code.length && code[j] !== ch && code[j] !== '\n') {
+        j += code[j] === '\\' ? 2 : 1
+      }
+      const end = code[j] === ch ? j + 1 : j
+      spans.push({ kind: 'string', start: i, end })
+      mask(i + 1, end - 1)
+      lastSignificant = ch
+      i = end
+      continue
+    }
+
+    if (ch === '`') {
+      const { end, openedExpression } = readTemplate(i + 1)
+      if (openedExpression) templateStack.push(0)
+      lastSignificant = '`'
+      i = end
+      continue
+    }
+
+    if (templateStack.length > 0) {
+      if (ch === '{') templateStack[templateStack.length - 1]++
+      if (ch === '}') {
+        if (templateStack[templateStack.length - 1] === 0) {
+          templateStack.pop()
+          masked[i] = ' '
+          const { end, openedExpression } = readTemplate(i + 1)
+          if (openedExpression) templateStack.push(0)
+          lastSignificant = '`'
+          i = end
+          continue
+        }
+        templateStack[templateStack.length - 1]--
+      }
+    }
+
+    if (ch === '/') {
+      const regexAllowed =
+        lastSignificant === '' ||
+        /[(,=:[!&|?{};+\-*%<>~^]/.test(lastSignificant) ||
+        KEYWORDS_BEFORE_EXPRESSION.has(lastWord)
+      if (regexAllowed) {
+        let j = i + 1
+        let inClass = false
+        while (j < code.length && code[j] !== '\n') {
+          if (code[j] === '\\') {
+            j += 2
+            continue
+          }
+          if (code[j] === '[') inClass = true
+          else if (code[j] === ']') inClass = false
+          else if (code[j] === '/' && !inClass) break
+          j++
+        }
+        if (code[j] === '/') {
+          j++
+          while (/[a-z]/i.test(code[j] || '')) j++
+          spans.push({ kind: 'regex', start: i, end: j })
+          mask(i + 1, j)
+          lastSignificant = '/'
+          lastWord = ''
+          i = j
+          continue
+        }
+      }
+    }
+
+    if (/[\w$]/.test(ch)) {
+      let j = i
+      while (j < code.length && /[\w$]/.test(code[j])) j++
+      lastWord = code.slice(i, j)
+      lastSignificant = 'a'
+      i = j
+      continue
+    }
+
+    if (!/\s/.test(ch)) {
+      lastSignificant = ch
+      lastWord = ''
+    }
+    i++
+  }
+
+  return { masked: masked.join(''), spans }
+}
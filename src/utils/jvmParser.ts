@@ -0,0 +1,417 @@
+import { BodyAnalysis, FunctionMetadata, ParameterInfo, ParameterKind } from '@/types'
+import { analyzeJavaScriptBody, analyzeKotlinBody } from '@/utils/bodyAnalysis'
+import {
+  BraceSource,
+  createBraceSource,
+  findAttachedDocComment,
+  findMatchingBrace,
+  lineAt,
+  skipLeadingComments,
+  skipWhitespace,
+  splitTopLevel,
+} from '@/utils/braceLexer'
+
+const JAVA_MODIFIERS =
+  '(?:(?:public|protected|private|static|final|abstract|synchronized|native|default|strictfp|' +
+  'transient|volatile|sealed|non-sealed)\\s+)*'
+const KOTLIN_MODIFIERS =
+  '(?:(?:public|private|protected|internal|open|abstract|final|override|sealed|data|enum|' +
+  'annotation|inner|value|companion|inline|noinline|crossinline|suspend|tailrec|operator|' +
+  'infix|external|expect|actual)\\s+)*'
+const NOT_A_NAME = new Set([
+  'if', 'for', 'while', 'switch', 'catch', 'synchronized', 'return', 'new', 'throw', 'else',
+  'when', 'try', 'do',
+])
+
+interface JvmSource extends BraceSource {
+  kotlin: boolean
+}
+
+/** The class or function whose body is being scanned */
+interface JvmScope {
+  qualifiedName: string
+  kind: 'class' | 'function'
+  /** Simple name of the enclosing class, which constructors are named after */
+  className?: string
+}
+
+interface JvmDeclaration {
+  name: string
+  type: FunctionMetadata['type']
+  params: ParameterInfo[]
+  returnType?: string
+  analysis?: BodyAnalysis
+  annotations: string[]
+  body: string
+  endOffset: number
+  /** Line range of a braced body that may contain nested declarations */
+  block?: { from: number; to: number; kind: JvmScope['kind'] }
+}
+
+function createJvmSource(code: string, kotlin: boolean): JvmSource {
+  const source = createBraceSource(code, {
+    nestedComments: kotlin,
+    tripleQuotedStrings: true,
+    stringTemplates: kotlin,
+  })
+  return { ...source, kotlin }
+}
+
+/** Skips a `<...>` list starting at `offset`, if there is one */
+function skipAngleBrackets(text: string, offset: number): number {
+  if (text[offset] !== '<') return offset
+  let depth = 0
+  for (let i = offset; i < text.length; i++) {
+    if (text[i] === '<') depth++
+    if (text[i] === '>' && text[i - 1] !== '-') {
+      depth--
+      if (depth === 0) return i + 1
+    }
+  }
+  return offset
+}
+
+/** Skips annotations, collecting their text without the leading `@` */
+function readAnnotations(src: JvmSource, offset: number, annotations: string[]): number {
+  let i = skipWhitespace(src.masked, offset)
+  while (src.masked[i] === '@' && /[\w$]/.test(src.masked[i + 1] || '')) {
+    const name = src.masked.slice(i + 1).match(/^[\w$.]+(?::[\w$.]+)?/)![0]
+    let end = i + 1 + name.length
+    const open = skipWhitespace(src.masked, end)
+    if (src.masked[open] === '(') end = findMatchingBrace(src.masked, open) + 1
+    annotations.push(src.code.slice(i + 1, end).replace(/\s+/g, ' '))
+    i = skipWhitespace(src.masked, end)
+  }
+  return i
+}
+
+/**
+ * Splits a Java or Kotlin parameter list. `masked` is the same text with literals blanked,
+ * which decides where annotations, types and defaults end.
+ */
+function splitJvmParams(text: string, masked: string, kotlin: boolean): ParameterInfo[] {
+  const params: ParameterInfo[] = []
+  for (const [start, end] of splitTopLevel(masked)) {
+    let rest = text.slice(start, end)
+    let restMasked = masked.slice(start, end)
+    const advance = (length: number) => {
+      rest = rest.slice(length)
+      restMasked = restMasked.slice(length)
+    }
+
+    // Annotations and modifiers, such as `@NotNull final` or `private val`
+    const prefix = kotlin
+      ? /^\s*(?:@[\w$.:]+(?:\([^)]*\))?\s*|(?:private|protected|public|internal|override|open|noinline|crossinline|vararg|val|var)\s+)*/
+      : /^\s*(?:@[\w$.]+(?:\([^)]*\))?\s*|final\s+)*/
+    const modifiers = restMasked.match(prefix)![0]
+    advance(modifiers.length)
+    const trailing = restMasked.length - restMasked.trimEnd().length
+    rest = rest.slice(0, rest.length - trailing)
+    restMasked = restMasked.trimEnd()
+    if (!restMasked) continue
+
+    let kind: ParameterKind = 'positional'
+    if (kotlin) {
+      if (/\bvararg\s/.test(modifiers)) kind = 'variadic'
+      const name = restMasked.match(/^[\w$]+/)?.[0] ?? rest
+      advance(name.length)
+      const equals = restMasked.search(/(?<![=!<>])=(?!=)/)
+      const annotation = (equals === -1 ? rest : rest.slice(0, equals)).trim()
+      params.push({
+        name,
+        type: annotation.startsWith(':') ? annotation.slice(1).trim() || undefined : undefined,
+        defaultValue: equals === -1 ? undefined : rest.slice(equals + 1).trim() || undefined,
+        kind,
+      })
+      continue
+    }
+
+    // Java puts the name last: `Map<String, Integer> counts`, `String... names`
+    const nameMatch = restMasked.match(/([\w$]+)((?:\s*\[\s*\])*)$/)
+    if (!nameMatch) continue
+    let type = rest.slice(0, nameMatch.index).trim() + nameMatch[2].replace(/\s+/g, '')
+    if (type.endsWith('...')) {
+      kind = 'variadic'
+      type = type.slice(0, -3).trim()
+    }
+    params.push({ name: nameMatch[1], type: type || undefined, kind })
+  }
+  return params
+}
+
+/** Reads a Kotlin return type or supertype list up to the body, `=` or end of line */
+function readKotlinTypeClause(masked: string, offset: number): number {
+  let i = offset
+  while (i < masked.length) {
+    const ch = masked[i]
+    if (ch === '(' || ch === '[') {
+      i = findMatchingBrace(masked, i) + 1
+      continue
+    }
+    if (ch === '<') {
+      const end = skipAngleBrackets(masked, i)
+      i = end > i ? end : i + 1
+      continue
+    }
+    if (ch === '{' || ch === ';' || ch === '}' || (ch === '=' && masked[i + 1] !== '=')) break
+    if (masked.startsWith('where', i) && /\s/.test(masked[i - 1]) && /\s/.test(masked[i + 5])) {
+      break
+    }
+    if (ch === '\n') {
+      // Declarations continue onto the next line after a trailing `,` or `:` or before a `:`
+      const before = masked.slice(offset, i).trimEnd()
+      const after = masked[skipWhitespace(masked, i)]
+      if (!before.endsWith(',') && !before.endsWith(':') && after !== ':' && after !== ',') break
+    }
+    i++
+  }
+  return i
+}
+
+/** Finds the end of a Kotlin expression body: the end of the line outside any brackets */
+function readKotlinExpression(masked: string, offset: number): number {
+  let i = offset
+  while (i < masked.length && masked[i] !== '\n' && masked[i] !== ';') {
+    if ('([{'.includes(masked[i])) {
+      i = findMatchingBrace(masked, i) + 1
+      continue
+    }
+    if (')]}'.includes(masked[i])) break
+    i++
+  }
+  return i
+}
+
+function readJvmDeclaration(
+  src: JvmSource,
+  lineIndex: number,
+  scope: JvmScope | undefined
+): JvmDeclaration | null {
+  const { code, masked, kotlin } = src
+  // Blank lines would otherwise reach the next declaration through skipped whitespace
+  if (!src.lines[lineIndex].trim()) return null
+  const annotations: string[] = []
+  const start = readAnnotations(src, src.lineStarts[lineIndex], annotations)
+  const matchAt = (pattern: string) => {
+    const regex = new RegExp(pattern, 'y')
+    regex.lastIndex = start
+    return regex.exec(masked)
+  }
+
+  const withBody = (
+    declaration: Omit<JvmDeclaration, 'body' | 'endOffset' | 'annotations'>,
+    open: number,
+    nested: JvmScope['kind']
+  ): JvmDeclaration => {
+    const close = findMatchingBrace(masked, open)
+    return {
+      ...declaration,
+      annotations,
+      body: code.slice(open + 1, close).trim(),
+      endOffset: close,
+      block: { from: lineAt(src, open) + 1, to: lineAt(src, close), kind: nested },
+    }
+  }
+
+  const analyze = (maskedBody: string, isAsync: boolean) =>
+    kotlin ? analyzeKotlinBody(maskedBody, isAsync) : analyzeJavaScriptBody(maskedBody, isAsync)
+
+  const typeMatch = kotlin
+    ? matchAt(
+        `${KOTLIN_MODIFIERS}(?:(fun)\\s+)?(class|interface|object)\\b(?:\\s+([\\w$]+))?`
+      )
+    : matchAt(`${JAVA_MODIFIERS}(class|interface|enum|record|@interface)\\s+([\\w$]+)`)
+  if (typeMatch) {
+    const keyword = kotlin ? typeMatch[2] : typeMatch[1]
+    const name = (kotlin ? typeMatch[3] : typeMatch[2]) ?? 'Companion'
+    const isEnum = kotlin ? /\benum\s/.test(typeMatch[0]) : keyword === 'enum'
+    const type: FunctionMetadata['type'] = isEnum
+      ? 'enum'
+      : keyword === 'interface' || keyword === '@interface'
+        ? 'interface'
+        : 'class'
+
+    // Records and Kotlin primary constructors declare their components in the header
+    let i = skipWhitespace(masked, skipAngleBrackets(masked, start + typeMatch[0].length))
+    if (kotlin) {
+      const constructorKeyword = masked.slice(i).match(/^(?:(?:@[\w$.]+\s+|\w+\s+)*constructor\s*)/)
+      if (constructorKeyword) i = skipWhitespace(masked, i + constructorKeyword[0].length)
+    }
+    let params: ParameterInfo[] = []
+    if (masked[i] === '(') {
+      const close = findMatchingBrace(masked, i)
+      params = splitJvmParams(code.slice(i + 1, close), masked.slice(i + 1, close), kotlin)
+      i = close + 1
+    }
+
+    const open = kotlin ? readKotlinTypeClause(masked, i) : masked.indexOf('{', i)
+    if (open === -1 || masked[open] !== '{') {
+      // Kotlin classes may have no body at all: `data class Point(val x: Int, val y: Int)`
+      if (!kotlin) return null
+      return { name, type, params, annotations, body: '', endOffset: Math.max(start, open - 1) }
+    }
+    return withBody({ name, type, params }, open, 'class')
+  }
+
+  let name: string
+  let returnType: string | undefined
+  let isAsync = false
+  let afterName: number
+
+  if (kotlin) {
+    const funMatch = matchAt(
+      `${KOTLIN_MODIFIERS}(?:fun\\s*(?:<[^()]*?>\\s*)?(?:[\\w$.]+(?:<[^()]*?>)?\\??\\.)?` +
+        '([\\w$]+|`[^`\\n]+`)|(constructor))\\s*(?=\\()'
+    )
+    if (!funMatch) return null
+    name = funMatch[1] ?? funMatch[2]
+    isAsync = /\bsuspend\s/.test(funMatch[0])
+    afterName = start + funMatch[0].length
+  } else {
+    if (scope?.kind !== 'class') return null
+    const methodMatch = matchAt(
+      `${JAVA_MODIFIERS}(?:(?:@[\\w$.]+\\s+)*<[^()]*?>\\s*)?` +
+        '(?:([\\w$][\\w$.]*(?:\\s*<[^()]*?>)?(?:\\s*\\[\\s*\\])*)\\s+)?([\\w$]+)\\s*(?=\\()'
+    )
+    if (!methodMatch) return null
+    name = methodMatch[2]
+    returnType = methodMatch[1]?.replace(/\s+(?=[<[])/g, '')
+    // Only constructors may leave out the return type
+    if (!returnType && name !== scope.className) return null
+    if (returnType && NOT_A_NAME.has(returnType)) return null
+    afterName = start + methodMatch[0].length
+  }
+  if (NOT_A_NAME.has(name)) return null
+
+  const type = scope?.kind === 'class' ? 'method' : 'function'
+  const open = skipWhitespace(masked, afterName)
+  const close = findMatchingBrace(masked, open)
+  const params = splitJvmParams(code.slice(open + 1, close), masked.slice(open + 1, close), kotlin)
+  let i = skipWhitespace(masked, close + 1)
+
+  const declaredThrows: string[] = []
+  if (kotlin) {
+    if (masked[i] === ':') {
+      // After a secondary constructor this is the `this(...)` or `super(...)` delegation
+      const end = readKotlinTypeClause(masked, i + 1)
+      if (name !== 'constructor') returnType = code.slice(i + 1, end).trim() || undefined
+      i = skipWhitespace(masked, end)
+    }
+  } else {
+    const throwsMatch = masked.slice(i).match(/^throws\s+([\w$.,\s<>]+?)\s*(?=[{;])/)
+    if (throwsMatch) {
+      declaredThrows.push(...throwsMatch[1].split(',').map((t) => t.trim()))
+      i += throwsMatch[0].length
+    }
+  }
+
+  if (masked[i] === '{') {
+    const declaration = withBody({ name, type, params, returnType }, i, 'function')
+    const analysis = analyze(masked.slice(i + 1, declaration.endOffset), isAsync)
+    analysis.raises = [...new Set([...declaredThrows, ...analysis.raises])]
+    if (returnType === 'void' || returnType === 'Unit') analysis.returnsValue = false
+    return { ...declaration, analysis }
+  }
+
+  if (kotlin && masked[i] === '=') {
+    const end = readKotlinExpression(masked, i + 1)
+    const analysis = analyze(masked.slice(i + 1, end), isAsync)
+    analysis.returnsValue = returnType !== 'Unit'
+    return {
+      name,
+      type,
+      params,
+      returnType,
+      analysis,
+      annotations,
+      body: code.slice(i + 1, end).trim(),
+      endOffset: Math.max(i, end - 1),
+    }
+  }
+
+  // Abstract and interface methods have no body
+  const end = masked[i] === ';' ? i : Math.max(close, i - 1)
+  return { name, type, params, returnType, annotations, body: '', endOffset: end }
+}
+
+function qualify(name: string, parent?: JvmScope): string {
+  return parent ? `${parent.qualifiedName}.${name}` : name
+}
+
+function parseJvmRange(
+  src: JvmSource,
+  from: number,
+  to: number,
+  scope: JvmScope | undefined,
+  functions: FunctionMetadata[]
+) {
+  let i = from
+  while (i < to) {
+    const declaration = readJvmDeclaration(src, i, scope)
+    if (!declaration) {
+      i++
+      continue
+    }
+
+    const endLine = lineAt(src, declaration.endOffset)
+    // Javadoc and KDoc go above the annotations
+    const start = skipLeadingComments(src.code, src.spans, src.lineStarts[i])
+    const doc = findAttachedDocComment(src.code, src.spans, start, (offset) => lineAt(src, offset))
+    const metadata: FunctionMetadata = {
+      name: declaration.name,
+      qualifiedName: qualify(declaration.name, scope),
+      parent: scope?.qualifiedName,
+      params: declaration.params,
+      returnType: declaration.returnType,
+      analysis: declaration.analysis,
+      body: declaration.body,
+      startLine: i,
+      endLine,
+      type: declaration.type,
+      docstring: doc?.text,
+      decorators: declaration.annotations.length > 0 ? declaration.annotations : undefined,
+      docstringStartLine: doc?.startLine,
+      docstringEndLine: doc?.endLine,
+    }
+    functions.push(metadata)
+
+    if (declaration.block) {
+      const nestedScope: JvmScope = {
+        qualifiedName: metadata.qualifiedName,
+        kind: declaration.block.kind,
+        className: declaration.block.kind === 'class' ? declaration.name : undefined,
+      }
+      parseJvmRange(src, declaration.block.from, declaration.block.to, nestedScope, functions)
+    }
+    i = Math.max(endLine + 1, i + 1)
+  }
+}
+
+/**
+ * Overloaded methods share a qualified name, so each one gets its parameter types appended,
+ * e.g. `Shape.scale(double)` and `Shape.scale(double, double)`.
+ */
+function disambiguateOverloads(functions: FunctionMetadata[]) {
+  const counts = new Map<string, number>()
+  for (const f of functions) counts.set(f.qualifiedName, (counts.get(f.qualifiedName) ?? 0) + 1)
+  for (const f of functions) {
+    if ((counts.get(f.qualifiedName) ?? 0) < 2) continue
+    f.qualifiedName = `${f.qualifiedName}(${f.params.map((p) => p.type ?? p.name).join(', ')})`
+  }
+}
+
+function parseJvmCode(code: string, kotlin: boolean): FunctionMetadata[] {
+  const functions: FunctionMetadata[] = []
+  const src = createJvmSource(code, kotlin)
+  parseJvmRange(src, 0, src.lines.length, undefined, functions)
+  disambiguateOverloads(functions)
+  return functions
+}
+
+export function parseJavaCode(code: string): FunctionMetadata[] {
+  return parseJvmCode(code, false)
+}
+
+export function parseKotlinCode(code: string): FunctionMetadata[] {
+  return parseJvmCode(code, true)
+}
@@ -0,0 +1,70 @@
+import { createTwoFilesPatch, diffLines, structuredPatch } from 'diff'
+
+/** A changed region, with 1-based line numbers as in a unified diff */
+export interface DiffHunk {
+  oldStart: number
+  oldLines: number
+  newStart: number
+  newLines: number
+}
+
+export function findHunks(before: string, after: string): DiffHunk[] {
+  return structuredPatch('', '', before, after, '', '', { context: 0 }).hunks.map((hunk) => ({
+    oldStart: hunk.oldStart,
+    oldLines: hunk.oldLines,
+    newStart: hunk.newStart,
+    newLines: hunk.newLines,
+  }))
+}
+
+/**
+ * Builds a unified diff of `filename` in the form `git diff` writes, so that `git apply`
+ * accepts it from the repository root.
+ */
+export function createGitPatch(filename: string, before: string, after: string): string {
+  // `git apply` rejects `a/./src/a.py`, so empty and `.` segments are dropped
+  const path = filename
+    .split(/[\\/]/)
+    .filter((segment) => segment && segment !== '.')
+    .join('/')
+  const patch = createTwoFilesPatch(`a/${path}`, `b/${path}`, before, after, '', '', {
+    context: 3,
+  })
+  // Drop the `Index:` and separator lines, and the tab jsdiff puts after each file name
+  const body = patch
+    .split('\n')
+    .filter((line) => !line.startsWith('Index: ') && !/^=+$/.test(line))
+    .map((line) => (/^(?:---|\+\+\+) [ab]\//.test(line) ? line.replace(/\t$/, '') : line))
+    .join('\n')
+  return `diff --git a/${path} b/${path}\n${body}`
+}
+
+/** A replacement of the text between two offsets */
+export interface TextReplacement {
+  start: number
+  end: number
+  text: string
+}
+
+/** Line-level replacements, as offsets into `before`, that turn it into `after` */
+export function findEdits(before: string, after: string): TextReplacement[] {
+  const edits: TextReplacement[] = []
+  let offset = 0
+  for (const part of diffLines(before, after)) {
+    if (!part.added && !part.removed) {
+      offset += part.value.length
+      continue
+    }
+    // A removal next to an insertion becomes a single replacement
+    const last = edits[edits.length - 1]
+    const edit = last?.end === offset ? last : { start: offset, end: offset, text: '' }
+    if (edit !== last) edits.push(edit)
+    if (part.added) {
+      edit.text += part.value
+    } else {
+      offset += part.value.length
+      edit.end = offset
+    }
+  }
+  return edits
+}
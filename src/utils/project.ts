@@ -0,0 +1,126 @@
+import JSZip from 'jszip'
+import { detectLanguageDefinition } from '@shared/languages.ts'
+import { FunctionMetadata, ProjectFile } from '@/types'
+import { parseCode } from '@/languages'
+
+/** An uploaded file and its path inside the project */
+export interface ProjectEntry {
+  file: File
+  path: string
+}
+
+/** A file that is not documented, such as a README or config, kept for the exported zip */
+export interface ProjectAsset {
+  path: string
+  data: Blob
+}
+
+// Dependency, build and tooling directories, which are never documented
+export const IGNORED_DIRECTORIES = new Set([
+  '.git',
+  'node_modules',
+  '__pycache__',
+  '.venv',
+  'venv',
+  'dist',
+  'build',
+  'target',
+  '__MACOSX',
+])
+
+/** Whether the path is a supported source file outside dependency and build directories */
+export function isProjectSource(path: string): boolean {
+  const parts = path.split('/')
+  if (parts.slice(0, -1).some((part) => IGNORED_DIRECTORIES.has(part))) return false
+  return detectLanguageDefinition(path) !== undefined
+}
+
+function toProjectFile(path: string, code: string): ProjectFile {
+  const language = detectLanguageDefinition(path)!.id
+  return { path, language, code, functions: parseCode(code, language) }
+}
+
+/** Collects the files under dropped items, descending into dropped folders */
+export async function collectDroppedEntries(items: DataTransferItemList): Promise<ProjectEntry[]> {
+  const readEntry = async (entry: FileSystemEntry, prefix: string): Promise<ProjectEntry[]> => {
+    if (entry.isFile) {
+      const file = await new Promise<File>((resolve, reject) =>
+        (entry as FileSystemFileEntry).file(resolve, reject)
+      )
+      return [{ file, path: prefix + entry.name }]
+    }
+    const reader = (entry as FileSystemDirectoryEntry).createReader()
+    const children: FileSystemEntry[] = []
+    // Directory readers return their entries in chunks, ending with an empty one
+    for (;;) {
+      const chunk = await new Promise<FileSystemEntry[]>((resolve, reject) =>
+        reader.readEntries(resolve, reject)
+      )
+      if (chunk.length === 0) break
+      children.push(...chunk)
+    }
+    const nested = await Promise.all(
+      children.map((child) => readEntry(child, `${prefix}${entry.name}/`))
+    )
+    return nested.flat()
+  }
+
+  // Entries must be taken synchronously, before the drop event's data store is cleared
+  const entries = Array.from(items)
+    .map((item) => item.webkitGetAsEntry())
+    .filter((entry): entry is FileSystemEntry => entry !== null)
+  const collected = await Promise.all(entries.map((entry) => readEntry(entry, '')))
+  return collected.flat()
+}
+
+/**
+ * Reads uploaded files into a project, expanding `.zip` archives. Sources of supported
+ * languages become project files; everything else is kept as an asset. Paths keep the
+ * uploaded directory structure.
+ */
+export async function readProjectFiles(
+  entries: ProjectEntry[]
+): Promise<{ files: ProjectFile[]; assets: ProjectAsset[] }> {
+  const files: ProjectFile[] = []
+  const assets: ProjectAsset[] = []
+  for (const { file, path } of entries) {
+    if (path.toLowerCase().endsWith('.zip')) {
+      const zip = await JSZip.loadAsync(file)
+      for (const archived of Object.values(zip.files)) {
+        if (archived.dir) continue
+        if (isProjectSource(archived.name)) {
+          files.push(toProjectFile(archived.name, await archived.async('string')))
+        } else {
+          assets.push({ path: archived.name, data: await archived.async('blob') })
+        }
+      }
+    } else if (isProjectSource(path)) {
+      files.push(toProjectFile(path, await file.text()))
+    } else {
+      assets.push({ path, data: file })
+    }
+  }
+  return { files: files.sort((a, b) => a.path.localeCompare(b.path)), assets }
+}
+
+/**
+ * Packs the project, with generated documentation, into a zip of the same structure. Assets
+ * are written back unchanged.
+ */
+export function createProjectZip(files: ProjectFile[], assets: ProjectAsset[]): Promise<Blob> {
+  const zip = new JSZip()
+  for (const asset of assets) zip.file(asset.path, asset.data)
+  for (const file of files) zip.file(file.path, file.modifiedCode ?? file.code)
+  return zip.generateAsync({ type: 'blob', compression: 'DEFLATE' })
+}
+
+/** How many of the declarations have documentation */
+export function documentationCoverage(functions: FunctionMetadata[]): {
+  documented: number
+  total: number
+} {
+  return {
+    documented: functions.filter((func) => func.docstring !== undefined).length,
+    total: functions.length,
+  }
+}
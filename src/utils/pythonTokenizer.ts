@@ -0,0 +1,208 @@
+export type PythonTokenType =
+  | 'name'
+  | 'number'
+  | 'string'
+  | 'op'
+  | 'comment'
+  | 'newline'
+  | 'nl'
+  | 'indent'
+  | 'dedent'
+  | 'endmarker'
+
+export interface PythonToken {
+  type: PythonTokenType
+  value: string
+  /** Offset of the first character in the source */
+  start: number
+  /** Offset one past the last character in the source */
+  end: number
+  /** Zero-based line of the first character */
+  line: number
+  /** Zero-based line of the last character */
+  endLine: number
+}
+
+const NAME_PATTERN = /[\p{L}\p{Nl}_][\p{L}\p{Nl}\p{Mn}\p{Mc}\p{Nd}\p{Pc}]*/uy
+const STRING_START_PATTERN = /(?:[rRbBuUfF]|[rR][bBfF]|[bBfF][rR])?('''|"""|'|")/y
+const NUMBER_PATTERN =
+  /(?:0[xX][\da-fA-F_]+|0[oO][0-7_]+|0[bB][01_]+|(?:\d[\d_]*\.?[\d_]*|\.\d[\d_]*)(?:[eE][+-]?\d[\d_]*)?[jJ]?)/y
+const OPERATORS = [
+  '**=', '//=', '>>=', '<<=', '...',
+  '->', ':=', '**', '//', '==', '!=', '<=', '>=', '<<', '>>',
+  '+=', '-=', '*=', '/=', '%=', '&=', '|=', '^=', '@=',
+]
+const OPEN_BRACKETS = '([{'
+const CLOSE_BRACKETS = ')]}'
+
+/**
+ * Splits Python source into tokens, following the rules of CPython's tokenize module
+ * closely enough for structural analysis: implicit line joining inside brackets, explicit
+ * backslash continuations, INDENT/DEDENT tracking and single/triple-quoted string literals
+ * with any prefix. Malformed input never throws; unterminated strings end at the line or
+ * file end.
+ */
+export function tokenizePython(source: string): PythonToken[] {
+  const tokens: PythonToken[] = []
+  const lineStarts = [0]
+  for (let i = 0; i < source.length; i++) {
+    if (source[i] === '\n') lineStarts.push(i + 1)
+  }
+
+  const lineOf = (offset: number) => {
+    let lo = 0
+    let hi = lineStarts.length - 1
+    while (lo < hi) {
+      const mid = (lo + hi + 1) >> 1
+      if (lineStarts[mid] <= offset) lo = mid
+      else hi = mid - 1
+    }
+    return lo
+  }
+
+  const push = (type: PythonTokenType, start: number, end: number) => {
+    tokens.push({
+      type,
+      value: source.slice(start, end),
+      start,
+      end,
+      line: lineOf(start),
+      endLine: lineOf(Math.max(start, end - 1)),
+    })
+  }
+
+  const newlineLength = (at: number) => {
+    if (source[at] === '\r') return source[at + 1] === '\n' ? 2 : 1
+    return source[at] === '\n' ? 1 : 0
+  }
+
+  const indents = [0]
+  let pos = 0
+  let depth = 0
+  let atLineStart = true
+
+  while (pos < source.length) {
+    if (atLineStart && depth === 0) {
+      let column = 0
+      let p = pos
+      while (p < source.length && (source[p] === ' ' || source[p] === '\t' || source[p] === '\f')) {
+        column = source[p] === '\t' ? (Math.floor(column / 8) + 1) * 8 : column + 1
+        p++
+      }
+      if (p >= source.length) {
+        pos = p
+        break
+      }
+
+      // Blank and comment-only lines do not affect indentation
+      if (source[p] === '#' || newlineLength(p) > 0) {
+        if (source[p] === '#') {
+          const commentStart = p
+          while (p < source.length && newlineLength(p) === 0) p++
+          push('comment', commentStart, p)
+        }
+        const length = newlineLength(p)
+        if (length > 0) push('nl', p, p + length)
+        pos = p + length
+        continue
+      }
+
+      if (column > indents[indents.length - 1]) {
+        indents.push(column)
+        push('indent', pos, p)
+      } else {
+        while (column < indents[indents.length - 1]) {
+          indents.pop()
+          push('dedent', p, p)
+        }
+      }
+      pos = p
+      atLineStart = false
+    }
+
+    const ch = source[pos]
+
+    if (ch === ' ' || ch === '\t' || ch === '\f') {
+      pos++
+      continue
+    }
+
+    const length = newlineLength(pos)
+    if (length > 0) {
+      push(depth > 0 ? 'nl' : 'newline', pos, pos + length)
+      pos += length
+      atLineStart = depth === 0
+      continue
+    }
+
+    if (ch === '#') {
+      const start = pos
+      while (pos < source.length && newlineLength(pos) === 0) pos++
+      push('comment', start, pos)
+      continue
+    }
+
+    if (ch === '\\' && newlineLength(pos + 1) > 0) {
+      pos += 1 + newlineLength(pos + 1)
+      continue
+    }
+
+    STRING_START_PATTERN.lastIndex = pos
+    const stringStart = STRING_START_PATTERN.exec(source)
+    if (stringStart) {
+      const quote = stringStart[1]
+      let p = pos + stringStart[0].length
+      while (p < source.length) {
+        if (source[p] === '\\') {
+          p += 2
+        } else if (source.startsWith(quote, p)) {
+          p += quote.length
+          break
+        } else if (quote.length === 1 && newlineLength(p) > 0) {
+          break
+        } else {
+          p++
+        }
+      }
+      const end = Math.min(p, source.length)
+      push('string', pos, end)
+      pos = end
+      continue
+    }
+
+    NAME_PATTERN.lastIndex = pos
+    const name = NAME_PATTERN.exec(source)
+    if (name) {
+      push('name', pos, pos + name[0].length)
+      pos += name[0].length
+      continue
+    }
+
+    if (/\d/.test(ch) || (ch === '.' && /\d/.test(source[pos + 1] || ''))) {
+      NUMBER_PATTERN.lastIndex = pos
+      const number = NUMBER_PATTERN.exec(source)
+      const end = pos + (number ? number[0].length : 1)
+      push('number', pos, end)
+      pos = end
+      continue
+    }
+
+    const operator = OPERATORS.find((op) => source.startsWith(op, pos)) || ch
+    if (OPEN_BRACKETS.includes(operator)) depth++
+    if (CLOSE_BRACKETS.includes(operator)) depth = Math.max(0, depth - 1)
+    push('op', pos, pos + operator.length)
+    pos += operator.length
+  }
+
+  const last = tokens[tokens.length - 1]
+  if (last && last.type !== 'newline' && last.type !== 'nl' && last.type !== 'dedent') {
+    push('newline', source.length, source.length)
+  }
+  while (indents.length > 1) {
+    indents.pop()
+    push('dedent', source.length, source.length)
+  }
+  push('endmarker', source.length, source.length)
+
+  return tokens
+}
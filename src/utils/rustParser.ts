@@ -0,0 +1,349 @@
+import { BodyAnalysis, FunctionMetadata, ParameterInfo } from '@/types'
+import { analyzeRustBody } from '@/utils/bodyAnalysis'
+import {
+  BraceSource,
+  createBraceSource,
+  findAttachedDocComment,
+  findAttachedLineDocComment,
+  findMatchingBrace,
+  lineAt,
+  skipWhitespace,
+  splitTopLevel,
+} from '@/utils/braceLexer'
+
+const RUST_VISIBILITY = '(?:pub(?:\\s*\\([^)]*\\))?\\s+)?'
+const RUST_FN_QUALIFIERS = '((?:(?:default|const|async|unsafe|extern(?:\\s+"[^"]*")?)\\s+)*)'
+
+/** The impl block, trait or module whose body is being scanned */
+interface RustScope {
+  /** Path prefix for nested items, e.g. `Point` or `<Point as Display>` */
+  qualifiedName?: string
+  kind: 'impl' | 'trait' | 'mod'
+}
+
+interface RustDeclaration {
+  name: string
+  type: FunctionMetadata['type']
+  params: ParameterInfo[]
+  returnType?: string
+  analysis?: BodyAnalysis
+  attributes: string[]
+  body: string
+  endOffset: number
+  /** Line range of a body holding further items */
+  block?: { from: number; to: number; scope: RustScope }
+  /** Impl blocks, modules and item macros are scanned but not documented themselves */
+  container?: boolean
+}
+
+/** Skips outer attributes, collecting their text without the `#[` and `]` */
+function readAttributes(src: BraceSource, offset: number, attributes: string[]): number {
+  let i = skipWhitespace(src.masked, offset)
+  while (src.masked[i] === '#' && src.masked[i + 1] === '[') {
+    const close = findMatchingBrace(src.masked, i + 1)
+    attributes.push(src.code.slice(i + 2, close).trim().replace(/\s+/g, ' '))
+    i = skipWhitespace(src.masked, close + 1)
+  }
+  return i
+}
+
+/** Skips a `<...>` list starting at `offset`, if there is one */
+function skipGenerics(masked: string, offset: number): number {
+  if (masked[offset] !== '<') return offset
+  let depth = 0
+  for (let i = offset; i < masked.length; i++) {
+    if (masked[i] === '<') depth++
+    if (masked[i] === '>' && masked[i - 1] !== '-' && masked[i - 1] !== '=') {
+      depth--
+      if (depth === 0) return skipWhitespace(masked, i + 1)
+    }
+  }
+  return offset
+}
+
+/**
+ * Reads a type or `where` clause up to the body's opening brace or a `;`. `where` ends the
+ * type unless `stopAtWhere` is false.
+ */
+function readRustType(masked: string, offset: number, stopAtWhere: boolean): number {
+  let i = offset
+  while (i < masked.length && masked[i] !== '{' && masked[i] !== ';') {
+    if (masked[i] === '(' || masked[i] === '[') {
+      i = findMatchingBrace(masked, i) + 1
+      continue
+    }
+    if (stopAtWhere && /^where\b/.test(masked.slice(i, i + 6)) && !/\w/.test(masked[i - 1])) {
+      break
+    }
+    i++
+  }
+  return i
+}
+
+/** Splits a Rust parameter list, leaving out the `self` receiver */
+function splitRustParams(text: string, masked: string): ParameterInfo[] {
+  const params: ParameterInfo[] = []
+  for (const [start, end] of splitTopLevel(masked)) {
+    const maskedParam = masked.slice(start, end)
+    const param = text.slice(start, end).trim().replace(/\s+/g, ' ')
+    if (!param) continue
+
+    // The first `:` outside the pattern's brackets, not part of a `::` path
+    let colon = -1
+    let depth = 0
+    for (let i = 0; i < maskedParam.length; i++) {
+      const ch = maskedParam[i]
+      if ('([{'.includes(ch)) depth++
+      else if (')]}'.includes(ch)) depth--
+      else if (ch === ':' && depth === 0) {
+        if (maskedParam[i + 1] === ':') {
+          i++
+          continue
+        }
+        colon = i
+        break
+      }
+    }
+    const pattern = (colon === -1 ? maskedParam : text.slice(start, start + colon)).trim()
+    if (/^(?:&\s*(?:'\w+\s+)?)?(?:mut\s+)?self$/.test(pattern.replace(/\s+/g, ' '))) continue
+
+    const type = colon === -1 ? undefined : text.slice(start + colon + 1, end).trim()
+    const name = pattern.replace(/^(?:ref\s+)?(?:mut\s+)?/, '').replace(/\s+/g, ' ')
+    params.push({
+      name,
+      type: type?.replace(/\s+/g, ' '),
+      kind: /^[([{&]|^\w+\s*[({]/.test(name) ? 'destructured' : 'positional',
+    })
+  }
+  return params
+}
+
+/** `Vec<T>` and `crate::Point` both name the type `Vec` and `Point` in paths */
+function simpleTypeName(type: string): string {
+  return type
+    .replace(/<[\s\S]*$/, '')
+    .replace(/^[&\s]*(?:mut\s+|dyn\s+)?/, '')
+    .split('::')
+    .pop()!
+    .trim()
+}
+
+function readRustDeclaration(
+  src: BraceSource,
+  lineIndex: number,
+  scope: RustScope | undefined
+): RustDeclaration | null {
+  const { code, masked } = src
+  // Blank lines would otherwise reach the next declaration through skipped whitespace
+  if (!src.lines[lineIndex].trim()) return null
+  const attributes: string[] = []
+  const start = readAttributes(src, src.lineStarts[lineIndex], attributes)
+  const matchAt = (pattern: string) => {
+    const regex = new RegExp(pattern, 'uy')
+    regex.lastIndex = start
+    return regex.exec(masked)
+  }
+  const blockLines = (open: number, close: number) => ({
+    from: lineAt(src, open) + 1,
+    to: lineAt(src, close),
+  })
+
+  const fnMatch = matchAt(
+    `${RUST_VISIBILITY}${RUST_FN_QUALIFIERS}fn\\s+([\\p{L}_][\\p{L}\\p{N}_]*)\\s*`
+  )
+  if (fnMatch) {
+    const open = skipGenerics(masked, start + fnMatch[0].length)
+    if (masked[open] !== '(') return null
+    const close = findMatchingBrace(masked, open)
+    const params = splitRustParams(code.slice(open + 1, close), masked.slice(open + 1, close))
+
+    let i = skipWhitespace(masked, close + 1)
+    let returnType: string | undefined
+    if (masked.startsWith('->', i)) {
+      const typeStart = skipWhitespace(masked, i + 2)
+      i = readRustType(masked, typeStart, true)
+      returnType = code.slice(typeStart, i).trim()
+    }
+    // Where clauses sit between the signature and the body
+    i = readRustType(masked, i, false)
+
+    const type = scope && scope.kind !== 'mod' ? 'method' : 'function'
+    const name = fnMatch[2]
+    if (masked[i] !== '{') {
+      // Trait method signatures and foreign functions have no body
+      return { name, type, params, returnType, attributes, body: '', endOffset: i }
+    }
+    const end = findMatchingBrace(masked, i)
+    const isAsync = /\basync\b/.test(fnMatch[1])
+    return {
+      name,
+      type,
+      params,
+      returnType,
+      analysis: analyzeRustBody(masked.slice(i + 1, end), isAsync, returnType),
+      attributes,
+      body: code.slice(i + 1, end).trim(),
+      endOffset: end,
+    }
+  }
+
+  const implMatch = matchAt(`(?:unsafe\\s+)?impl\\b\\s*`)
+  if (implMatch) {
+    const headerStart = skipGenerics(masked, start + implMatch[0].length)
+    const open = readRustType(masked, headerStart, false)
+    if (masked[open] !== '{') return null
+    const close = findMatchingBrace(masked, open)
+    const header = code
+      .slice(headerStart, readRustType(masked, headerStart, true))
+      .trim()
+      .replace(/\s+/g, ' ')
+    // `impl Display for Point` puts its methods under `<Point as Display>`
+    const forMatch = header.match(/^!?(.+?)\s+for\s+(.+)$/)
+    const qualifiedName = forMatch
+      ? `<${simpleTypeName(forMatch[2])} as ${forMatch[1].replace(/<[\s\S]*$/, '')}>`
+      : simpleTypeName(header)
+    return {
+      name: qualifiedName,
+      type: 'class',
+      params: [],
+      attributes,
+      body: '',
+      endOffset: close,
+      block: { ...blockLines(open, close), scope: { qualifiedName, kind: 'impl' } },
+      container: true,
+    }
+  }
+
+  const itemMatch = matchAt(
+    `${RUST_VISIBILITY}(?:unsafe\\s+|auto\\s+)*(struct|enum|union|trait|type|mod)\\s+` +
+      `([\\p{L}_][\\p{L}\\p{N}_]*)\\s*`
+  )
+  if (itemMatch) {
+    const [, keyword, name] = itemMatch
+    const afterName = skipGenerics(masked, start + itemMatch[0].length)
+
+    if (keyword === 'type') {
+      // Type aliases, and associated types inside traits and impls
+      const end = masked.indexOf(';', afterName)
+      const endOffset = end === -1 ? masked.length - 1 : end
+      const body = code.slice(afterName, endOffset).replace(/^=\s*/, '').trim()
+      return { name, type: 'type', params: [], attributes, body, endOffset }
+    }
+
+    // Tuple structs take a parenthesized field list; unit structs end at the `;`
+    let i = afterName
+    if (masked[i] === '(') i = skipWhitespace(masked, findMatchingBrace(masked, i) + 1)
+    i = readRustType(masked, i, false)
+    if (masked[i] !== '{') {
+      return { name, type: 'class', params: [], attributes, body: '', endOffset: i }
+    }
+    const close = findMatchingBrace(masked, i)
+    const body = code.slice(i + 1, close).trim()
+    const qualifiedName = scope?.qualifiedName ? `${scope.qualifiedName}::${name}` : name
+
+    if (keyword === 'mod') {
+      return {
+        name,
+        type: 'class',
+        params: [],
+        attributes,
+        body: '',
+        endOffset: close,
+        block: { ...blockLines(i, close), scope: { qualifiedName, kind: 'mod' } },
+        container: true,
+      }
+    }
+    if (keyword === 'trait') {
+      return {
+        name,
+        type: 'interface',
+        params: [],
+        attributes,
+        body,
+        endOffset: close,
+        block: { ...blockLines(i, close), scope: { qualifiedName, kind: 'trait' } },
+      }
+    }
+    const type = keyword === 'enum' ? 'enum' : 'class'
+    return { name, type, params: [], attributes, body, endOffset: close }
+  }
+
+  // `macro_rules!` definitions and item macros may contain anything, so they are skipped whole
+  const macroMatch = matchAt(`(?:macro_rules!\\s*[\\p{L}_][\\p{L}\\p{N}_]*|[\\w:]+!)\\s*(?=[({[])`)
+  if (macroMatch) {
+    const close = findMatchingBrace(masked, start + macroMatch[0].length)
+    const endOffset = masked[close + 1] === ';' ? close + 1 : close
+    return {
+      name: '',
+      type: 'function',
+      params: [],
+      attributes,
+      body: '',
+      endOffset,
+      container: true,
+    }
+  }
+
+  return null
+}
+
+function parseRustRange(
+  src: BraceSource,
+  from: number,
+  to: number,
+  scope: RustScope | undefined,
+  functions: FunctionMetadata[]
+) {
+  const lineOf = (offset: number) => lineAt(src, offset)
+  let i = from
+  while (i < to) {
+    const declaration = readRustDeclaration(src, i, scope)
+    if (!declaration) {
+      i++
+      continue
+    }
+    const endLine = lineAt(src, declaration.endOffset)
+
+    if (!declaration.container) {
+      // Doc comments go above the attributes
+      const offset = src.lineStarts[i]
+      const doc =
+        findAttachedLineDocComment(src.code, src.spans, offset, '///', lineOf) ??
+        findAttachedDocComment(src.code, src.spans, offset, lineOf)
+      const parent = scope?.qualifiedName
+      functions.push({
+        name: declaration.name,
+        qualifiedName: parent ? `${parent}::${declaration.name}` : declaration.name,
+        parent,
+        params: declaration.params,
+        returnType: declaration.returnType,
+        analysis: declaration.analysis,
+        body: declaration.body,
+        startLine: i,
+        endLine,
+        type: declaration.type,
+        docstring: doc?.text,
+        decorators: declaration.attributes.length > 0 ? declaration.attributes : undefined,
+        docstringStartLine: doc?.startLine,
+        docstringEndLine: doc?.endLine,
+      })
+    }
+
+    if (declaration.block) {
+      const { from: blockFrom, to: blockTo, scope: blockScope } = declaration.block
+      parseRustRange(src, blockFrom, blockTo, blockScope, functions)
+    }
+    i = Math.max(endLine + 1, i + 1)
+  }
+}
+
+export function parseRustCode(code: string): FunctionMetadata[] {
+  const functions: FunctionMetadata[] = []
+  const src = createBraceSource(code, {
+    nestedComments: true,
+    multilineStrings: true,
+    rawStrings: true,
+  })
+  parseRustRange(src, 0, src.lines.length, undefined, functions)
+  return functions
+}
@@ -0,0 +1,139 @@
+import { FunctionMetadata, Language, SelectionPolicy } from '@/types'
+import { detectDocDrift } from '@/utils/docSections'
+
+const POLICY_KEY = 'docgen_selection_policy'
+
+export const SELECTION_POLICIES: Array<{ id: SelectionPolicy; label: string }> = [
+  { id: 'all', label: 'Everything' },
+  { id: 'undocumented', label: 'Undocumented only' },
+  { id: 'outdated', label: 'Undocumented or outdated' },
+]
+
+export function loadSelectionPolicy(): SelectionPolicy {
+  const stored = localStorage.getItem(POLICY_KEY)
+  return SELECTION_POLICIES.find((policy) => policy.id === stored)?.id ?? 'all'
+}
+
+export function saveSelectionPolicy(policy: SelectionPolicy) {
+  localStorage.setItem(POLICY_KEY, policy)
+}
+
+/** Qualified names of the declarations `policy` selects */
+export function selectByPolicy(
+  functions: FunctionMetadata[],
+  policy: SelectionPolicy
+): Set<string> {
+  const selected = functions.filter((func) => {
+    if (policy === 'all' || func.docstring === undefined) return true
+    return policy === 'outdated' && detectDocDrift(func) !== undefined
+  })
+  return new Set(selected.map((func) => func.qualifiedName))
+}
+
+/**
+ * Compares the documentation of the declarations in two parses of a file, returning the
+ * qualified names whose documentation was added or changed.
+ */
+export function diffDocumentation(
+  before: FunctionMetadata[],
+  after: FunctionMetadata[]
+): { added: string[]; updated: string[] } {
+  const previous = new Map(before.map((func) => [func.qualifiedName, func.docstring]))
+  const added: string[] = []
+  const updated: string[] = []
+  for (const func of after) {
+    if (func.docstring === undefined || !previous.has(func.qualifiedName)) continue
+    const old = previous.get(func.qualifiedName)
+    if (old === undefined) added.push(func.qualifiedName)
+    else if (old !== func.docstring) updated.push(func.qualifiedName)
+  }
+  return { added, updated }
+}
+
+// Modifiers before a member's name that keep it out of the public API
+const PRIVATE_MODIFIER = /\b(?:private|protected)\b/
+
+function isPublicName(name: string, language: Language): boolean {
+  switch (language) {
+    case 'python':
+      // Dunder methods such as `__init__` are public; other leading underscores are not
+      return !name.startsWith('_') || (name.startsWith('__') && name.endsWith('__'))
+    case 'javascript':
+    case 'typescript':
+      return !name.startsWith('_') && !name.startsWith('#')
+    case 'go':
+      return /^[A-Z]/.test(name)
+    default:
+      return true
+  }
+}
+
+/** The line naming the declaration, after its decorators and attributes */
+export function findDeclarationLine(lines: string[], func: FunctionMetadata): number {
+  const name = func.name.replace(/^#/, '')
+  for (let line = func.startLine; line <= func.endLine && line < lines.length; line++) {
+    if (lines[line].includes(name)) return line
+  }
+  return func.startLine
+}
+
+/** The text of a declaration line before the declaration's name, where its modifiers are */
+function declarationPrefix(line: string, name: string): string {
+  const escaped = name.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+  const match = new RegExp(`(?:^|[^\\w$])${escaped}(?![\\w$])`).exec(line)
+  return match ? line.slice(0, match.index + match[0].length - name.length) : line
+}
+
+/**
+ * Names a JavaScript or TypeScript module exports apart from their declarations:
+ * `export { a, b as c }`, `export default a` and `module.exports = { a }`
+ */
+function findExportedNames(code: string): Set<string> {
+  const names = new Set<string>()
+  const lists = /\b(?:export(?:\s+type)?|module\.exports\s*=)\s*\{([^}]*)\}/g
+  for (const [, list] of code.matchAll(lists)) {
+    for (const item of list.split(',')) {
+      // `a as b` exports the local `a`; `b: a` in CommonJS does too
+      const local = item.includes(':') ? item.split(':')[1] : item.trim().split(/\s+/)[0]
+      if (local?.trim()) names.add(local.trim())
+    }
+  }
+  const single = /\b(?:export\s+default\s+|module\.exports\s*=\s*)([\w$]+)\s*;?\s*$/gm
+  for (const [, name] of code.matchAll(single)) names.add(name)
+  return names
+}
+
+/**
+ * Declarations that belong to the file's public API, judged by naming conventions, access
+ * modifiers and, in JavaScript and TypeScript, exports. Functions nested in functions and the
+ * module entry are never included.
+ */
+export function findPublicDeclarations(
+  functions: FunctionMetadata[],
+  language: Language,
+  code: string
+): FunctionMetadata[] {
+  const lines = code.split('\n')
+  const byName = new Map(functions.map((func) => [func.qualifiedName, func]))
+  const modules = language === 'javascript' || language === 'typescript'
+  const exported = modules ? findExportedNames(code) : new Set<string>()
+
+  const isPublic = (func: FunctionMetadata): boolean => {
+    if (func.type === 'module' || !isPublicName(func.name, language)) return false
+    const declaration = lines[findDeclarationLine(lines, func)]
+    if (language === 'rust' && !/^\s*pub\b/.test(declaration)) return false
+    const prefix = declarationPrefix(declaration, func.name)
+    if (PRIVATE_MODIFIER.test(prefix)) return false
+    if (!func.parent) {
+      if (!modules) return true
+      // Top-level JavaScript belongs to the API only when the module exports it, e.g. through
+      // `export function`, `export { name }` or `exports.name = ...`
+      const root = func.qualifiedName.split('.')[0]
+      return /\bexport\b/.test(prefix) || exported.has(root) || /^(?:module|exports)$/.test(root)
+    }
+    const parent = byName.get(func.parent)
+    return parent !== undefined && parent.type !== 'function' && isPublic(parent)
+  }
+
+  return functions.filter(isPublic)
+}
@@ -0,0 +1,53 @@
+/** One server-sent event; `data` joins multi-line data fields with newlines */
+export interface ServerSentEvent {
+  event: string
+  data: string
+}
+
+/**
+ * Reads server-sent events from a response body as they arrive. Comments, `id` and `retry`
+ * fields are ignored, since the edge function does not reconnect.
+ */
+export async function* readServerSentEvents(
+  body: ReadableStream<Uint8Array>
+): AsyncGenerator<ServerSentEvent> {
+  const reader = body.getReader()
+  const decoder = new TextDecoder()
+  let buffer = ''
+  let event = 'message'
+  let data: string[] = []
+
+  try {
+    for (;;) {
+      const { done, value } = await reader.read()
+      buffer += decoder.decode(value, { stream: !done })
+
+      // A chunk ending in \r may be followed by the \n of the same line break
+      const held = !done && buffer.endsWith('\r') ? '\r' : ''
+      const lines = buffer.slice(0, buffer.length - held.length).split(/\r\n|\r|\n/)
+      // The last line may be incomplete until the next chunk, unless the stream has ended
+      buffer = done ? '' : lines.pop()! + held
+      for (const line of lines) {
+        if (line === '') {
+          if (data.length) yield { event, data: data.join('\n') }
+          event = 'message'
+          data = []
+          continue
+        }
+        const colon = line.indexOf(':')
+        if (colon === 0) continue
+        const field = colon < 0 ? line : line.slice(0, colon)
+        const text = colon < 0 ? '' : line.slice(colon + 1).replace(/^ /, '')
+        if (field === 'event') event = text
+        else if (field === 'data') data.push(text)
+      }
+
+      if (done) {
+        if (data.length) yield { event, data: data.join('\n') }
+        return
+      }
+    }
+  } finally {
+    reader.releaseLock()
+  }
+}
@@ -0,0 +1,68 @@
+// Cache keys for generated documentation, shared by the edge function and the app's offline
+// cache. Like languages.ts, this module must stay dependency-free.
+
+/**
+ * Changes whenever the prompts or the answer schema change in a way that would change the
+ * documentation, so that older cached answers are no longer used.
+ */
+export const PROMPT_VERSION = 1
+
+/** The parts of a declaration that its prompt is built from */
+export interface CacheableDeclaration {
+  name: string
+  parent?: string
+  type?: string
+  params: unknown[]
+  returnType?: string
+  overloads?: string[]
+  attributes?: unknown[]
+  module?: unknown
+  body: string
+  hint?: string
+}
+
+/**
+ * Line endings, trailing whitespace and the indentation shared by every line do not change the
+ * documentation, so a method keeps its key when its class is re-indented.
+ */
+export function normalizeSource(source: string): string {
+  const lines = source
+    .replace(/\r\n?/g, '\n')
+    .split('\n')
+    .map((line) => line.trimEnd())
+  const indents = lines.filter(Boolean).map((line) => line.length - line.trimStart().length)
+  const indent = indents.length ? Math.min(...indents) : 0
+  return lines
+    .map((line) => line.slice(indent))
+    .join('\n')
+    .trim()
+}
+
+/**
+ * SHA-256 of everything the documentation depends on: the declaration's normalized source and
+ * signature, the language, the resolved format id and the prompt version.
+ */
+export async function computeCacheKey(
+  declaration: CacheableDeclaration,
+  language: string,
+  format: string
+): Promise<string> {
+  // Absent fields are written as null, so that a key survives a JSON round trip
+  const input = JSON.stringify([
+    PROMPT_VERSION,
+    language,
+    format,
+    declaration.type ?? null,
+    declaration.name,
+    declaration.parent ?? null,
+    declaration.params,
+    declaration.returnType ?? null,
+    declaration.overloads ?? null,
+    declaration.attributes ?? null,
+    declaration.module ?? null,
+    normalizeSource(declaration.body),
+    declaration.hint?.trim() || null,
+  ])
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(input))
+  return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, '0')).join('')
+}
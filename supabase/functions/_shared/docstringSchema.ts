@@ -0,0 +1,159 @@
+// Structured documentation returned by the edge function and rendered by the app.
+// Like languages.ts, this module must stay dependency-free.
+
+export interface DocItem {
+  name: string
+  type?: string
+  description: string
+  /** Marked optional in documentation converted from another format */
+  optional?: boolean
+}
+
+export interface DocValue {
+  type?: string
+  description: string
+}
+
+/** The content of a docstring, independent of its format */
+export interface StructuredDocstring {
+  /** One sentence */
+  summary: string
+  /** Paragraphs after the summary, separated by blank lines */
+  description?: string
+  params?: DocItem[]
+  returns?: DocValue
+  yields?: DocValue
+  /** Exceptions raised, errors returned or panics, with the exception type where there is one */
+  raises?: DocValue[]
+  attributes?: DocItem[]
+  /** Example code, without Markdown fences or prompts added for display */
+  examples?: string
+  notes?: string
+}
+
+const ITEM_SCHEMA = {
+  type: 'OBJECT',
+  properties: {
+    name: { type: 'STRING' },
+    type: { type: 'STRING' },
+    description: { type: 'STRING' },
+  },
+  required: ['name', 'description'],
+}
+
+const VALUE_SCHEMA = {
+  type: 'OBJECT',
+  properties: {
+    type: { type: 'STRING' },
+    description: { type: 'STRING' },
+  },
+  required: ['description'],
+}
+
+/** `StructuredDocstring` as a Gemini response schema */
+export const DOCSTRING_SCHEMA = {
+  type: 'OBJECT',
+  properties: {
+    summary: { type: 'STRING' },
+    description: { type: 'STRING' },
+    params: { type: 'ARRAY', items: ITEM_SCHEMA },
+    returns: VALUE_SCHEMA,
+    yields: VALUE_SCHEMA,
+    raises: { type: 'ARRAY', items: VALUE_SCHEMA },
+    attributes: { type: 'ARRAY', items: ITEM_SCHEMA },
+    examples: { type: 'STRING' },
+    notes: { type: 'STRING' },
+  },
+  required: ['summary'],
+}
+
+/** Documentation for several declarations, answered by one batched prompt */
+export const DOCSTRING_BATCH_SCHEMA = {
+  type: 'OBJECT',
+  properties: {
+    docstrings: {
+      type: 'ARRAY',
+      items: {
+        type: 'OBJECT',
+        properties: {
+          qualifiedName: { type: 'STRING' },
+          documentation: DOCSTRING_SCHEMA,
+        },
+        required: ['qualifiedName', 'documentation'],
+      },
+    },
+  },
+  required: ['docstrings'],
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+function readString(value: unknown, path: string, required: boolean): string | undefined {
+  if (value === undefined || value === null) {
+    if (required) throw new Error(`${path} is missing`)
+    return undefined
+  }
+  if (typeof value !== 'string') throw new Error(`${path} is not a string`)
+  const text = value.trim()
+  if (required && !text) throw new Error(`${path} is empty`)
+  return text || undefined
+}
+
+function readValue(value: unknown, path: string): DocValue {
+  if (!isRecord(value)) throw new Error(`${path} is not an object`)
+  return {
+    type: readString(value.type, `${path}.type`, false),
+    description: readString(value.description, `${path}.description`, false) ?? '',
+  }
+}
+
+function readList<T>(value: unknown, path: string, read: (item: unknown, path: string) => T) {
+  if (value === undefined || value === null) return undefined
+  if (!Array.isArray(value)) throw new Error(`${path} is not an array`)
+  return value.length ? value.map((item, i) => read(item, `${path}[${i}]`)) : undefined
+}
+
+function readItem(value: unknown, path: string): DocItem {
+  if (!isRecord(value)) throw new Error(`${path} is not an object`)
+  return {
+    name: readString(value.name, `${path}.name`, true) as string,
+    ...readValue(value, path),
+  }
+}
+
+/** Checks a parsed model answer against `DOCSTRING_SCHEMA`, trimming its strings */
+export function parseStructuredDocstring(value: unknown): StructuredDocstring {
+  if (!isRecord(value)) throw new Error('answer is not an object')
+  const returns = value.returns ?? undefined
+  const yields = value.yields ?? undefined
+  return {
+    summary: readString(value.summary, 'summary', true) as string,
+    description: readString(value.description, 'description', false),
+    params: readList(value.params, 'params', readItem),
+    returns: returns === undefined ? undefined : readValue(returns, 'returns'),
+    yields: yields === undefined ? undefined : readValue(yields, 'yields'),
+    raises: readList(value.raises, 'raises', readValue),
+    attributes: readList(value.attributes, 'attributes', readItem),
+    examples: readString(value.examples, 'examples', false),
+    notes: readString(value.notes, 'notes', false),
+  }
+}
+
+/**
+ * Splits a parsed batched answer into the raw documentation of each declaration, keyed by
+ * qualified name. Each value still needs `parseStructuredDocstring`.
+ */
+export function parseDocstringBatch(value: unknown): Map<string, unknown> {
+  if (!isRecord(value) || !Array.isArray(value.docstrings)) {
+    throw new Error('answer has no docstrings list')
+  }
+  const entries = new Map<string, unknown>()
+  value.docstrings.forEach((entry, i) => {
+    if (!isRecord(entry)) throw new Error(`docstrings[${i}] is not an object`)
+    const name = readString(entry.qualifiedName, `docstrings[${i}].qualifiedName`, true) as string
+    entries.set(name, entry.documentation)
+  })
+  return entries
+}
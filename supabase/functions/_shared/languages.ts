@@ -0,0 +1,300 @@
+// Language definitions shared by the frontend and the edge functions.
+// This module must stay dependency-free so that both Vite and Deno can load it.
+
+export type LanguageId = 'python' | 'javascript' | 'typescript' | 'java' | 'kotlin' | 'go' | 'rust'
+export type DocstringFormat =
+  | 'google'
+  | 'numpy'
+  | 'sphinx'
+  | 'jsdoc'
+  | 'javadoc'
+  | 'kdoc'
+  | 'godoc'
+  | 'rustdoc'
+
+export interface CommentSyntax {
+  /** Docstrings go inside the body; doc comments go before the declaration */
+  placement: 'inside' | 'before'
+  /** Empty for line comments, which have no opening or closing line */
+  open: string
+  close: string
+  /** Prefix of each line, e.g. ` * ` in a JSDoc block or `/// ` in Rust */
+  linePrefix: string
+  /** Other delimiters the model might wrap its answer in */
+  alternativeDelimiters?: string[]
+}
+
+export interface DocstringFormatOption {
+  id: DocstringFormat
+  label: string
+  /**
+   * Sentence telling the model how to word the documentation. The layout comes from the
+   * app's renderer, so this covers conventions the structured fields cannot express.
+   */
+  instruction: string
+}
+
+export interface PromptFragment {
+  /** What the generated text is called, e.g. "docstring" */
+  documentationNoun: string
+  /** What the documentation should concentrate on */
+  guidance: string
+  /** How to document a whole file, for languages whose parser emits a module entry */
+  module?: { documentationNoun: string; instruction: string }
+}
+
+export interface LanguageDefinition {
+  id: LanguageId
+  displayName: string
+  /** Lower-case file extensions without the dot */
+  extensions: string[]
+  monacoLanguage: string
+  tabSize: number
+  comment: CommentSyntax
+  /** Supported formats, in the order they are offered */
+  formats: DocstringFormatOption[]
+  defaultFormat: DocstringFormat
+  prompt: PromptFragment
+}
+
+const FORMATS: Record<DocstringFormat, DocstringFormatOption> = {
+  google: {
+    id: 'google',
+    label: 'Google Style',
+    instruction:
+      'Write in the style of Google docstrings: an imperative summary and short entries.',
+  },
+  numpy: {
+    id: 'numpy',
+    label: 'NumPy Style',
+    instruction: 'Write in the style of NumPy docstrings, with full sentences in every entry.',
+  },
+  sphinx: {
+    id: 'sphinx',
+    label: 'Sphinx Style',
+    instruction:
+      'Write in the style of Sphinx docstrings, using reStructuredText markup such as ' +
+      '``code`` for inline code.',
+  },
+  jsdoc: {
+    id: 'jsdoc',
+    label: 'JSDoc',
+    instruction: 'Write in the style of JSDoc, giving types as JSDoc type expressions.',
+  },
+  javadoc: {
+    id: 'javadoc',
+    label: 'Javadoc',
+    instruction:
+      'Follow Javadoc conventions: a summary sentence, {@code ...} for inline code, and no ' +
+      'repeated declared types. List type parameters as params named like <T>, and leave ' +
+      'out returns when the method returns void.',
+  },
+  godoc: {
+    id: 'godoc',
+    label: 'Go Doc Comments',
+    instruction:
+      'Follow Go doc comment conventions: complete sentences where the summary begins with ' +
+      'the name being declared (for example "Open opens the named file ..."). Describe ' +
+      'parameters, results and returned errors in the description, referring to parameters ' +
+      'by name, and leave params, returns and raises empty.',
+  },
+  rustdoc: {
+    id: 'rustdoc',
+    label: 'rustdoc',
+    instruction:
+      'Follow rustdoc conventions: a one-line summary and Markdown in descriptions. List ' +
+      'errors returned in a Result under raises, and panics under raises with the type ' +
+      '"panic". Do not repeat the types.',
+  },
+  kdoc: {
+    id: 'kdoc',
+    label: 'KDoc',
+    instruction:
+      'Follow KDoc conventions: Markdown in descriptions, [Name] to refer to other ' +
+      'declarations, and no repeated declared types. For classes, list primary constructor ' +
+      'properties under attributes.',
+  },
+}
+
+const JSDOC_COMMENT: CommentSyntax = {
+  placement: 'before',
+  open: '/**',
+  close: ' */',
+  linePrefix: ' * ',
+}
+
+const FILE_HEADER_PROMPT = {
+  documentationNoun: 'file header comment',
+  instruction:
+    "Summarize the file's purpose in one sentence, then give a short paragraph on what it " +
+    'provides.',
+}
+
+const FUNCTION_GUIDANCE =
+  'Focus on what the function does, what parameters it accepts, and what it returns.'
+
+export const python: LanguageDefinition = {
+  id: 'python',
+  displayName: 'Python',
+  extensions: ['py'],
+  monacoLanguage: 'python',
+  tabSize: 4,
+  comment: {
+    placement: 'inside',
+    open: '"""',
+    close: '"""',
+    linePrefix: '',
+    alternativeDelimiters: ["'''"],
+  },
+  formats: [FORMATS.google, FORMATS.numpy, FORMATS.sphinx],
+  defaultFormat: 'google',
+  prompt: {
+    documentationNoun: 'docstring',
+    guidance: FUNCTION_GUIDANCE,
+    module: {
+      documentationNoun: 'module docstring',
+      instruction:
+        "Start with a one-line summary of the module's purpose, then a short paragraph on " +
+        'what it provides, naming the main classes and functions where that helps.',
+    },
+  },
+}
+
+export const javascript: LanguageDefinition = {
+  id: 'javascript',
+  displayName: 'JavaScript',
+  extensions: ['js', 'jsx', 'mjs', 'cjs'],
+  monacoLanguage: 'javascript',
+  tabSize: 2,
+  comment: JSDOC_COMMENT,
+  formats: [FORMATS.google, FORMATS.numpy, FORMATS.sphinx, FORMATS.jsdoc],
+  defaultFormat: 'google',
+  prompt: {
+    documentationNoun: 'documentation comment',
+    guidance: FUNCTION_GUIDANCE,
+    module: FILE_HEADER_PROMPT,
+  },
+}
+
+export const typescript: LanguageDefinition = {
+  id: 'typescript',
+  displayName: 'TypeScript',
+  extensions: ['ts', 'tsx', 'mts', 'cts'],
+  monacoLanguage: 'typescript',
+  tabSize: 2,
+  comment: JSDOC_COMMENT,
+  formats: [
+    {
+      id: 'jsdoc',
+      label: 'TSDoc',
+      instruction:
+        'Write in the style of TSDoc. Leave out parameter and return types, which ' +
+        'TypeScript already declares.',
+    },
+    FORMATS.google,
+    FORMATS.numpy,
+    FORMATS.sphinx,
+  ],
+  defaultFormat: 'jsdoc',
+  prompt: {
+    documentationNoun: 'documentation comment',
+    guidance:
+      'For interfaces, type aliases and enums, describe what the type represents instead of ' +
+      'parameters and return values.',
+    module: FILE_HEADER_PROMPT,
+  },
+}
+
+export const java: LanguageDefinition = {
+  id: 'java',
+  displayName: 'Java',
+  extensions: ['java'],
+  monacoLanguage: 'java',
+  tabSize: 4,
+  comment: JSDOC_COMMENT,
+  formats: [FORMATS.javadoc],
+  defaultFormat: 'javadoc',
+  prompt: {
+    documentationNoun: 'Javadoc comment',
+    guidance:
+      'For classes, interfaces, records and enums, describe what the type represents; list ' +
+      'record components as params.',
+  },
+}
+
+export const kotlin: LanguageDefinition = {
+  id: 'kotlin',
+  displayName: 'Kotlin',
+  extensions: ['kt', 'kts'],
+  monacoLanguage: 'kotlin',
+  tabSize: 4,
+  comment: JSDOC_COMMENT,
+  formats: [FORMATS.kdoc],
+  defaultFormat: 'kdoc',
+  prompt: {
+    documentationNoun: 'KDoc comment',
+    guidance: 'For classes, interfaces and objects, describe what the type represents.',
+  },
+}
+
+export const go: LanguageDefinition = {
+  id: 'go',
+  displayName: 'Go',
+  extensions: ['go'],
+  monacoLanguage: 'go',
+  tabSize: 4,
+  comment: { placement: 'before', open: '', close: '', linePrefix: '// ' },
+  formats: [FORMATS.godoc],
+  defaultFormat: 'godoc',
+  prompt: {
+    documentationNoun: 'doc comment',
+    guidance: 'For types, describe what the type represents.',
+  },
+}
+
+export const rust: LanguageDefinition = {
+  id: 'rust',
+  displayName: 'Rust',
+  extensions: ['rs'],
+  monacoLanguage: 'rust',
+  tabSize: 4,
+  comment: { placement: 'before', open: '', close: '', linePrefix: '/// ' },
+  formats: [FORMATS.rustdoc],
+  defaultFormat: 'rustdoc',
+  prompt: {
+    documentationNoun: 'doc comment',
+    guidance: 'For structs, enums and traits, describe what the type represents.',
+  },
+}
+
+export const languages: LanguageDefinition[] = [
+  python,
+  javascript,
+  typescript,
+  java,
+  kotlin,
+  go,
+  rust,
+]
+
+export function getLanguageDefinition(id: string): LanguageDefinition | undefined {
+  return languages.find((language) => language.id === id)
+}
+
+/** Picks the language whose extensions include the file's extension */
+export function detectLanguageDefinition(filename: string): LanguageDefinition | undefined {
+  const ext = filename.split('.').pop()?.toLowerCase()
+  return languages.find((language) => ext !== undefined && language.extensions.includes(ext))
+}
+
+/** Looks up a format option, falling back to the language's default */
+export function getFormatOption(
+  language: LanguageDefinition,
+  format: string | undefined
+): DocstringFormatOption {
+  return (
+    language.formats.find((option) => option.id === format) ??
+    language.formats.find((option) => option.id === language.defaultFormat) ??
+    language.formats[0]
+  )
+}
@@ -0,0 +1,61 @@
+// The docstring_cache table: documentation generated before for identical declarations.
+// The cache is best effort, so its errors are logged and treated as misses.
+
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { parseStructuredDocstring } from '../_shared/docstringSchema.ts'
+import type { StructuredDocstring } from '../_shared/docstringSchema.ts'
+
+const SUPABASE_URL = Deno.env.get('SUPABASE_URL')
+const SERVICE_ROLE_KEY = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')
+
+// Supabase sets both for deployed functions; without them the cache is off
+const supabase =
+  SUPABASE_URL && SERVICE_ROLE_KEY && Deno.env.get('DOCSTRING_CACHE') !== 'off'
+    ? createClient(SUPABASE_URL, SERVICE_ROLE_KEY, { auth: { persistSession: false } })
+    : undefined
+
+/** Cached documentation for `keys` from `generator`, a provider and model such as gemini/x */
+export async function readCache(
+  keys: string[],
+  generator: string
+): Promise<Map<string, StructuredDocstring>> {
+  const found = new Map<string, StructuredDocstring>()
+  if (!supabase || keys.length === 0) return found
+
+  const { data, error } = await supabase
+    .from('docstring_cache')
+    .select('key, structured')
+    .eq('generator', generator)
+    .in('key', keys)
+  if (error) {
+    console.error('Docstring cache lookup failed:', error.message)
+    return found
+  }
+  for (const row of data ?? []) {
+    try {
+      found.set(row.key, parseStructuredDocstring(row.structured))
+    } catch {
+      // Rows from an older schema are regenerated and overwritten
+    }
+  }
+  return found
+}
+
+export async function writeCache(
+  entries: Array<{ key: string; structured: StructuredDocstring }>,
+  language: string,
+  generator: string
+): Promise<void> {
+  if (!supabase || entries.length === 0) return
+
+  const { error } = await supabase.from('docstring_cache').upsert(
+    entries.map(({ key, structured }) => ({
+      key,
+      generator,
+      language,
+      structured,
+      created_at: new Date().toISOString(),
+    }))
+  )
+  if (error) console.error('Docstring cache update failed:', error.message)
+}
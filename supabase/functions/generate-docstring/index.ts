@@ -1,32 +1,82 @@
 // Supabase Edge Function: generate-docstring
-// Generates docstrings for functions using Gemini 2.0 Pro
+// Generates docstrings for functions using the configured model provider
 
 import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
-import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { getFormatOption, getLanguageDefinition } from '../_shared/languages.ts'
+import type { DocstringFormat, LanguageDefinition, LanguageId } from '../_shared/languages.ts'
+import {
+  DOCSTRING_BATCH_SCHEMA,
+  DOCSTRING_SCHEMA,
+  parseDocstringBatch,
+  parseStructuredDocstring,
+} from '../_shared/docstringSchema.ts'
+import type { DocItem, DocValue, StructuredDocstring } from '../_shared/docstringSchema.ts'
+import { computeCacheKey } from '../_shared/docstringCache.ts'
+import { readCache, writeCache } from './cache.ts'
+import { createProvider, positiveIntegerEnv, PROVIDER_IDS } from './providers.ts'
+import type { LlmProvider, ProviderId } from './providers.ts'
+import type { AttributeInfo, BodyAnalysis, FunctionInfo, ParamInfo } from './types.ts'
 
-const GEMINI_API_KEY = Deno.env.get('GEMINI_API_KEY')
-const GEMINI_API_URL = 'https://generativelanguage.googleapis.com/v1beta/models/gemini-2.0-flash-exp:generateContent'
+// Model requests in flight at once
+const CONCURRENCY = positiveIntegerEnv('LLM_CONCURRENCY', 4)
+const MAX_BATCH_SIZE = 10
+// Answer tokens allowed per declaration in a prompt
+const OUTPUT_TOKENS_PER_DECLARATION = 1024
 
-interface FunctionInfo {
+interface RequestBody {
+  language: LanguageId
+  functions: FunctionInfo[]
+  format?: DocstringFormat
+  /** Declarations documented per prompt; 1 unless the client asks for batching */
+  batchSize?: number
+  /** Overrides the provider and model configured for the function */
+  provider?: ProviderId
+  model?: string
+  /** Answer with server-sent events as each declaration is done, instead of one JSON body */
+  stream?: boolean
+  /** Generate every declaration again instead of reusing cached documentation */
+  force?: boolean
+}
+
+interface DocstringEntry {
   name: string
-  params: string[]
-  body: string
-  type?: string
+  qualifiedName?: string
+  structured: StructuredDocstring
+  /** Set when the documentation came from the cache rather than the model */
+  cached?: boolean
 }
 
-interface RequestBody {
-  language: 'python' | 'javascript'
-  functions: FunctionInfo[]
-  format?: 'google' | 'numpy' | 'sphinx' | 'jsdoc'
+interface FailureEntry {
+  name: string
+  qualifiedName?: string
+  error: string
 }
 
+// The app renders the structured documentation in the requested format. Declarations that
+// could not be documented are listed in failures, so that clients can retry just those.
 interface DocstringResponse {
-  docstrings: Array<{
-    name: string
-    docstring: string
-  }>
+  docstrings: DocstringEntry[]
+  failures: FailureEntry[]
+  /** The provider and model that answered */
+  provider: ProviderId
+  model: string
 }
 
+const FIELD_INSTRUCTIONS = `- summary: one sentence
+- description: any further paragraphs, separated by blank lines
+- params: every parameter, in order, with its description and the type where one is listed
+- returns, yields and raises: what it returns, yields and raises, with types where known
+- attributes: the attributes of a class
+- examples: example code only, without Markdown fences
+- notes: caveats worth knowing
+Leave out fields that do not apply. Do not put section headings, tags, comment markers or quotes in any string. Be concise but informative.`
+
+const JSON_OUTPUT_INSTRUCTIONS = `Answer with a JSON object that matches the response schema:
+${FIELD_INSTRUCTIONS}`
+
+const BATCH_OUTPUT_INSTRUCTIONS = `Answer with a JSON object that matches the response schema, with one entry in docstrings for each declaration above. Give its qualifiedName exactly as listed, and put its documentation in documentation, with these fields:
+${FIELD_INSTRUCTIONS}`
+
 serve(async (req) => {
   // Handle CORS
   if (req.method === 'OPTIONS') {
@@ -40,11 +90,8 @@ serve(async (req) => {
   }
 
   try {
-    if (!GEMINI_API_KEY) {
-      throw new Error('GEMINI_API_KEY is not set in Supabase secrets')
-    }
-
-    const { language, functions, format = 'google' }: RequestBody = await req.json()
+    const body: RequestBody = await req.json()
+    const { language, functions, format } = body
 
     if (!language || !functions || functions.length === 0) {
       return new Response(
@@ -56,59 +103,112 @@ serve(async (req) => {
       )
     }
 
-    const docstrings: Array<{ name: string; docstring: string }> = []
+    const definition = getLanguageDefinition(language)
+    if (!definition) {
+      return new Response(JSON.stringify({ error: `Unsupported language: ${language}` }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' },
+      })
+    }
+
+    if (body.provider && !PROVIDER_IDS.includes(body.provider)) {
+      return new Response(
+        JSON.stringify({
+          error: `Unknown provider: ${body.provider}; expected one of ${PROVIDER_IDS.join(', ')}`,
+        }),
+        {
+          status: 400,
+          headers: { 'Content-Type': 'application/json' },
+        }
+      )
+    }
+    const provider = createProvider(body.provider, body.model)
 
-    // Process each function
+    // Declarations documented before by the same model are answered from the cache
+    const generator = `${provider.id}/${provider.model}`
+    const formatId = getFormatOption(definition, format).id
+    const keys = new Map<FunctionInfo, string>()
     for (const func of functions) {
-      const prompt = generatePrompt(language, func, format)
-      
-      const geminiResponse = await fetch(`${GEMINI_API_URL}?key=${GEMINI_API_KEY}`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          contents: [
-            {
-              parts: [
-                {
-                  text: prompt,
-                },
-              ],
-            },
-          ],
-          generationConfig: {
-            temperature: 0.3,
-            topK: 40,
-            topP: 0.95,
-            maxOutputTokens: 1024,
-          },
-        }),
+      keys.set(func, await computeCacheKey(func, language, formatId))
+    }
+    const cached = body.force
+      ? new Map<string, StructuredDocstring>()
+      : await readCache([...keys.values()], generator)
+    const hits = new Map<FunctionInfo, DocstringEntry>()
+    for (const func of functions) {
+      const structured = cached.get(keys.get(func)!)
+      if (!structured) continue
+      hits.set(func, {
+        name: func.name,
+        qualifiedName: func.qualifiedName,
+        structured,
+        cached: true,
       })
+    }
+    const remember = (results: Map<FunctionInfo, DocstringEntry | FailureEntry>) =>
+      writeCache(
+        [...results].flatMap(([func, result]) =>
+          'structured' in result ? [{ key: keys.get(func)!, structured: result.structured }] : []
+        ),
+        language,
+        generator
+      )
 
-      if (!geminiResponse.ok) {
-        const error = await geminiResponse.text()
-        console.error('Gemini API error:', error)
-        throw new Error(`Gemini API request failed: ${geminiResponse.statusText}`)
-      }
+    // Module entries have a prompt of their own, so they are never batched
+    const batchSize = Math.min(Math.max(Math.floor(Number(body.batchSize)) || 1, 1), MAX_BATCH_SIZE)
+    const uncached = functions.filter((func) => !hits.has(func))
+    const groups: FunctionInfo[][] = uncached
+      .filter((func) => func.type === 'module')
+      .map((func) => [func])
+    const declarations = uncached.filter((func) => func.type !== 'module')
+    for (let i = 0; i < declarations.length; i += batchSize) {
+      groups.push(declarations.slice(i, i + batchSize))
+    }
 
-      const geminiData = await geminiResponse.json()
-      const generatedText = geminiData.candidates?.[0]?.content?.parts?.[0]?.text
+    if (body.stream) {
+      return streamEvents(async (send, signal) => {
+        hits.forEach((entry) => send('docstring', entry))
+        let completed = hits.size
+        send('progress', { completed, total: functions.length })
+        await mapConcurrently(
+          groups,
+          CONCURRENCY,
+          async (group) => {
+            const results = await documentGroup(provider, definition, group, format, signal)
+            for (const result of results.values()) {
+              send('structured' in result ? 'docstring' : 'failure', result)
+            }
+            completed += group.length
+            send('progress', { completed, total: functions.length })
+            await remember(results)
+          },
+          signal
+        )
+        send('done', { provider: provider.id, model: provider.model })
+      })
+    }
 
-      if (!generatedText) {
-        throw new Error('No response from Gemini API')
-      }
+    const results = new Map<FunctionInfo, DocstringEntry | FailureEntry>(hits)
+    await mapConcurrently(groups, CONCURRENCY, async (group) => {
+      const generated = await documentGroup(provider, definition, group, format)
+      generated.forEach((result, func) => results.set(func, result))
+      await remember(generated)
+    })
 
-      // Clean up the generated docstring
-      const docstring = cleanDocstring(generatedText, language, format)
-      
-      docstrings.push({
-        name: func.name,
-        docstring,
-      })
+    const docstrings: DocstringEntry[] = []
+    const failures: FailureEntry[] = []
+    for (const func of functions) {
+      const result = results.get(func)!
+      if ('structured' in result) docstrings.push(result)
+      else failures.push(result)
     }
 
-    const response: DocstringResponse = { docstrings }
+    const response: DocstringResponse = {
+      docstrings,
+      failures,
+      provider: provider.id,
+      model: provider.model,
+    }
 
     return new Response(JSON.stringify(response), {
       status: 200,
@@ -132,68 +232,356 @@ serve(async (req) => {
   }
 })
 
-function generatePrompt(language: string, func: FunctionInfo, format: string): string {
-  const formatInstructions = {
-    google: `Use Google style docstrings with Args:, Returns:, and Raises: sections.`,
-    numpy: `Use NumPy style docstrings with Parameters, Returns, and Raises sections.`,
-    sphinx: `Use Sphinx style docstrings with :param, :type, :return, and :rtype directives.`,
-    jsdoc: `Use JSDoc style comments with @param, @returns, and @throws tags.`,
+/**
+ * Answers with a stream of server-sent events written by `run`. Events are `docstring` and
+ * `failure` for each declaration, `progress`, `done` at the end and `error` if `run` throws.
+ * When the client disconnects, `signal` aborts the work still in progress.
+ */
+function streamEvents(
+  run: (send: (event: string, data: unknown) => void, signal: AbortSignal) => Promise<void>
+): Response {
+  const abort = new AbortController()
+  let closed = false
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      const encoder = new TextEncoder()
+      const send = (event: string, data: unknown) => {
+        if (closed) return
+        controller.enqueue(encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`))
+      }
+      run(send, abort.signal)
+        .catch((error) => {
+          console.error('Error:', error)
+          send('error', { error: error.message || 'Internal server error' })
+        })
+        .finally(() => {
+          if (closed) return
+          closed = true
+          controller.close()
+        })
+    },
+    cancel() {
+      closed = true
+      abort.abort()
+    },
+  })
+
+  return new Response(stream, {
+    status: 200,
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      'Access-Control-Allow-Origin': '*',
+    },
+  })
+}
+
+/**
+ * Runs `task` on every item, with at most `limit` running at once. Once `signal` is aborted, no
+ * further items are started.
+ */
+async function mapConcurrently<T>(
+  items: T[],
+  limit: number,
+  task: (item: T) => Promise<void>,
+  signal?: AbortSignal
+): Promise<void> {
+  let next = 0
+  const worker = async () => {
+    while (next < items.length && !signal?.aborted) await task(items[next++])
+  }
+  await Promise.all(Array.from({ length: Math.max(1, Math.min(limit, items.length)) }, worker))
+}
+
+/**
+ * Documents a group of declarations with one prompt. Failures are reported per declaration
+ * rather than thrown, so that the rest of the request still succeeds.
+ */
+async function documentGroup(
+  provider: LlmProvider,
+  definition: LanguageDefinition,
+  group: FunctionInfo[],
+  format: DocstringFormat | undefined,
+  signal?: AbortSignal
+): Promise<Map<FunctionInfo, DocstringEntry | FailureEntry>> {
+  const results = new Map<FunctionInfo, DocstringEntry | FailureEntry>()
+  const fail = (func: FunctionInfo, error: string) =>
+    results.set(func, { name: func.name, qualifiedName: func.qualifiedName, error })
+  const succeed = (func: FunctionInfo, answer: unknown) => {
+    try {
+      const structured = parseStructuredDocstring(answer)
+      results.set(func, {
+        name: func.name,
+        qualifiedName: func.qualifiedName,
+        structured: cleanDocstring(structured, definition),
+      })
+    } catch (error) {
+      fail(func, `Invalid documentation: ${error.message}`)
+    }
+  }
+
+  try {
+    if (group.length === 1) {
+      const [func] = group
+      const prompt =
+        func.type === 'module'
+          ? generateModulePrompt(definition, func)
+          : generatePrompt(definition, func, format)
+      succeed(func, await generateJson(provider, prompt, DOCSTRING_SCHEMA, group, false, signal))
+    } else {
+      const answers = parseDocstringBatch(
+        await generateJson(
+          provider,
+          generateBatchPrompt(definition, group, format),
+          DOCSTRING_BATCH_SCHEMA,
+          group,
+          true,
+          signal
+        )
+      )
+      for (const func of group) {
+        const answer = answers.get(func.qualifiedName || func.name)
+        if (answer === undefined) fail(func, 'Missing from the batched answer')
+        else succeed(func, answer)
+      }
+    }
+  } catch (error) {
+    group.forEach((func) => fail(func, error.message))
   }
+  return results
+}
 
-  const instruction = formatInstructions[format] || formatInstructions.google
+/** Sends a prompt to the provider and parses its JSON answer */
+async function generateJson(
+  provider: LlmProvider,
+  prompt: string,
+  schema: unknown,
+  declarations: FunctionInfo[],
+  batched: boolean,
+  signal?: AbortSignal
+): Promise<unknown> {
+  const text = await provider.complete({
+    prompt,
+    schema,
+    maxOutputTokens: OUTPUT_TOKENS_PER_DECLARATION * declarations.length,
+    declarations,
+    batched,
+    signal,
+  })
+  if (!text) {
+    throw new Error(`No answer from ${provider.id} (${provider.model})`)
+  }
+  try {
+    // Models without structured output often wrap their JSON in a Markdown fence
+    return JSON.parse(text.trim().replace(/^```(?:json)?\s*\n([\s\S]*?)\n?```$/, '$1'))
+  } catch {
+    throw new Error(`${provider.id} (${provider.model}) answered with invalid JSON`)
+  }
+}
 
-  if (language === 'python') {
-    return `You are a documentation expert for Python code. Generate a professional, clear, and concise docstring for the following ${func.type || 'function'}. ${instruction}
+/** The details of one declaration that every prompt gives the model */
+function describeDeclaration(func: FunctionInfo, language: LanguageId): string {
+  let context = func.parent
+    ? `\nDefined in: ${func.parent} (qualified name: ${func.qualifiedName || func.name})`
+    : ''
+  if (func.returnType) {
+    context += `\nDeclared return type: ${func.returnType}`
+  }
+  if (func.overloads?.length) {
+    context += `\nOverload signatures:\n${func.overloads.join('\n')}`
+  }
+  if (func.attributes?.length) {
+    context += `\n${describeAttributes(func.attributes)}`
+  }
+  if (func.type === 'property') {
+    // Properties read like attributes, so their analysis would ask for the wrong sections
+    context +=
+      '\nIt is a property: document it like an attribute, with a summary describing the ' +
+      'value it holds and no params or returns.'
+  } else if (func.analysis) {
+    context += `\n${describeAnalysis(func.analysis)}`
+  }
 
-Function name: ${func.name}
-Parameters: ${func.params.join(', ') || 'none'}
-Function body:
-\`\`\`python
+  return `Name: ${func.name}${context}
+Parameters: ${describeParams(func.params)}
+Body:
+\`\`\`${language}
 ${func.body}
 \`\`\`
+${describeHint(func)}`
+}
+
+function generatePrompt(
+  language: LanguageDefinition,
+  func: FunctionInfo,
+  format: string | undefined
+): string {
+  const { instruction } = getFormatOption(language, format)
+  return `You are a documentation expert for ${language.displayName} code. Generate a professional, clear, and concise ${language.prompt.documentationNoun} for the following ${func.type || 'function'}. ${instruction} ${language.prompt.guidance}
+
+${describeDeclaration(func, language.id)}
+${JSON_OUTPUT_INSTRUCTIONS}`
+}
+
+function generateBatchPrompt(
+  language: LanguageDefinition,
+  group: FunctionInfo[],
+  format: string | undefined
+): string {
+  const { instruction } = getFormatOption(language, format)
+  const declarations = group.map(
+    (func, i) =>
+      `### ${i + 1}. ${func.type || 'function'} ${func.qualifiedName || func.name}\n` +
+      describeDeclaration(func, language.id)
+  )
+  return `You are a documentation expert for ${language.displayName} code. Generate a professional, clear, and concise ${language.prompt.documentationNoun} for each of the following ${group.length} declarations. ${instruction} ${language.prompt.guidance}
+
+${declarations.join('\n')}
+${BATCH_OUTPUT_INSTRUCTIONS}`
+}
+
+function generateModulePrompt(language: LanguageDefinition, func: FunctionInfo): string {
+  const { documentationNoun, instruction } = language.prompt.module ?? {
+    documentationNoun: 'file overview',
+    instruction: 'Summarize what the file provides.',
+  }
+  const imports = func.module?.imports.length ? func.module.imports.join(', ') : 'none'
+  const symbols = (func.module?.symbols ?? []).map(
+    (s) => `- ${s.name} (${s.type})${s.summary ? `: ${s.summary}` : ''}`
+  )
+
+  return `You are a documentation expert for ${language.displayName} code. Generate a professional, clear, and concise ${documentationNoun} that summarizes the purpose of a whole file. ${instruction}
+
+Imports: ${imports}
+Top-level declarations:${symbols.length > 0 ? `\n${symbols.join('\n')}` : ' none'}
+
+Base the summary on these imports, the declarations and their existing documentation (quoted after each name). Do not document individual parameters or return values.
+${describeHint(func)}
+${JSON_OUTPUT_INSTRUCTIONS}`
+}
+
+function describeHint(func: FunctionInfo): string {
+  const hint = func.hint?.trim()
+  return hint ? `\nThe user asks you to take this into account: ${hint}\n` : ''
+}
+
+function describeParams(params: ParamInfo[]): string {
+  if (params.length === 0) return 'none'
+
+  // Types and defaults come from the source, so the model should not have to guess them
+  const lines = params.map((p) => {
+    const details = [
+      p.type && `type: ${p.type}`,
+      p.defaultValue && `default: ${p.defaultValue}`,
+      p.optional && 'optional',
+      p.kind !== 'positional' && p.kind,
+    ].filter(Boolean)
+    return `- ${p.name}${details.length > 0 ? ` (${details.join(', ')})` : ''}`
+  })
+  lines.push('Use these declared types and defaults exactly; do not invent types that are not listed.')
+  return `\n${lines.join('\n')}`
+}
+
+function describeAttributes(attributes: AttributeInfo[]): string {
+  const lines = attributes.map((a) => {
+    const details = [
+      a.type && `type: ${a.type}`,
+      a.defaultValue && `default: ${a.defaultValue}`,
+      a.kind === 'property' && 'property',
+      a.kind === 'instance' && 'set in the constructor',
+      a.readonly && 'read-only',
+    ].filter(Boolean)
+    return `- ${a.name}${details.length > 0 ? ` (${details.join(', ')})` : ''}`
+  })
+  const heading = 'Attributes (list each of these in attributes, with the types listed):'
+  return `${heading}\n${lines.join('\n')}`
+}
+
+function describeAnalysis(analysis: BodyAnalysis): string {
+  const facts: string[] = []
 
-Generate ONLY the docstring content (the text that goes inside the triple quotes), without the triple quotes themselves, without any code, and without any additional explanation. Be concise but informative. Focus on what the function does, what parameters it accepts, and what it returns.`
+  if (analysis.yields) {
+    const kind = analysis.isAsync ? 'an async generator' : 'a generator'
+    facts.push(`- It is ${kind}: describe what it yields in yields.`)
+  } else if (analysis.isAsync) {
+    facts.push('- It is asynchronous (a coroutine or promise-returning function).')
+  }
+
+  if (analysis.returnsValue) {
+    facts.push('- It returns a value: fill in returns.')
   } else {
-    return `You are a documentation expert for JavaScript/TypeScript code. Generate a professional, clear, and concise documentation comment for the following ${func.type || 'function'}. ${instruction}
+    facts.push('- It does not return a value: leave out returns.')
+  }
 
-Function name: ${func.name}
-Parameters: ${func.params.join(', ') || 'none'}
-Function body:
-\`\`\`javascript
-${func.body}
-\`\`\`
+  if (analysis.raises.length > 0) {
+    facts.push(
+      `- It directly raises: ${analysis.raises.join(', ')}. List exactly these in raises.`
+    )
+  } else {
+    facts.push('- It raises nothing directly: leave raises empty.')
+  }
+
+  if (analysis.mutates.length > 0) {
+    facts.push(`- It modifies instance state: ${analysis.mutates.join(', ')}.`)
+  }
+
+  const heading = 'Facts from static analysis of the body (base the documentation on these):'
+  return `${heading}\n${facts.join('\n')}`
+}
+
+function cleanText(text: string, language: LanguageDefinition): string {
+  // Remove the language's comment delimiters, which would end the comment early
+  let cleaned = text
+  const { comment } = language
+  for (const delimiter of [comment.open, comment.close, ...(comment.alternativeDelimiters ?? [])]) {
+    if (delimiter.trim()) cleaned = cleaned.split(delimiter.trim()).join('')
+  }
+  // Line prefixes are only removed when the answer copied them onto every line, since a
+  // prefix such as `*` on some lines is more likely a Markdown bullet
+  if (comment.linePrefix.trim()) {
+    const prefix = comment.linePrefix.trim().replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+    const prefixed = new RegExp(`^\\s*${prefix}\\s?`)
+    const lines = cleaned.split('\n')
+    if (lines.every((line) => !line.trim() || prefixed.test(line))) {
+      cleaned = lines.map((line) => line.replace(prefixed, '')).join('\n')
+    }
+  }
 
-Generate ONLY the documentation content (the text that goes inside the comment block), without the comment delimiters (/** */), without any code, and without any additional explanation. Be concise but informative. Focus on what the function does, what parameters it accepts, and what it returns.`
-  }
-}
-
-function cleanDocstring(text: string, language: string, format: string): string {
-  // Remove code blocks
-  let cleaned = text.replace(/```[\s\S]*?```/g, '')
-  
-  // Remove triple quotes if present
-  cleaned = cleaned.replace(/"""/g, '')
-  cleaned = cleaned.replace(/'''/g, '')
-  
-  // Remove JSDoc comment markers if present
-  cleaned = cleaned.replace(/\/\*\*/g, '')
-  cleaned = cleaned.replace(/\*\//g, '')
-  cleaned = cleaned.replace(/^\s*\*\s?/gm, '')
-  
-  // Trim each line and remove excessive blank lines
-  cleaned = cleaned
+  // Trim each line and remove excessive blank lines, keeping indentation inside code blocks
+  let inCodeBlock = false
+  return cleaned
     .split('\n')
-    .map(line => line.trim())
-    .filter((line, index, arr) => {
-      // Keep non-empty lines
-      if (line) return true
-      // Keep one empty line between sections
-      if (index > 0 && index < arr.length - 1 && arr[index - 1] && arr[index + 1]) {
-        return true
-      }
-      return false
+    .map((line) => {
+      const fence = line.trim().startsWith('```')
+      const kept = inCodeBlock && !fence ? line.trimEnd() : line.trim()
+      if (fence) inCodeBlock = !inCodeBlock
+      return kept
     })
     .join('\n')
-  
-  return cleaned.trim()
+    .replace(/\n{3,}/g, '\n\n')
+    .trim()
+}
+
+function cleanDocstring(
+  doc: StructuredDocstring,
+  language: LanguageDefinition
+): StructuredDocstring {
+  const clean = (text: string) => cleanText(text, language)
+  const value = (entry: DocValue): DocValue => ({ ...entry, description: clean(entry.description) })
+  const item = (entry: DocItem): DocItem => ({ ...entry, description: clean(entry.description) })
+
+  return {
+    summary: clean(doc.summary),
+    description: doc.description && clean(doc.description),
+    params: doc.params?.map(item),
+    returns: doc.returns && value(doc.returns),
+    yields: doc.yields && value(doc.yields),
+    raises: doc.raises?.map(value),
+    attributes: doc.attributes?.map(item),
+    // Example code keeps its indentation; the app adds fences for formats that use them
+    examples: doc.examples
+      ?.replace(/^\s*```\w*\n([\s\S]*?)\n\s*```\s*$/, '$1')
+      .replace(/^\n+|\s+$/g, ''),
+    notes: doc.notes && clean(doc.notes),
+  }
 }
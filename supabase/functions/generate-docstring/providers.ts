@@ -0,0 +1,311 @@
+// Model backends for generate-docstring. Each provider turns a prompt into the text of a JSON
+// answer; prompts, validation and rendering stay the same whichever model answers.
+
+import type { StructuredDocstring } from '../_shared/docstringSchema.ts'
+import type { FunctionInfo } from './types.ts'
+
+export type ProviderId = 'gemini' | 'openai' | 'ollama' | 'mock'
+
+export const PROVIDER_IDS: ProviderId[] = ['gemini', 'openai', 'ollama', 'mock']
+
+export interface CompletionRequest {
+  prompt: string
+  /** Schema of the answer, in the OpenAPI subset Gemini accepts */
+  schema: unknown
+  maxOutputTokens: number
+  /** The declarations the prompt documents; a batched answer covers several */
+  declarations: FunctionInfo[]
+  batched: boolean
+  /** Aborted when the client no longer wants the answer */
+  signal?: AbortSignal
+}
+
+export interface LlmProvider {
+  id: ProviderId
+  model: string
+  /** Returns the text of the model's answer, which should be JSON matching the schema */
+  complete(request: CompletionRequest): Promise<string | undefined>
+}
+
+const MAX_ATTEMPTS = positiveIntegerEnv('LLM_MAX_ATTEMPTS', 4)
+const RETRY_BASE_DELAY_MS = 500
+const RETRY_MAX_DELAY_MS = 8000
+// A longer Retry-After would outlast the function's own time limit, so the request fails instead
+const MAX_RETRY_AFTER_MS = 30000
+const RETRYABLE_STATUSES = new Set([408, 429, 500, 502, 503, 504])
+const TEMPERATURE = 0.3
+
+// The parts of each API's answer that hold the generated text
+interface GeminiAnswer {
+  candidates?: Array<{ content?: { parts?: Array<{ text?: string }> } }>
+}
+interface OpenAiAnswer {
+  choices?: Array<{ message?: { content?: string | null } }>
+}
+interface OllamaAnswer {
+  message?: { content?: string }
+}
+
+/** Reads a setting that must be a positive integer, using `fallback` when it is unset or invalid */
+export function positiveIntegerEnv(name: string, fallback: number): number {
+  const setting = Deno.env.get(name)
+  const value = Number(setting)
+  if (Number.isInteger(value) && value > 0) return value
+  if (setting) console.error(`Ignoring ${name}=${setting}: expected a positive integer`)
+  return fallback
+}
+
+/**
+ * Picks the provider named by the request, then `LLM_PROVIDER`, then Gemini when its key is
+ * set. Throws when the provider is not configured.
+ */
+export function createProvider(requested?: string, model?: string): LlmProvider {
+  const env = (name: string) => Deno.env.get(name) || undefined
+  const id = requested ?? env('LLM_PROVIDER') ?? (env('GEMINI_API_KEY') ? 'gemini' : undefined)
+  if (!id) {
+    throw new Error(
+      'No model provider is configured: set GEMINI_API_KEY, or LLM_PROVIDER to openai, ollama or mock'
+    )
+  }
+  model ??= env('LLM_MODEL')
+
+  switch (id) {
+    case 'gemini': {
+      const key = env('GEMINI_API_KEY')
+      if (!key) throw new Error('GEMINI_API_KEY is not set in Supabase secrets')
+      return geminiProvider(key, model ?? env('GEMINI_MODEL') ?? 'gemini-2.0-flash-exp')
+    }
+    case 'openai': {
+      const baseUrl = env('OPENAI_BASE_URL')
+      const key = env('OPENAI_API_KEY')
+      // Self-hosted servers often need no key, but then the URL must point at them
+      if (!baseUrl && !key) throw new Error('Set OPENAI_BASE_URL or OPENAI_API_KEY to use openai')
+      return openAiProvider(
+        baseUrl ?? 'https://api.openai.com/v1',
+        key,
+        model ?? env('OPENAI_MODEL') ?? 'gpt-4o-mini'
+      )
+    }
+    case 'ollama': {
+      const baseUrl = env('OLLAMA_URL')
+      if (!baseUrl) throw new Error('Set OLLAMA_URL to use ollama')
+      return ollamaProvider(baseUrl, model ?? env('OLLAMA_MODEL') ?? 'llama3.1')
+    }
+    case 'mock':
+      return mockProvider(env('MOCK_DOCSTRINGS'))
+    default:
+      throw new Error(`Unknown provider: ${id}; expected one of ${PROVIDER_IDS.join(', ')}`)
+  }
+}
+
+function geminiProvider(key: string, model: string): LlmProvider {
+  const url = `https://generativelanguage.googleapis.com/v1beta/models/${model}:generateContent`
+  return {
+    id: 'gemini',
+    model,
+    async complete({ prompt, schema, maxOutputTokens, signal }) {
+      const data = await postJson<GeminiAnswer>(
+        'Gemini API',
+        `${url}?key=${key}`,
+        {},
+        {
+          contents: [{ parts: [{ text: prompt }] }],
+          generationConfig: {
+            temperature: TEMPERATURE,
+            topK: 40,
+            topP: 0.95,
+            maxOutputTokens,
+            responseMimeType: 'application/json',
+            responseSchema: schema,
+          },
+        },
+        signal
+      )
+      return data.candidates?.[0]?.content?.parts?.[0]?.text
+    },
+  }
+}
+
+/** Any `/chat/completions` endpoint: OpenAI, vLLM, LM Studio, llama.cpp and similar servers */
+function openAiProvider(baseUrl: string, key: string | undefined, model: string): LlmProvider {
+  // Servers without structured output support can be told to just return a JSON object
+  const responseFormat = Deno.env.get('OPENAI_RESPONSE_FORMAT') ?? 'json_schema'
+  return {
+    id: 'openai',
+    model,
+    async complete({ prompt, schema, maxOutputTokens, signal }) {
+      const jsonSchema = toJsonSchema(schema)
+      const data = await postJson<OpenAiAnswer>(
+        'OpenAI-compatible API',
+        `${baseUrl.replace(/\/+$/, '')}/chat/completions`,
+        key ? { Authorization: `Bearer ${key}` } : {},
+        {
+          model,
+          messages: [{ role: 'user', content: withSchema(prompt, jsonSchema) }],
+          temperature: TEMPERATURE,
+          max_tokens: maxOutputTokens,
+          response_format:
+            responseFormat === 'json_schema'
+              ? { type: 'json_schema', json_schema: { name: 'documentation', schema: jsonSchema } }
+              : responseFormat === 'json_object'
+                ? { type: 'json_object' }
+                : undefined,
+        },
+        signal
+      )
+      return data.choices?.[0]?.message?.content ?? undefined
+    },
+  }
+}
+
+function ollamaProvider(baseUrl: string, model: string): LlmProvider {
+  return {
+    id: 'ollama',
+    model,
+    async complete({ prompt, schema, maxOutputTokens, signal }) {
+      const jsonSchema = toJsonSchema(schema)
+      const url = `${baseUrl.replace(/\/+$/, '')}/api/chat`
+      const data = await postJson<OllamaAnswer>(
+        'Ollama',
+        url,
+        {},
+        {
+          model,
+          messages: [{ role: 'user', content: withSchema(prompt, jsonSchema) }],
+          stream: false,
+          format: jsonSchema,
+          options: { temperature: TEMPERATURE, num_predict: maxOutputTokens },
+        },
+        signal
+      )
+      return data.message?.content
+    },
+  }
+}
+
+/**
+ * Answers without a model, for local development and tests. Documentation comes from
+ * `canned`, a JSON object keyed by qualified name, or else from a template built from the
+ * declaration, so the same request always gets the same answer.
+ */
+function mockProvider(canned: string | undefined): LlmProvider {
+  const answers: Record<string, StructuredDocstring> = canned ? JSON.parse(canned) : {}
+  const document = (func: FunctionInfo): StructuredDocstring => {
+    const name = func.qualifiedName || func.name
+    const answer = answers[name] ?? answers[func.name]
+    if (answer) return answer
+    if (func.type === 'module') return { summary: 'Mock overview of this file.' }
+
+    const analysis = func.type === 'property' ? undefined : func.analysis
+    const returns = analysis?.returnsValue && !analysis.yields
+    return {
+      summary: `Mock documentation for ${func.type || 'function'} ${name}.`,
+      params: func.params.length
+        ? func.params.map((p) => ({ name: p.name, type: p.type, description: `The ${p.name}.` }))
+        : undefined,
+      returns: returns ? { type: func.returnType, description: 'The result.' } : undefined,
+      yields: analysis?.yields ? { description: 'Each value produced.' } : undefined,
+      raises: analysis?.raises.length
+        ? analysis.raises.map((type) => ({ type, description: `When ${name} fails.` }))
+        : undefined,
+      attributes: func.attributes?.map((a) => ({
+        name: a.name,
+        type: a.type,
+        description: `The ${a.name}.`,
+      })),
+    }
+  }
+
+  return {
+    id: 'mock',
+    model: 'mock',
+    complete({ declarations, batched }) {
+      const answer = batched
+        ? {
+            docstrings: declarations.map((func) => ({
+              qualifiedName: func.qualifiedName || func.name,
+              documentation: document(func),
+            })),
+          }
+        : document(declarations[0])
+      return Promise.resolve(JSON.stringify(answer))
+    },
+  }
+}
+
+/** Converts a Gemini schema, whose types are upper-case, into standard JSON Schema */
+function toJsonSchema(schema: unknown): unknown {
+  if (Array.isArray(schema)) return schema.map(toJsonSchema)
+  if (typeof schema !== 'object' || schema === null) return schema
+  return Object.fromEntries(
+    Object.entries(schema).map(([key, value]) => [
+      key,
+      key === 'type' && typeof value === 'string' ? value.toLowerCase() : toJsonSchema(value),
+    ])
+  )
+}
+
+// Models without native schema support still need to see what the prompt refers to
+function withSchema(prompt: string, jsonSchema: unknown): string {
+  return `${prompt}\n\nThe response schema, as JSON Schema:\n${JSON.stringify(jsonSchema)}`
+}
+
+/**
+ * POSTs a JSON body and returns the parsed JSON answer, retrying rate limits, server errors and
+ * network failures with exponential backoff. A `Retry-After` header sets the wait instead.
+ */
+async function postJson<T>(
+  label: string,
+  url: string,
+  headers: Record<string, string>,
+  body: unknown,
+  signal?: AbortSignal
+): Promise<T> {
+  for (let attempt = 1; ; attempt++) {
+    let response: Response | undefined
+    try {
+      response = await fetch(url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', ...headers },
+        body: JSON.stringify(body),
+        signal,
+      })
+    } catch (error) {
+      if (signal?.aborted || attempt >= MAX_ATTEMPTS) {
+        throw new Error(`${label} request failed: ${error.message}`)
+      }
+    }
+    if (response?.ok) return response.json()
+
+    let delay = backoffDelay(attempt)
+    if (response) {
+      const error = await response.text()
+      console.error(`${label} error:`, error)
+      const retryAfter = parseRetryAfter(response.headers.get('Retry-After'))
+      if (
+        !RETRYABLE_STATUSES.has(response.status) ||
+        attempt >= MAX_ATTEMPTS ||
+        (retryAfter ?? 0) > MAX_RETRY_AFTER_MS
+      ) {
+        throw new Error(`${label} request failed: ${response.status} ${response.statusText}`)
+      }
+      delay = retryAfter ?? delay
+    }
+    await new Promise((resolve) => setTimeout(resolve, delay))
+    if (signal?.aborted) throw new Error(`${label} request was cancelled`)
+  }
+}
+
+/** Exponential backoff with full jitter: a random wait below a ceiling that doubles each time */
+function backoffDelay(attempt: number): number {
+  const ceiling = Math.min(RETRY_MAX_DELAY_MS, RETRY_BASE_DELAY_MS * 2 ** (attempt - 1))
+  return Math.random() * ceiling
+}
+
+/** Reads a `Retry-After` header, given in seconds or as an HTTP date, in milliseconds */
+function parseRetryAfter(header: string | null): number | undefined {
+  if (!header) return undefined
+  const seconds = Number(header)
+  const delay = Number.isNaN(seconds) ? Date.parse(header) - Date.now() : seconds * 1000
+  return Number.isNaN(delay) ? undefined : Math.max(0, delay)
+}
@@ -0,0 +1,53 @@
+// Request shapes shared by the edge function and its providers
+
+export interface ParamInfo {
+  name: string
+  type?: string
+  defaultValue?: string
+  kind:
+    | 'positional'
+    | 'positional-only'
+    | 'keyword-only'
+    | 'variadic'
+    | 'variadic-keyword'
+    | 'destructured'
+  optional?: boolean
+}
+
+export interface BodyAnalysis {
+  isAsync: boolean
+  returnsValue: boolean
+  yields: boolean
+  awaits: boolean
+  raises: string[]
+  mutates: string[]
+}
+
+export interface AttributeInfo {
+  name: string
+  type?: string
+  defaultValue?: string
+  kind: 'field' | 'instance' | 'property'
+  readonly?: boolean
+}
+
+export interface ModuleInfo {
+  imports: string[]
+  symbols: Array<{ name: string; type: string; summary?: string }>
+}
+
+export interface FunctionInfo {
+  name: string
+  qualifiedName?: string
+  parent?: string
+  params: ParamInfo[]
+  returnType?: string
+  overloads?: string[]
+  analysis?: BodyAnalysis
+  attributes?: AttributeInfo[]
+  module?: ModuleInfo
+  body: string
+  type?: string
+  /** Extra guidance from the user, such as "mention it is thread-safe" */
+  hint?: string
+}
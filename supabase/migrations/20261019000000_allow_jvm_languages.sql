@@ -0,0 +1,5 @@
+-- Allow history entries for Java and Kotlin files
+ALTER TABLE public.docgen_history DROP CONSTRAINT IF EXISTS docgen_history_language_check;
+ALTER TABLE public.docgen_history
+    ADD CONSTRAINT docgen_history_language_check
+    CHECK (language IN ('python', 'javascript', 'typescript', 'java', 'kotlin'));
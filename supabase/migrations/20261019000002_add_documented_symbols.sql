@@ -0,0 +1,3 @@
+-- Record which declarations each generation documented
+ALTER TABLE public.docgen_history
+    ADD COLUMN IF NOT EXISTS documented_symbols TEXT[] NOT NULL DEFAULT '{}';
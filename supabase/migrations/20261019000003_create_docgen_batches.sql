@@ -0,0 +1,38 @@
+-- Group the per-file history entries of a project run into one batch
+CREATE TABLE IF NOT EXISTS public.docgen_batches (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    name TEXT NOT NULL,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_docgen_batches_user_id ON public.docgen_batches(user_id);
+
+ALTER TABLE public.docgen_batches ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view their own batches" ON public.docgen_batches;
+DROP POLICY IF EXISTS "Users can insert their own batches" ON public.docgen_batches;
+DROP POLICY IF EXISTS "Users can delete their own batches" ON public.docgen_batches;
+
+CREATE POLICY "Users can view their own batches"
+    ON public.docgen_batches
+    FOR SELECT
+    USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own batches"
+    ON public.docgen_batches
+    FOR INSERT
+    WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own batches"
+    ON public.docgen_batches
+    FOR DELETE
+    USING (auth.uid() = user_id);
+
+GRANT ALL ON public.docgen_batches TO postgres, service_role;
+GRANT SELECT, INSERT, DELETE ON public.docgen_batches TO authenticated;
+
+-- Deleting a batch deletes its files' entries
+ALTER TABLE public.docgen_history
+    ADD COLUMN IF NOT EXISTS batch_id UUID REFERENCES public.docgen_batches(id) ON DELETE CASCADE;
+CREATE INDEX IF NOT EXISTS idx_docgen_history_batch_id ON public.docgen_history(batch_id);
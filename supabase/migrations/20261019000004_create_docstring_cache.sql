@@ -0,0 +1,18 @@
+-- Generated documentation keyed by a hash of the declaration (see _shared/docstringCache.ts), so
+-- that unchanged code is not sent to the model again. Answers from different models are kept
+-- apart. Only the edge function reads and writes it, with the service role.
+CREATE TABLE IF NOT EXISTS public.docstring_cache (
+    key TEXT NOT NULL,
+    generator TEXT NOT NULL,
+    language TEXT NOT NULL,
+    structured JSONB NOT NULL,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    PRIMARY KEY (key, generator)
+);
+
+CREATE INDEX IF NOT EXISTS idx_docstring_cache_created_at ON public.docstring_cache(created_at);
+
+-- Row level security without policies keeps the table closed to the anon and authenticated roles
+ALTER TABLE public.docstring_cache ENABLE ROW LEVEL SECURITY;
+
+GRANT ALL ON public.docstring_cache TO postgres, service_role;
@@ -3,11 +3,19 @@ import react from '@vitejs/plugin-react'
 import path from 'path'
 
 // https://vitejs.dev/config/
-export default defineConfig({
+export default defineConfig(({ isSsrBuild }) => ({
   plugins: [react()],
   resolve: {
     alias: {
       '@': path.resolve(__dirname, './src'),
+      '@shared': path.resolve(__dirname, './supabase/functions/_shared'),
     },
   },
-})
+  build: {
+    // The SSR build holds the command-line tools, which have no use for the static assets
+    copyPublicDir: !isSsrBuild,
+    rollupOptions: isSsrBuild
+      ? { input: { index: 'src/cli/index.ts', lsp: 'src/lsp/server.ts' } }
+      : undefined,
+  },
+}))